@@ -0,0 +1,416 @@
+// 配置结构描述：用于校验 config.yaml、生成环境变量覆盖项
+
+export type SchemaNode =
+  | { type: "string"; enum?: readonly string[]; nonEmpty?: boolean }
+  | { type: "number" | "integer"; min?: number; max?: number }
+  | { type: "boolean" }
+  | { type: "object"; properties: Record<string, SchemaNode>; required?: readonly string[] }
+  | { type: "record"; values: SchemaNode } // 任意键名的对象，如 exif 标签
+  | { type: "array"; items: SchemaNode }
+  | { type: "union"; of: readonly SchemaNode[] };
+
+// 校验结果：errors 会导致启动失败，warnings 仅提示
+export interface ValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+// 环境变量前缀，如 FAO_OPENAI_API_KEY、FAO_SCAN_SIMILARITY_THRESHOLD
+export const ENV_PREFIX = "FAO_";
+
+const str = (extra: { enum?: readonly string[]; nonEmpty?: boolean } = {}): SchemaNode => ({ type: "string", ...extra });
+const num = (min?: number, max?: number): SchemaNode => ({ type: "number", min, max });
+const int = (min?: number, max?: number): SchemaNode => ({ type: "integer", min, max });
+const bool = (): SchemaNode => ({ type: "boolean" });
+const obj = (properties: Record<string, SchemaNode>, required?: readonly string[]): SchemaNode => ({
+  type: "object",
+  properties,
+  required,
+});
+const sizeValue: SchemaNode = { type: "union", of: [int(0), str({ nonEmpty: true })] };
+
+const ruleSchema = obj(
+  {
+    name: str({ nonEmpty: true }),
+    priority: num(),
+    match: obj({
+      extensions: { type: "array", items: str({ nonEmpty: true }) },
+      glob: str({ nonEmpty: true }),
+      name_regex: str({ nonEmpty: true }),
+      size_min: sizeValue,
+      size_max: sizeValue,
+      age_min_days: num(0),
+      age_max_days: num(0),
+      mime: str({ nonEmpty: true }),
+      exif: { type: "record", values: { type: "union", of: [str(), num()] } },
+    }),
+    target: str({ nonEmpty: true }),
+  },
+  ["name", "match", "target"]
+);
+
+const jobSchema = obj(
+  {
+    name: str({ nonEmpty: true }),
+    root_dir: str({ nonEmpty: true }),
+    incoming_dir: str({ nonEmpty: true }),
+    schedule: str({ nonEmpty: true }),
+    model: str({ nonEmpty: true }),
+    batch_size: int(1),
+    similarity_threshold: num(0, 1),
+    language: str({ nonEmpty: true }),
+    taxonomy: { type: "array", items: str({ nonEmpty: true }) },
+  },
+  ["name", "root_dir", "incoming_dir"]
+);
+
+// 完整配置结构（与 config.ts 中的 ConfigFile 保持一致）
+export const configSchema: SchemaNode = obj({
+  openai: obj({
+    api_key: str(),
+    model: str({ nonEmpty: true }),
+    base_url: str(),
+  }),
+  directories: obj({
+    root_dir: str({ nonEmpty: true }),
+    incoming_dir: str({ nonEmpty: true }),
+  }),
+  cron: obj({
+    schedule: str({ nonEmpty: true }),
+  }),
+  logging: obj({
+    level: str({ enum: ["trace", "debug", "info", "warn", "error", "fatal", "silent"] }),
+    dir: str({ nonEmpty: true }),
+  }),
+  scan: obj({
+    max_depth: int(0),
+    similarity_threshold: num(0, 1),
+  }),
+  ai: obj({
+    batch_size: int(1),
+    max_batch_tokens: int(0),
+    provider: str({ enum: ["openai-tools", "openai-json", "mock"] }),
+    json_response_format: bool(),
+    mock_responses: str(),
+    concurrency: int(1),
+    max_retries: int(0),
+    retry_base_ms: int(0),
+    retry_max_ms: int(0),
+    requests_per_minute: int(0),
+    tokens_per_minute: int(0),
+    breaker_threshold: int(0),
+    breaker_cooldown_seconds: num(0),
+  }),
+  prompt: obj({
+    language: str({ nonEmpty: true }),
+    system_template: str(),
+    user_template: str(),
+  }),
+  taxonomy: obj({
+    dirs: { type: "array", items: str({ nonEmpty: true }) },
+    allow_subdirs: bool(),
+  }),
+  examples: obj({
+    per_dir: int(0),
+    max_dirs: int(0),
+    max_tokens: int(0),
+    include: { type: "array", items: str({ nonEmpty: true }) },
+    exclude: { type: "array", items: str({ nonEmpty: true }) },
+  }),
+  retrieval: obj({
+    max_dirs: int(0),
+    top_k: int(1),
+  }),
+  vision: obj({
+    enabled: bool(),
+    max_images_per_run: int(0),
+    max_size: int(16),
+    only_without_metadata: bool(),
+  }),
+  naming: obj({
+    enabled: bool(),
+    convention: str(),
+  }),
+  recording: obj({
+    enabled: bool(),
+    keep_days: int(0),
+  }),
+  embeddings: obj({
+    enabled: bool(),
+    provider: str({ enum: ["openai", "mock"] }),
+    model: str({ nonEmpty: true }),
+    base_url: str(),
+    api_key: str(),
+    batch_size: int(1),
+    max_new_per_run: int(0),
+    max_chars: int(1),
+    similarity_threshold: num(0, 1),
+  }),
+  usage: obj({
+    prices: { type: "record", values: obj({ input: num(0), output: num(0) }, ["input", "output"]) },
+    currency: str({ nonEmpty: true }),
+    daily_budget: num(0),
+    monthly_budget: num(0),
+  }),
+  file_operations: obj({
+    max_retries: int(1),
+    retry_delay_base: int(0),
+  }),
+  data: obj({
+    dir: str({ nonEmpty: true }),
+  }),
+  rules: { type: "array", items: ruleSchema },
+  watch: obj({
+    debounce_ms: int(0),
+    stable_checks: int(0),
+    stable_interval_ms: int(1),
+    sweep_interval_minutes: num(0),
+  }),
+  jobs: { type: "array", items: jobSchema },
+  duplicates: obj({
+    policy: str({ enum: ["off", "skip", "delete", "move", "hardlink"] }),
+    dir: str({ nonEmpty: true }),
+  }),
+  cache: obj({
+    enabled: bool(),
+    match_name: bool(),
+  }),
+  review: obj({
+    confidence_threshold: num(0, 1),
+    new_top_level: bool(),
+    dir: str({ nonEmpty: true }),
+  }),
+});
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 校验单个值，错误路径形如 scan.similarity_threshold、rules[0].match.glob
+ */
+function validateNode(node: SchemaNode, value: unknown, at: string, result: ValidationResult): boolean {
+  switch (node.type) {
+    case "string": {
+      if (typeof value !== "string") {
+        result.errors.push(`${at}: 应为字符串，实际为 ${describe(value)}`);
+        return false;
+      }
+      if (node.nonEmpty && !value.trim()) {
+        result.errors.push(`${at}: 不能为空`);
+        return false;
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        result.errors.push(`${at}: 取值 "${value}" 无效，可选值: ${node.enum.join(", ")}`);
+        return false;
+      }
+      return true;
+    }
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        result.errors.push(`${at}: 应为数字，实际为 ${describe(value)}`);
+        return false;
+      }
+      if (node.type === "integer" && !Number.isInteger(value)) {
+        result.errors.push(`${at}: 应为整数，实际为 ${value}`);
+        return false;
+      }
+      if (node.min !== undefined && value < node.min) {
+        result.errors.push(`${at}: 不能小于 ${node.min}，实际为 ${value}`);
+        return false;
+      }
+      if (node.max !== undefined && value > node.max) {
+        result.errors.push(`${at}: 不能大于 ${node.max}，实际为 ${value}`);
+        return false;
+      }
+      return true;
+    }
+    case "boolean": {
+      if (typeof value !== "boolean") {
+        result.errors.push(`${at}: 应为布尔值，实际为 ${describe(value)}`);
+        return false;
+      }
+      return true;
+    }
+    case "object": {
+      if (!isPlainObject(value)) {
+        result.errors.push(`${at}: 应为对象，实际为 ${describe(value)}`);
+        return false;
+      }
+      let ok = true;
+      for (const key of node.required ?? []) {
+        if (value[key] === undefined || value[key] === null) {
+          result.errors.push(`${at ? `${at}.` : ""}${key}: 缺少必填项`);
+          ok = false;
+        }
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = at ? `${at}.${key}` : key;
+        const childNode = node.properties[key];
+        if (!childNode) {
+          result.warnings.push(`${childPath}: 未知配置项，已忽略`);
+          continue;
+        }
+        // 显式写成 null 的可选项视为未填写
+        if (child === null && !node.required?.includes(key)) continue;
+        ok = validateNode(childNode, child, childPath, result) && ok;
+      }
+      return ok;
+    }
+    case "record": {
+      if (!isPlainObject(value)) {
+        result.errors.push(`${at}: 应为对象，实际为 ${describe(value)}`);
+        return false;
+      }
+      let ok = true;
+      for (const [key, child] of Object.entries(value)) {
+        ok = validateNode(node.values, child, `${at}.${key}`, result) && ok;
+      }
+      return ok;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        result.errors.push(`${at}: 应为数组，实际为 ${describe(value)}`);
+        return false;
+      }
+      let ok = true;
+      value.forEach((item, index) => {
+        ok = validateNode(node.items, item, `${at}[${index}]`, result) && ok;
+      });
+      return ok;
+    }
+    case "union": {
+      // 任一分支通过即可；全部失败时只报告一条汇总错误
+      for (const option of node.of) {
+        const attempt: ValidationResult = { errors: [], warnings: [] };
+        if (validateNode(option, value, at, attempt)) {
+          result.warnings.push(...attempt.warnings);
+          return true;
+        }
+      }
+      result.errors.push(`${at}: 类型无效，应为 ${node.of.map((o) => o.type).join(" 或 ")}，实际为 ${describe(value)}`);
+      return false;
+    }
+  }
+}
+
+/**
+ * 按结构校验配置
+ */
+export function validateConfig(value: unknown, schema: SchemaNode = configSchema): ValidationResult {
+  const result: ValidationResult = { errors: [], warnings: [] };
+  validateNode(schema, value, "", result);
+  return result;
+}
+
+/**
+ * 将环境变量字符串转换为结构要求的类型
+ */
+function coerceEnvValue(node: SchemaNode, raw: string): unknown {
+  switch (node.type) {
+    case "string":
+      return raw;
+    case "number":
+    case "integer": {
+      const value = Number(raw);
+      if (!raw.trim() || Number.isNaN(value)) throw new Error(`"${raw}" 不是有效数字`);
+      return value;
+    }
+    case "boolean": {
+      const lowered = raw.trim().toLowerCase();
+      if (["true", "1", "yes", "on"].includes(lowered)) return true;
+      if (["false", "0", "no", "off"].includes(lowered)) return false;
+      throw new Error(`"${raw}" 不是有效布尔值`);
+    }
+    case "union": {
+      const numeric = Number(raw);
+      const acceptsNumber = node.of.some((o) => o.type === "number" || o.type === "integer");
+      return acceptsNumber && raw.trim() && !Number.isNaN(numeric) ? numeric : raw;
+    }
+    default:
+      // 对象与数组（如 FAO_RULES、FAO_JOBS）使用 JSON
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error("应为 JSON");
+      }
+  }
+}
+
+/**
+ * 列出所有可用的环境变量名及对应的配置路径
+ */
+export function listEnvKeys(schema: SchemaNode = configSchema): Array<{ env: string; path: string[] }> {
+  const keys: Array<{ env: string; path: string[] }> = [];
+  const walk = (node: SchemaNode, at: string[]) => {
+    if (node.type === "object" && at.length < 2) {
+      for (const [key, child] of Object.entries(node.properties)) {
+        walk(child, [...at, key]);
+      }
+      return;
+    }
+    keys.push({ env: ENV_PREFIX + at.join("_").toUpperCase(), path: at });
+  };
+  walk(schema, []);
+  return keys;
+}
+
+/**
+ * 应用环境变量覆盖：FAO_<段>_<键>，如 FAO_DIRECTORIES_ROOT_DIR；rules / jobs 以 JSON 传入
+ */
+export function applyEnvOverrides(
+  raw: Record<string, any>,
+  env: Record<string, string | undefined> = process.env,
+  schema: SchemaNode = configSchema
+): { config: Record<string, any>; errors: string[]; applied: string[] } {
+  const config: Record<string, any> = { ...raw };
+  const errors: string[] = [];
+  const applied: string[] = [];
+
+  for (const { env: name, path: keyPath } of listEnvKeys(schema)) {
+    const value = env[name];
+    if (value === undefined) continue;
+
+    let node: SchemaNode = schema;
+    for (const key of keyPath) {
+      node = (node as Extract<SchemaNode, { type: "object" }>).properties[key];
+    }
+
+    try {
+      const coerced = coerceEnvValue(node, value);
+      if (keyPath.length === 1) {
+        config[keyPath[0]] = coerced;
+      } else {
+        const [section, key] = keyPath;
+        config[section] = { ...(isPlainObject(config[section]) ? config[section] : {}), [key]: coerced };
+      }
+      applied.push(name);
+    } catch (err) {
+      errors.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return { config, errors, applied };
+}
+
+/**
+ * 深度合并：对象逐层合并，数组与标量整体替换
+ */
+export function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined || value === null) continue;
+    merged[key] = deepMerge((base as Record<string, unknown>)[key], value);
+  }
+  return merged as T;
+}
@@ -0,0 +1,56 @@
+import fs from "node:fs";
+import { systemLogger as logger } from "./logger.js";
+import { AppConfig, CONFIG_PATH, ConfigError, reloadConfig } from "./config.js";
+
+/**
+ * 配置文件监听：文件变化后重新读取并校验，仅把有效的新配置交给回调；
+ * 无效的修改只记录日志，当前配置保持不变。
+ */
+export class ConfigWatcher {
+  private configPath: string;
+  private intervalMs: number;
+  private onChange: (next: AppConfig) => void;
+  private listener: ((curr: fs.Stats, prev: fs.Stats) => void) | null = null;
+
+  constructor(onChange: (next: AppConfig) => void, configPath: string = CONFIG_PATH, intervalMs = 2000) {
+    this.onChange = onChange;
+    this.configPath = configPath;
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.listener) return;
+
+    // 使用轮询而不是 fs.watch：编辑器保存时常以"写临时文件再重命名"的方式替换文件，
+    // fs.watch 会丢失对原文件的监听，且 Docker 挂载的文件不一定能收到 inotify 事件
+    this.listener = (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+      this.reload();
+    };
+    fs.watchFile(this.configPath, { interval: this.intervalMs }, this.listener);
+    logger.info({ configPath: this.configPath }, "正在监听配置文件变化");
+  }
+
+  stop(): void {
+    if (!this.listener) return;
+    fs.unwatchFile(this.configPath, this.listener);
+    this.listener = null;
+  }
+
+  private reload(): void {
+    try {
+      const { config: next, warnings } = reloadConfig();
+      warnings.forEach((warning) => logger.warn({ configPath: this.configPath }, warning));
+      logger.info({ configPath: this.configPath }, "检测到配置文件变化，校验通过");
+      this.onChange(next);
+    } catch (error) {
+      logger.error(
+        {
+          configPath: this.configPath,
+          errors: error instanceof ConfigError ? error.details : [error instanceof Error ? error.message : String(error)],
+        },
+        "配置文件修改无效，已忽略，继续使用当前配置"
+      );
+    }
+  }
+}
@@ -1,9 +1,65 @@
 import fs from "fs";
 import path from "path";
 import yaml from "js-yaml";
+import { ENV_PREFIX, applyEnvOverrides, deepMerge, validateConfig } from "./config-schema.js";
+
+// 规则匹配条件（所有已填写的条件需同时满足）
+export interface RuleMatchConfig {
+  extensions?: string[]; // 扩展名列表，如 [".iso", "torrent"]
+  glob?: string; // 文件名通配符，如 "*.torrent"
+  name_regex?: string; // 文件名正则
+  size_min?: number | string; // 最小大小，字节数或 "10MB"
+  size_max?: number | string; // 最大大小
+  age_min_days?: number; // 修改时间距今最少天数
+  age_max_days?: number; // 修改时间距今最多天数
+  mime?: string; // MIME 类型，支持 "image/*"
+  exif?: Record<string, string | number>; // EXIF 标签值，"/正则/" 形式按正则匹配
+}
+
+// 分类规则
+export interface RuleConfig {
+  name: string;
+  priority?: number; // 数值越大越先匹配，相同优先级按声明顺序
+  match: RuleMatchConfig;
+  target: string; // 目标目录模板，如 "安装包/{ext}"、"照片/{year}/{month}"
+}
+
+// 重复文件处理策略
+export type DuplicatePolicy = "off" | "skip" | "delete" | "move" | "hardlink";
+
+// AI 服务提供方：OpenAI 函数调用 / 纯文本 JSON 输出 / 模拟
+export type AIProviderName = "openai-tools" | "openai-json" | "mock";
+
+// 向量化提供方：OpenAI 兼容接口（含本地服务）/ 模拟
+export type EmbeddingProviderName = "openai" | "mock";
+
+// 模型价格（每百万 token）
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 封闭分类体系：dirs 非空时 AI 只能从中选择目录，allowSubdirs 时也可使用其子目录
+export interface Taxonomy {
+  dirs: string[];
+  allowSubdirs: boolean;
+}
+
+// 整理任务：每个任务有独立的分类库和待分类目录，未填写的项沿用顶层配置
+export interface JobFileConfig {
+  name: string;
+  root_dir: string;
+  incoming_dir: string;
+  schedule?: string;
+  model?: string;
+  batch_size?: number;
+  similarity_threshold?: number;
+  language?: string;
+  taxonomy?: string[];
+}
 
 // 配置文件接口定义
-interface ConfigFile {
+export interface ConfigFile {
   openai: {
     api_key: string;
     model: string;
@@ -26,11 +82,98 @@ interface ConfigFile {
   };
   ai: {
     batch_size: number;
+    max_batch_tokens: number;
+    provider: AIProviderName;
+    json_response_format: boolean;
+    mock_responses: string;
+    concurrency: number;
+    max_retries: number;
+    retry_base_ms: number;
+    retry_max_ms: number;
+    requests_per_minute: number;
+    tokens_per_minute: number;
+    breaker_threshold: number;
+    breaker_cooldown_seconds: number;
+  };
+  prompt: {
+    language: string;
+    system_template: string;
+    user_template: string;
+  };
+  taxonomy: {
+    dirs: string[];
+    allow_subdirs: boolean;
+  };
+  examples: {
+    per_dir: number;
+    max_dirs: number;
+    max_tokens: number;
+    include: string[];
+    exclude: string[];
+  };
+  retrieval: {
+    max_dirs: number;
+    top_k: number;
+  };
+  vision: {
+    enabled: boolean;
+    max_images_per_run: number;
+    max_size: number;
+    only_without_metadata: boolean;
+  };
+  naming: {
+    enabled: boolean;
+    convention: string;
+  };
+  recording: {
+    enabled: boolean;
+    keep_days: number;
+  };
+  embeddings: {
+    enabled: boolean;
+    provider: EmbeddingProviderName;
+    model: string;
+    base_url: string;
+    api_key: string;
+    batch_size: number;
+    max_new_per_run: number;
+    max_chars: number;
+    similarity_threshold: number;
+  };
+  usage: {
+    prices: Record<string, ModelPrice>;
+    currency: string;
+    daily_budget: number;
+    monthly_budget: number;
   };
   file_operations: {
     max_retries: number;
     retry_delay_base: number;
   };
+  data: {
+    dir: string;
+  };
+  rules: RuleConfig[];
+  watch: {
+    debounce_ms: number;
+    stable_checks: number;
+    stable_interval_ms: number;
+    sweep_interval_minutes: number;
+  };
+  jobs: JobFileConfig[];
+  duplicates: {
+    policy: DuplicatePolicy;
+    dir: string;
+  };
+  cache: {
+    enabled: boolean;
+    match_name: boolean;
+  };
+  review: {
+    confidence_threshold: number;
+    new_top_level: boolean;
+    dir: string;
+  };
 }
 
 // 默认配置
@@ -56,63 +199,285 @@ const defaultConfig: ConfigFile = {
     similarity_threshold: 0.65,
   },
   ai: {
-    batch_size: 5,
+    batch_size: 50,
+    max_batch_tokens: 8000,
+    provider: "openai-tools",
+    json_response_format: false,
+    mock_responses: "",
+    concurrency: 1,
+    max_retries: 3,
+    retry_base_ms: 1000,
+    retry_max_ms: 60000,
+    requests_per_minute: 0,
+    tokens_per_minute: 0,
+    breaker_threshold: 5,
+    breaker_cooldown_seconds: 300,
+  },
+  prompt: {
+    language: "zh",
+    system_template: "",
+    user_template: "",
+  },
+  taxonomy: {
+    dirs: [],
+    allow_subdirs: false,
+  },
+  examples: {
+    per_dir: 3,
+    max_dirs: 30,
+    max_tokens: 1500,
+    include: [],
+    exclude: [],
+  },
+  retrieval: {
+    max_dirs: 200,
+    top_k: 40,
+  },
+  vision: {
+    enabled: false,
+    max_images_per_run: 20,
+    max_size: 512,
+    only_without_metadata: true,
+  },
+  naming: {
+    enabled: false,
+    convention: "",
+  },
+  recording: {
+    enabled: false,
+    keep_days: 30,
+  },
+  embeddings: {
+    enabled: false,
+    provider: "openai",
+    model: "text-embedding-3-small",
+    base_url: "",
+    api_key: "",
+    batch_size: 64,
+    max_new_per_run: 500,
+    max_chars: 1000,
+    similarity_threshold: 0.8,
+  },
+  usage: {
+    prices: {
+      "gpt-5": { input: 1.25, output: 10 },
+      "gpt-5-mini": { input: 0.25, output: 2 },
+      "gpt-5-nano": { input: 0.05, output: 0.4 },
+      "gpt-4o": { input: 2.5, output: 10 },
+      "gpt-4o-mini": { input: 0.15, output: 0.6 },
+      "text-embedding-3-small": { input: 0.02, output: 0 },
+      "text-embedding-3-large": { input: 0.13, output: 0 },
+    },
+    currency: "USD",
+    daily_budget: 0,
+    monthly_budget: 0,
   },
   file_operations: {
     max_retries: 3,
     retry_delay_base: 1000,
   },
+  data: {
+    dir: "./data",
+  },
+  rules: [],
+  watch: {
+    debounce_ms: 2000,
+    stable_checks: 2,
+    stable_interval_ms: 1000,
+    sweep_interval_minutes: 30,
+  },
+  jobs: [],
+  duplicates: {
+    policy: "off",
+    dir: "重复文件",
+  },
+  cache: {
+    enabled: true,
+    match_name: false,
+  },
+  review: {
+    confidence_threshold: 0,
+    new_top_level: false,
+    dir: ".review",
+  },
 };
 
-// 加载配置文件
-function loadConfig(): ConfigFile {
-  const configPath = path.resolve(process.cwd(), "config.yaml");
+// 配置错误：YAML 语法错误、类型错误等，启动时直接失败，不再回退到默认配置
+export class ConfigError extends Error {
+  constructor(public readonly configPath: string, public readonly details: string[]) {
+    super(`配置文件 ${configPath} 无效:\n${details.map((d) => `  - ${d}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
 
-  try {
-    if (fs.existsSync(configPath)) {
-      const fileContent = fs.readFileSync(configPath, "utf8");
-      const loadedConfig = yaml.load(fileContent) as ConfigFile;
-
-      // 合并默认配置和加载的配置
-      return mergeConfig(defaultConfig, loadedConfig);
-    } else {
-      console.warn(`配置文件 ${configPath} 不存在，使用默认配置`);
-      return defaultConfig;
+// 配置文件路径：--config 参数 > FAO_CONFIG 环境变量 > 当前目录下的 config.yaml
+function resolveConfigPath(): { configPath: string; explicit: boolean } {
+  const fromArg = getArgValue("--config");
+  const fromEnv = process.env[`${ENV_PREFIX}CONFIG`];
+  const explicit = fromArg ?? fromEnv;
+  return {
+    configPath: path.resolve(process.cwd(), explicit ?? "config.yaml"),
+    explicit: explicit !== undefined,
+  };
+}
+
+// 语义检查：结构校验之外的约束
+function checkSemantics(loaded: ConfigFile): string[] {
+  const errors: string[] = [];
+
+  const seenJobs = new Set<string>();
+  loaded.jobs.forEach((job, index) => {
+    if (seenJobs.has(job.name)) {
+      errors.push(`jobs[${index}].name: 任务名称 "${job.name}" 重复`);
     }
-  } catch (error) {
-    console.error(`加载配置文件失败: ${error}`);
-    console.warn("使用默认配置");
-    return defaultConfig;
-  }
+    seenJobs.add(job.name);
+  });
+
+  // 不同任务的目录不能相同或互相嵌套，否则一个任务会整理另一个任务的分类库或待分类文件
+  const isSameOrInside = (dir: string, parent: string) => {
+    const relative = path.relative(parent, dir);
+    return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+  };
+  loaded.jobs.forEach((job, index) => {
+    loaded.jobs.slice(0, index).forEach((other) => {
+      for (const dir of [job.root_dir, job.incoming_dir]) {
+        for (const otherDir of [other.root_dir, other.incoming_dir]) {
+          const [a, b] = [path.resolve(dir), path.resolve(otherDir)];
+          if (isSameOrInside(a, b) || isSameOrInside(b, a)) {
+            errors.push(`jobs[${index}]: 目录 "${dir}" 与任务 "${other.name}" 的目录 "${otherDir}" 重叠`);
+          }
+        }
+      }
+    });
+  });
+
+  (["system_template", "user_template"] as const).forEach((key) => {
+    const templatePath = loaded.prompt[key];
+    if (templatePath && !fs.existsSync(templatePath)) {
+      errors.push(`prompt.${key}: 模板文件 ${templatePath} 不存在`);
+    }
+  });
+
+  const checkTaxonomy = (dirs: string[], at: string) => {
+    dirs.forEach((dir, index) => {
+      const segments = dir.split(/[\\/]+/).filter(Boolean);
+      if (path.isAbsolute(dir) || segments.length === 0 || segments.includes("..")) {
+        errors.push(`${at}[${index}]: 目录 "${dir}" 应为分类库内的相对路径`);
+      }
+    });
+  };
+  checkTaxonomy(loaded.taxonomy.dirs, "taxonomy.dirs");
+  loaded.jobs.forEach((job, index) => checkTaxonomy(job.taxonomy ?? [], `jobs[${index}].taxonomy`));
+
+  loaded.rules.forEach((rule, index) => {
+    if (rule.match.name_regex) {
+      try {
+        new RegExp(rule.match.name_regex);
+      } catch (err) {
+        errors.push(`rules[${index}].match.name_regex: 正则无效 (${err instanceof Error ? err.message : String(err)})`);
+      }
+    }
+    // 形如 "/.../flags" 的 EXIF 期望值按正则匹配（与规则引擎的解析方式一致）
+    for (const [tag, expected] of Object.entries(rule.match.exif ?? {})) {
+      const regexMatch = typeof expected === "string" ? expected.match(/^\/(.+)\/([a-z]*)$/) : null;
+      if (!regexMatch) continue;
+      try {
+        new RegExp(regexMatch[1], regexMatch[2]);
+      } catch (err) {
+        errors.push(`rules[${index}].match.exif.${tag}: 正则无效 (${err instanceof Error ? err.message : String(err)})`);
+      }
+    }
+  });
+
+  return errors;
 }
 
-// 深度合并配置
-function mergeConfig(defaultConfig: ConfigFile, loadedConfig: Partial<ConfigFile>): ConfigFile {
-  const merged = { ...defaultConfig };
+/**
+ * 加载并校验配置：读取 YAML → 校验结构 → 应用 FAO_* 环境变量 → 与默认配置深度合并
+ *
+ * 任何错误都会抛出 ConfigError；未知配置项只产生警告。
+ */
+export function loadConfig(
+  configPath: string = resolveConfigPath().configPath,
+  options: { explicit?: boolean; env?: Record<string, string | undefined> } = {}
+): { config: ConfigFile; warnings: string[] } {
+  const { explicit = resolveConfigPath().explicit, env = process.env } = options;
+  const warnings: string[] = [];
+  let fileConfig: Record<string, any> = {};
 
-  if (loadedConfig.openai) {
-    merged.openai = { ...merged.openai, ...loadedConfig.openai };
-  }
-  if (loadedConfig.directories) {
-    merged.directories = { ...merged.directories, ...loadedConfig.directories };
-  }
-  if (loadedConfig.cron) {
-    merged.cron = { ...merged.cron, ...loadedConfig.cron };
-  }
-  if (loadedConfig.logging) {
-    merged.logging = { ...merged.logging, ...loadedConfig.logging };
-  }
-  if (loadedConfig.scan) {
-    merged.scan = { ...merged.scan, ...loadedConfig.scan };
+  if (fs.existsSync(configPath)) {
+    let parsed: unknown;
+    try {
+      parsed = yaml.load(fs.readFileSync(configPath, "utf8"));
+    } catch (error) {
+      throw new ConfigError(configPath, [`YAML 解析失败: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+    if (parsed !== undefined && parsed !== null) {
+      if (typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new ConfigError(configPath, ["配置文件顶层应为对象"]);
+      }
+      fileConfig = parsed as Record<string, any>;
+    }
+  } else if (explicit) {
+    throw new ConfigError(configPath, ["配置文件不存在"]);
+  } else {
+    warnings.push(`配置文件 ${configPath} 不存在，使用默认配置与环境变量`);
   }
-  if (loadedConfig.ai) {
-    merged.ai = { ...merged.ai, ...loadedConfig.ai };
+
+  const { config: withEnv, errors: envErrors } = applyEnvOverrides(fileConfig, env);
+  const validation = validateConfig(withEnv);
+  warnings.push(...validation.warnings);
+
+  const errors = [...envErrors, ...validation.errors];
+  if (errors.length > 0) {
+    throw new ConfigError(configPath, errors);
   }
-  if (loadedConfig.file_operations) {
-    merged.file_operations = { ...merged.file_operations, ...loadedConfig.file_operations };
+
+  const merged = deepMerge(defaultConfig, withEnv);
+  const semanticErrors = checkSemantics(merged);
+  if (semanticErrors.length > 0) {
+    throw new ConfigError(configPath, semanticErrors);
   }
 
-  return merged;
+  return { config: merged, warnings };
+}
+
+// 单个任务的运行配置
+export interface JobConfig {
+  NAME: string;
+  ROOT_DIR: string;
+  INCOMING_DIR: string;
+  CRON_SCHEDULE: string;
+  OPENAI_MODEL: string;
+  AI_BATCH_SIZE: number;
+  SIMILARITY_THRESHOLD: number;
+  PROMPT_LANGUAGE: string;
+  TAXONOMY: Taxonomy;
+}
+
+// 展开任务列表：未配置 jobs 时，顶层 directories 作为名为 default 的唯一任务
+function buildJobs(loaded: ConfigFile): JobConfig[] {
+  const jobs = loaded.jobs.length > 0
+    ? loaded.jobs
+    : [{ name: "default", ...loaded.directories }];
+
+  return jobs.map((job) => {
+    return {
+      NAME: job.name,
+      ROOT_DIR: job.root_dir,
+      INCOMING_DIR: job.incoming_dir,
+      CRON_SCHEDULE: job.schedule ?? loaded.cron.schedule,
+      OPENAI_MODEL: job.model ?? loaded.openai.model,
+      AI_BATCH_SIZE: job.batch_size ?? loaded.ai.batch_size,
+      SIMILARITY_THRESHOLD: job.similarity_threshold ?? loaded.scan.similarity_threshold,
+      PROMPT_LANGUAGE: job.language ?? loaded.prompt.language,
+      TAXONOMY: {
+        // 统一为不带首尾 "/" 的形式，便于与 AI 结果比较
+        dirs: (job.taxonomy ?? loaded.taxonomy.dirs).map((dir) => dir.trim().replace(/\\/g, "/").replace(/^\/+|\/+$/g, "")),
+        allowSubdirs: loaded.taxonomy.allow_subdirs,
+      },
+    };
+  });
 }
 
 // 检查命令行参数
@@ -120,26 +485,140 @@ function hasArg(flag: string): boolean {
   return process.argv.includes(flag);
 }
 
-// 加载配置
-const loadedConfig = loadConfig();
+// 获取命令行参数值（形如 --flag value）
+function getArgValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  return value && !value.startsWith("--") ? value : undefined;
+}
+
+// 加载配置（配置无效时直接退出，避免误用默认目录整理文件）
+function loadConfigOrExit(): ConfigFile {
+  try {
+    const { config: loaded, warnings } = loadConfig();
+    warnings.forEach((warning) => console.warn(warning));
+    return loaded;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// 由配置文件内容生成运行时配置（命令行参数在进程生命周期内不变）
+function buildAppConfig(loadedConfig: ConfigFile) {
+  return {
+    OPENAI_API_KEY: loadedConfig.openai.api_key,
+    OPENAI_MODEL: loadedConfig.openai.model,
+    OPENAI_BASE_URL: loadedConfig.openai.base_url,
+    ROOT_DIR: loadedConfig.directories.root_dir,
+    INCOMING_DIR: loadedConfig.directories.incoming_dir,
+    CRON_SCHEDULE: loadedConfig.cron.schedule,
+    LOG_LEVEL: loadedConfig.logging.level,
+    LOG_DIR: loadedConfig.logging.dir,
+    MAX_SCAN_DEPTH: loadedConfig.scan.max_depth,
+    SIMILARITY_THRESHOLD: loadedConfig.scan.similarity_threshold,
+    AI_BATCH_SIZE: loadedConfig.ai.batch_size,
+    AI_MAX_BATCH_TOKENS: loadedConfig.ai.max_batch_tokens,
+    AI_PROVIDER: loadedConfig.ai.provider,
+    AI_JSON_RESPONSE_FORMAT: loadedConfig.ai.json_response_format,
+    AI_MOCK_RESPONSES: loadedConfig.ai.mock_responses,
+    AI_CONCURRENCY: loadedConfig.ai.concurrency,
+    AI_MAX_RETRIES: loadedConfig.ai.max_retries,
+    AI_RETRY_BASE_MS: loadedConfig.ai.retry_base_ms,
+    AI_RETRY_MAX_MS: loadedConfig.ai.retry_max_ms,
+    AI_REQUESTS_PER_MINUTE: loadedConfig.ai.requests_per_minute,
+    AI_TOKENS_PER_MINUTE: loadedConfig.ai.tokens_per_minute,
+    AI_BREAKER_THRESHOLD: loadedConfig.ai.breaker_threshold,
+    AI_BREAKER_COOLDOWN_SECONDS: loadedConfig.ai.breaker_cooldown_seconds,
+    PROMPT_SYSTEM_TEMPLATE: loadedConfig.prompt.system_template,
+    PROMPT_USER_TEMPLATE: loadedConfig.prompt.user_template,
+    EXAMPLES_PER_DIR: loadedConfig.examples.per_dir,
+    EXAMPLES_MAX_DIRS: loadedConfig.examples.max_dirs,
+    EXAMPLES_MAX_TOKENS: loadedConfig.examples.max_tokens,
+    EXAMPLES_INCLUDE: loadedConfig.examples.include,
+    EXAMPLES_EXCLUDE: loadedConfig.examples.exclude,
+    RETRIEVAL_MAX_DIRS: loadedConfig.retrieval.max_dirs,
+    RETRIEVAL_TOP_K: loadedConfig.retrieval.top_k,
+    VISION_ENABLED: loadedConfig.vision.enabled,
+    VISION_MAX_IMAGES_PER_RUN: loadedConfig.vision.max_images_per_run,
+    VISION_MAX_SIZE: loadedConfig.vision.max_size,
+    VISION_ONLY_WITHOUT_METADATA: loadedConfig.vision.only_without_metadata,
+    NAMING_ENABLED: loadedConfig.naming.enabled,
+    NAMING_CONVENTION: loadedConfig.naming.convention,
+    RECORDING_ENABLED: loadedConfig.recording.enabled,
+    RECORDING_KEEP_DAYS: loadedConfig.recording.keep_days,
+    EMBEDDINGS_ENABLED: loadedConfig.embeddings.enabled,
+    EMBEDDINGS_PROVIDER: loadedConfig.embeddings.provider,
+    EMBEDDINGS_MODEL: loadedConfig.embeddings.model,
+    EMBEDDINGS_BASE_URL: loadedConfig.embeddings.base_url,
+    EMBEDDINGS_API_KEY: loadedConfig.embeddings.api_key,
+    EMBEDDINGS_BATCH_SIZE: loadedConfig.embeddings.batch_size,
+    EMBEDDINGS_MAX_NEW_PER_RUN: loadedConfig.embeddings.max_new_per_run,
+    EMBEDDINGS_MAX_CHARS: loadedConfig.embeddings.max_chars,
+    SEMANTIC_SIMILARITY_THRESHOLD: loadedConfig.embeddings.similarity_threshold,
+    USAGE_PRICES: loadedConfig.usage.prices,
+    USAGE_CURRENCY: loadedConfig.usage.currency,
+    USAGE_DAILY_BUDGET: loadedConfig.usage.daily_budget,
+    USAGE_MONTHLY_BUDGET: loadedConfig.usage.monthly_budget,
+    FILE_MAX_RETRIES: loadedConfig.file_operations.max_retries,
+    FILE_RETRY_DELAY_BASE: loadedConfig.file_operations.retry_delay_base,
+    DATA_DIR: loadedConfig.data.dir,
+    RULES: loadedConfig.rules,
+    WATCH_DEBOUNCE_MS: loadedConfig.watch.debounce_ms,
+    WATCH_STABLE_CHECKS: loadedConfig.watch.stable_checks,
+    WATCH_STABLE_INTERVAL_MS: loadedConfig.watch.stable_interval_ms,
+    WATCH_SWEEP_INTERVAL_MINUTES: loadedConfig.watch.sweep_interval_minutes,
+    JOBS: buildJobs(loadedConfig),
+    DUPLICATE_POLICY: loadedConfig.duplicates.policy,
+    DUPLICATE_DIR: loadedConfig.duplicates.dir,
+    CACHE_ENABLED: loadedConfig.cache.enabled,
+    CACHE_MATCH_NAME: loadedConfig.cache.match_name,
+    REVIEW_CONFIDENCE_THRESHOLD: loadedConfig.review.confidence_threshold,
+    REVIEW_NEW_TOP_LEVEL: loadedConfig.review.new_top_level,
+    REVIEW_DIR: loadedConfig.review.dir,
+    DRY_RUN: hasArg("--dry-run"),
+    RUN_ONCE: hasArg("--once"),
+    WATCH_MODE: hasArg("--watch"),
+    REVIEW_MODE: hasArg("--review"),
+    LIST_RUNS: hasArg("--list-runs"),
+    UNDO_RUN: getArgValue("--undo"),
+    UNDO_FILE: getArgValue("--undo-file"),
+    CACHE_LIST: hasArg("--cache-list"),
+    CACHE_CLEAR: hasArg("--cache-clear"),
+    USAGE_REPORT: hasArg("--usage"),
+    JOB_FILTER: getArgValue("--job"),
+    PENDING_LIST: hasArg("--pending"),
+    APPROVE: getArgValue("--approve"),
+    APPROVE_TO: getArgValue("--to"),
+    APPLY_PLAN: getArgValue("--apply"),
+    REPLAY: hasArg("--replay"),
+    REPLAY_RUN: getArgValue("--replay"),
+  };
+}
+
+export type AppConfig = ReturnType<typeof buildAppConfig>;
+
+// 当前使用的配置文件路径（热重载时监听该文件）
+export const CONFIG_PATH = resolveConfigPath().configPath;
 
 // 导出配置对象（保持原有接口兼容性）
-export const config = {
-  OPENAI_API_KEY: loadedConfig.openai.api_key,
-  OPENAI_MODEL: loadedConfig.openai.model,
-  OPENAI_BASE_URL: loadedConfig.openai.base_url,
-  ROOT_DIR: loadedConfig.directories.root_dir,
-  INCOMING_DIR: loadedConfig.directories.incoming_dir,
-  CRON_SCHEDULE: loadedConfig.cron.schedule,
-  LOG_LEVEL: loadedConfig.logging.level,
-  LOG_DIR: loadedConfig.logging.dir,
-  MAX_SCAN_DEPTH: loadedConfig.scan.max_depth,
-  SIMILARITY_THRESHOLD: loadedConfig.scan.similarity_threshold,
-  AI_BATCH_SIZE: loadedConfig.ai.batch_size,
-  FILE_MAX_RETRIES: loadedConfig.file_operations.max_retries,
-  FILE_RETRY_DELAY_BASE: loadedConfig.file_operations.retry_delay_base,
-  DRY_RUN: hasArg("--dry-run"),
-  RUN_ONCE: hasArg("--once"),
-} as const;
-
-export type AppConfig = typeof config;
+//
+// 该对象在热重载时会被原地更新，服务中应在使用时读取 config.XXX，而不是在模块顶层解构。
+export const config: AppConfig = buildAppConfig(loadConfigOrExit());
+
+/**
+ * 重新读取并校验配置文件，返回新的运行时配置（无效时抛出 ConfigError，当前配置不受影响）
+ */
+export function reloadConfig(): { config: AppConfig; warnings: string[] } {
+  // 运行中配置文件被删除视为无效修改，而不是回退到默认配置
+  const { config: loaded, warnings } = loadConfig(CONFIG_PATH, { explicit: true });
+  return { config: buildAppConfig(loaded), warnings };
+}
+
+/**
+ * 原子替换当前配置（同步完成，调用方需保证此时没有正在执行的分类任务）
+ */
+export function applyConfig(next: AppConfig): void {
+  Object.assign(config, next);
+}
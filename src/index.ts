@@ -1,24 +1,71 @@
-import cron, { ScheduledTask } from "node-cron";
 import { systemLogger as logger, cleanupLogFiles } from "./logger.js";
 import { config } from "./config.js";
 import { MainService } from "./service/main.service.js";
 import { cleanupFileInfo, cleanupFileInfoSync } from "./service/file-info.service.js";
 import { processManager } from "./process-manager.js";
+import { MoveJournalService } from "./service/move-journal.service.js";
+import { UndoService } from "./service/undo.service.js";
+import { WatchService } from "./service/watch.service.js";
+import { ClassificationCacheService } from "./service/classification-cache.service.js";
+import { PlanService } from "./service/plan.service.js";
+import { ReviewService } from "./service/review.service.js";
+import { FileScanService } from "./service/file-scan.service.js";
+import { PendingReviewService } from "./service/pending-review.service.js";
+import { createRunId } from "./service/move-journal.service.js";
+import { formatCost, localDate, UsageService, UsageTotals } from "./service/usage.service.js";
+import { AIRecordingService } from "./service/ai-recording.service.js";
+import { isSameOutcome, ReplayOutcome, ReplayService } from "./service/replay.service.js";
+import { Scheduler } from "./scheduler.js";
+import { ConfigWatcher } from "./config-watcher.js";
 
-const { OPENAI_API_KEY, CRON_SCHEDULE, RUN_ONCE } = config;
+const {
+  OPENAI_API_KEY,
+  JOBS,
+  RUN_ONCE,
+  WATCH_MODE,
+  REVIEW_MODE,
+  LIST_RUNS,
+  UNDO_RUN,
+  UNDO_FILE,
+  CACHE_LIST,
+  CACHE_CLEAR,
+  USAGE_REPORT,
+  JOB_FILTER,
+  APPLY_PLAN,
+  PENDING_LIST,
+  APPROVE,
+  APPROVE_TO,
+  REPLAY,
+  REPLAY_RUN,
+} = config;
 
 /**
  * 注册所有清理函数到进程管理器
  */
-function setupProcessCleanup(cronTask?: ScheduledTask) {
-  // 如果有定时任务，注册停止函数
-  if (cronTask) {
+function setupProcessCleanup(
+  scheduler?: Scheduler,
+  configWatcher?: ConfigWatcher,
+  watchServices: WatchService[] = []
+) {
+  // 如果有定时任务，注册停止函数（热重载后任务会被重建，因此通过调度器停止当前任务）
+  if (scheduler) {
     processManager.registerCleanup(() => {
       logger.info("正在停止定时任务...");
-      cronTask.stop();
+      configWatcher?.stop();
+      scheduler.stop();
     }, "停止定时任务");
   }
 
+  // 如果有目录监听，注册停止函数（等待进行中的分类完成）
+  if (watchServices.length > 0) {
+    processManager.registerCleanup(
+      async () => {
+        await Promise.all(watchServices.map((watchService) => watchService.stop()));
+      },
+      "停止目录监听"
+    );
+  }
+
   // 注册服务清理函数
   processManager.registerCleanup(cleanupFileInfo, "清理文件信息服务");
   processManager.registerCleanup(cleanupLogFiles, "清理日志文件");
@@ -29,70 +76,356 @@ function setupProcessCleanup(cronTask?: ScheduledTask) {
 }
 
 /**
- * 验证并获取 cron 表达式
+ * 启动定时任务模式：每个任务按各自的计划表达式运行，并监听配置文件变化
+ */
+async function startScheduledMode(mainServices: MainService[]): Promise<void> {
+  const scheduler = new Scheduler(mainServices);
+  scheduler.start();
+
+  // 配置文件修改后在两次运行之间热重载，无效修改会被忽略
+  const configWatcher = new ConfigWatcher((next) => scheduler.requestReload(next));
+  configWatcher.start();
+
+  // 设置清理逻辑
+  setupProcessCleanup(scheduler, configWatcher);
+}
+
+/**
+ * 启动监听模式：实时处理新文件，并定期全量扫描
+ */
+async function startWatchMode(mainServices: MainService[]): Promise<void> {
+  logger.info(`监听模式，共 ${mainServices.length} 个任务`);
+
+  const watchServices = mainServices.map((mainService) => new WatchService(mainService));
+  watchServices.forEach((watchService) => watchService.start());
+
+  setupProcessCleanup(undefined, undefined, watchServices);
+}
+
+/**
+ * 依次执行所有任务一次，返回失败的任务数
+ */
+async function runAllOnce(mainServices: MainService[]): Promise<number> {
+  let failed = 0;
+  for (const mainService of mainServices) {
+    try {
+      await mainService.runOnce();
+    } catch (error) {
+      failed++;
+      logger.error(
+        { job: mainService.job.NAME, error: error instanceof Error ? error.message : String(error) },
+        "任务执行失败"
+      );
+    }
+  }
+  return failed;
+}
+
+/**
+ * 启动单次运行模式
+ */
+async function startOnceMode(mainServices: MainService[]): Promise<void> {
+  logger.info("单次运行模式");
+
+  // 设置清理逻辑（无定时任务）
+  setupProcessCleanup();
+
+  const failed = await runAllOnce(mainServices);
+  if (failed > 0) {
+    logger.error(`单次运行失败：${failed}/${mainServices.length} 个任务出错`);
+    process.exit(1);
+  }
+  logger.info("单次运行完成");
+  process.exit(0);
+}
+
+/**
+ * 启动交互式审核模式：生成移动计划，逐个确认后只执行批准的移动
  */
-function validateCronSchedule(schedule: string): void {
-  if (!cron.validate(schedule)) {
-    throw new Error(
-      `无效的 cron 表达式: ${schedule}\n` +
-        `node-cron 使用标准 Unix cron 格式（5个字段）：分 时 日 月 星期\n` +
-        `示例：\n` +
-        `  "*/5 * * * *" - 每5分钟\n` +
-        `  "0 * * * *"   - 每小时\n` +
-        `  "0 0 * * *"   - 每天\n` +
-        `请勿使用 Quartz 格式（6个字段，包含秒）`
+async function startReviewMode(mainServices: MainService[]): Promise<void> {
+  logger.info("交互式审核模式");
+  setupProcessCleanup();
+
+  const reviewService = new ReviewService();
+  const fileScanService = new FileScanService();
+  let failed = 0;
+
+  try {
+    for (const mainService of mainServices) {
+      const { job } = mainService;
+      const plan = await mainService.runOnce({ planOnly: true });
+      if (!plan || plan.entries.length === 0) {
+        logger.info({ job: job.NAME }, "没有需要审核的移动");
+        continue;
+      }
+
+      const { plan: approved } = await reviewService.review(plan, fileScanService.scanDirs(job.ROOT_DIR));
+      if (approved.entries.length === 0 || !(await reviewService.confirm(approved.entries.length))) {
+        logger.info({ job: job.NAME }, "未执行任何移动");
+        continue;
+      }
+
+      const report = await new PlanService().apply(approved, job);
+      failed += report.failed.length;
+      logger.info(
+        { job: job.NAME, runId: report.runId },
+        `已移动 ${report.moved.length} 个，跳过 ${report.changed.length + report.missing.length} 个，失败 ${report.failed.length} 个`
+      );
+    }
+  } finally {
+    reviewService.close();
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+/**
+ * 列出移动日志中的所有运行
+ */
+function startListRunsMode(): void {
+  const runs = new MoveJournalService().summarizeRuns();
+  if (runs.length === 0) {
+    logger.info("暂无移动记录");
+  }
+  for (const run of runs) {
+    logger.info(run, `运行 ${run.runId}${run.job ? ` [${run.job}]` : ""}: 移动 ${run.moved} 个，已撤销 ${run.undone} 个`);
+  }
+  process.exit(0);
+}
+
+/**
+ * 查看或清空分类缓存（--job 指定任务，默认全部任务）
+ */
+function startCacheMode(): void {
+  const jobs = JOB_FILTER ? JOBS.filter((job) => job.NAME === JOB_FILTER) : JOBS;
+  if (jobs.length === 0) {
+    logger.error(`未找到任务: ${JOB_FILTER}`);
+    process.exit(1);
+  }
+
+  for (const job of jobs) {
+    const cache = new ClassificationCacheService(job);
+    if (CACHE_CLEAR) {
+      const count = cache.clear();
+      logger.info({ job: job.NAME }, `已清空分类缓存，共 ${count} 条`);
+      continue;
+    }
+
+    const entries = cache.list();
+    logger.info({ job: job.NAME }, `分类缓存共 ${entries.length} 条`);
+    for (const entry of entries) {
+      logger.info({ job: job.NAME, ...entry }, `${entry.fileName} -> ${entry.directory}（命中 ${entry.hits} 次）`);
+    }
+  }
+  process.exit(0);
+}
+
+/**
+ * 查看今日与本月的 AI 用量、估算费用与预算
+ */
+function startUsageMode(): void {
+  const usageService = new UsageService();
+  const today = localDate();
+  const describe = (totals: UsageTotals) =>
+    `${totals.requests} 次请求，输入 ${totals.promptTokens} / 输出 ${totals.completionTokens} tokens，约 ${formatCost(totals.cost)}`;
+
+  const periods: Array<[string, string, number]> = [
+    ["今日", today, config.USAGE_DAILY_BUDGET],
+    ["本月", today.slice(0, 7), config.USAGE_MONTHLY_BUDGET],
+  ];
+  for (const [label, prefix, budget] of periods) {
+    const { total, models } = usageService.summarize(prefix);
+    logger.info(
+      { period: prefix, ...total, budget: budget > 0 ? budget : undefined },
+      `${label}（${prefix}）: ${describe(total)}${budget > 0 ? `，预算 ${formatCost(budget)}` : ""}`
     );
+    for (const [model, totals] of Object.entries(models)) {
+      logger.info({ period: prefix, model, ...totals }, `  ${model}: ${describe(totals)}`);
+    }
   }
+  process.exit(0);
 }
 
 /**
- * 启动定时任务模式
+ * 查看或批准待审核文件（--job 指定任务，默认全部任务）
+ *
+ * --approve <文件名|all> 移动到 AI 建议的目录，加 --to <目录> 则改派到指定目录
  */
-async function startScheduledMode(mainService: MainService): Promise<void> {
-  logger.info(`正在启动定时任务，计划表达式: ${CRON_SCHEDULE}, 时区: ${process.env.TZ}`);
+async function startPendingMode(): Promise<void> {
+  setupProcessCleanup();
 
-  // 验证 cron 表达式
-  validateCronSchedule(CRON_SCHEDULE);
+  const jobs = JOB_FILTER ? JOBS.filter((job) => job.NAME === JOB_FILTER) : JOBS;
+  if (jobs.length === 0) {
+    logger.error(`未找到任务: ${JOB_FILTER}`);
+    process.exit(1);
+  }
 
-  // 创建定时任务
-  const task = cron.schedule(
-    CRON_SCHEDULE,
-    async () => {
-      try {
-        logger.info("定时任务开始执行");
-        await mainService.runOnce();
-        logger.info("定时任务执行完成");
-      } catch (error) {
-        logger.error(
-          { error: error instanceof Error ? error.message : String(error) },
-          "定时任务执行失败"
+  const runId = createRunId();
+  let matched = 0;
+  let failed = 0;
+
+  for (const job of jobs) {
+    const pendingReviewService = new PendingReviewService(job);
+    const items = pendingReviewService.list();
+
+    if (!APPROVE) {
+      logger.info({ job: job.NAME }, `待审核文件共 ${items.length} 个`);
+      for (const item of items) {
+        const confidence = item.confidence !== undefined ? `，置信度 ${Math.round(item.confidence * 100)}%` : "";
+        logger.info(
+          { job: job.NAME, ...item },
+          `${item.name} -> ${item.proposedDir}（${item.reason === "low_confidence" ? "置信度低" : "新建顶层目录"}${confidence}）`
         );
       }
-    },
-    { timezone: process.env.TZ }
-  );
+      continue;
+    }
 
-  logger.info("定时任务已启动，等待执行...");
+    const cache = config.CACHE_ENABLED ? new ClassificationCacheService(job) : undefined;
+    for (const item of items) {
+      if (APPROVE !== "all" && item.name !== APPROVE && item.fileName !== APPROVE) continue;
+      matched++;
+      try {
+        await pendingReviewService.approve(item, runId, APPROVE_TO, cache);
+      } catch (error) {
+        failed++;
+        logger.error({ job: job.NAME, file: item.name, error: error instanceof Error ? error.message : String(error) }, "批准失败");
+      }
+    }
+  }
 
-  // 设置清理逻辑
-  setupProcessCleanup(task);
+  if (APPROVE) {
+    if (matched === 0) {
+      logger.error(`没有找到待审核文件: ${APPROVE}`);
+      process.exit(1);
+    }
+    logger.info({ runId }, `已处理 ${matched - failed} 个待审核文件，失败 ${failed} 个`);
+  }
+  process.exit(failed > 0 ? 1 : 0);
 }
 
 /**
- * 启动单次运行模式
+ * 启动撤销模式：撤销整次运行或单个文件
  */
-async function startOnceMode(mainService: MainService): Promise<void> {
-  logger.info("单次运行模式");
+async function startUndoMode(): Promise<void> {
+  setupProcessCleanup();
 
-  // 设置清理逻辑（无定时任务）
+  try {
+    const undoService = new UndoService();
+    const report = UNDO_RUN
+      ? await undoService.undoRun(UNDO_RUN)
+      : await undoService.undoFile(UNDO_FILE!);
+
+    for (const entry of report.conflicts) {
+      logger.warn({ source: entry.source, target: entry.target }, "原位置已被占用，未撤销");
+    }
+    for (const entry of report.missing) {
+      logger.warn({ target: entry.target }, "文件已不在移动后的位置，未撤销");
+    }
+    for (const { entry, error } of report.failed) {
+      logger.error({ target: entry.target, error }, "撤销失败");
+    }
+    logger.info(`撤销完成 - 已还原 ${report.restored.length} 个文件`);
+    process.exit(report.failed.length > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : String(error) }, "撤销失败");
+    process.exit(1);
+  }
+}
+
+/**
+ * 执行 dry-run 生成的移动计划
+ */
+async function startApplyMode(planPath: string): Promise<void> {
   setupProcessCleanup();
 
   try {
-    await mainService.runOnce();
-    logger.info("单次运行完成");
+    const planService = new PlanService();
+    const plan = planService.read(planPath);
+    const job = JOBS.find((j) => j.NAME === plan.job);
+    if (!job) {
+      throw new Error(`计划所属的任务 ${plan.job} 不在当前配置中`);
+    }
+
+    const report = await planService.apply(plan, job);
+    for (const entry of report.changed) {
+      logger.warn({ file: entry.source }, "文件在生成计划后已变化，未移动");
+    }
+    for (const entry of report.missing) {
+      logger.warn({ file: entry.source }, "文件已不存在，未移动");
+    }
+    for (const { entry, error } of report.failed) {
+      logger.error({ file: entry.source, error }, "移动失败");
+    }
+    logger.info(
+      { runId: report.runId },
+      `计划执行完成 - 已移动 ${report.moved.length} 个，跳过 ${report.changed.length + report.missing.length} 个，失败 ${report.failed.length} 个`
+    );
+    process.exit(report.failed.length > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : String(error) }, "执行移动计划失败");
+    process.exit(1);
+  }
+}
+
+/**
+ * 离线回放某次运行录制的 AI 请求，对比当前提示模板与模型下的分类结果；不指定运行时列出所有录制
+ */
+async function startReplayMode(): Promise<void> {
+  const recordingService = new AIRecordingService();
+  if (!REPLAY_RUN) {
+    const runs = recordingService.summarizeRuns();
+    if (runs.length === 0) {
+      logger.info("暂无 AI 请求录制（需在配置中开启 recording.enabled）");
+    }
+    for (const run of runs) {
+      logger.info(run, `运行 ${run.runId}${run.job ? ` [${run.job}]` : ""}: ${run.exchanges} 次请求，失败 ${run.failed} 次`);
+    }
+    process.exit(0);
+  }
+
+  try {
+    const records = recordingService.readRun(REPLAY_RUN);
+    if (records.length === 0) {
+      throw new Error(`没有运行 ${REPLAY_RUN} 的 AI 请求录制`);
+    }
+    const jobName = records[0].job ?? JOBS[0].NAME;
+    const job = JOBS.find((j) => j.NAME === jobName);
+    if (!job) {
+      throw new Error(`录制所属的任务 ${jobName} 不在当前配置中`);
+    }
+
+    logger.info("回放只重现 AI 分类请求，重复文件、规则、相似度、分类缓存与待审核判断不在回放范围内");
+    const report = await new ReplayService(job).replay(records);
+
+    const recordedModels = [...new Set(report.comparisons.map((comparison) => comparison.recordedModel))];
+    if (recordedModels.some((model) => model !== job.OPENAI_MODEL)) {
+      logger.info({ recorded: recordedModels, current: job.OPENAI_MODEL }, `模型已更换: ${recordedModels.join(", ")} -> ${job.OPENAI_MODEL}`);
+    }
+    const promptChanged = report.comparisons.filter((comparison) => comparison.systemChanged || comparison.userChanged);
+    if (promptChanged.length > 0) {
+      // 只展示第一处差异，其余请求的差异通常相同
+      logger.info({ files: promptChanged[0].fileNames }, `提示已变化（${promptChanged.length}/${report.comparisons.length} 次请求）:`);
+      for (const line of promptChanged[0].diff) {
+        logger.info(`  ${line}`);
+      }
+    }
+
+    const describe = (outcome: ReplayOutcome | null) =>
+      outcome ? `${outcome.dir}${outcome.newName ? `（重命名为 ${outcome.newName}）` : ""}` : "无结果";
+    const changed = report.files.filter((file) => !isSameOutcome(file.recorded, file.replayed));
+    for (const file of changed) {
+      logger.info(
+        { file: file.fileName, recorded: file.recorded, replayed: file.replayed },
+        `${file.fileName}: ${describe(file.recorded)} -> ${describe(file.replayed)}`
+      );
+    }
+    logger.info(
+      { runId: report.runId, job: report.job, unmatched: report.unmatched || undefined },
+      `回放完成 - ${report.exchanges} 次录制请求，${report.files.length} 个文件，结果变化 ${changed.length} 个`
+    );
     process.exit(0);
   } catch (error) {
-    logger.error({ error: error instanceof Error ? error.message : String(error) }, "单次运行失败");
+    logger.error({ error: error instanceof Error ? error.message : String(error) }, "回放失败");
     process.exit(1);
   }
 }
@@ -101,43 +434,73 @@ async function startOnceMode(mainService: MainService): Promise<void> {
  * 应用程序入口点
  */
 async function main(): Promise<void> {
-  // 检查 API Key
-  if (!OPENAI_API_KEY) {
+  if (LIST_RUNS) {
+    startListRunsMode();
+    return;
+  }
+  if (UNDO_RUN || UNDO_FILE) {
+    await startUndoMode();
+    return;
+  }
+  if (CACHE_LIST || CACHE_CLEAR) {
+    startCacheMode();
+    return;
+  }
+  if (USAGE_REPORT) {
+    startUsageMode();
+    return;
+  }
+  if (PENDING_LIST || APPROVE) {
+    await startPendingMode();
+    return;
+  }
+  if (APPLY_PLAN) {
+    await startApplyMode(APPLY_PLAN);
+    return;
+  }
+  if (REPLAY) {
+    await startReplayMode();
+    return;
+  }
+
+  // 检查 API Key（模拟提供方不需要）
+  if (!OPENAI_API_KEY && config.AI_PROVIDER !== "mock") {
     logger.warn("OPENAI_API_KEY 未设置，AI 分类将无法工作");
   }
 
-  // 创建主服务实例
-  const mainService = new MainService();
+  // 为每个任务创建主服务实例
+  const mainServices = JOBS.map((job) => new MainService(job));
+  logger.info({ jobs: JOBS.map((job) => job.NAME) }, `已加载 ${JOBS.length} 个整理任务`);
 
   try {
-    if (RUN_ONCE) {
-      await startOnceMode(mainService);
+    if (REVIEW_MODE) {
+      await startReviewMode(mainServices);
+    } else if (RUN_ONCE) {
+      await startOnceMode(mainServices);
+    } else if (WATCH_MODE) {
+      await startWatchMode(mainServices);
     } else {
-      await startScheduledMode(mainService);
+      await startScheduledMode(mainServices);
     }
   } catch (error) {
     logger.error(
       {
         error: error instanceof Error ? error.message : String(error),
-        mode: RUN_ONCE ? "once" : "scheduled",
-        cronSchedule: CRON_SCHEDULE,
+        mode: REVIEW_MODE ? "review" : RUN_ONCE ? "once" : WATCH_MODE ? "watch" : "scheduled",
+        cronSchedules: Object.fromEntries(JOBS.map((job) => [job.NAME, job.CRON_SCHEDULE])),
         timezone: process.env.TZ,
       },
       "应用启动失败"
     );
 
     // 定时任务启动失败时的降级处理
-    if (!RUN_ONCE) {
+    if (!RUN_ONCE && !WATCH_MODE && !REVIEW_MODE) {
       logger.info("定时任务启动失败，尝试执行一次后退出");
-      try {
-        await mainService.runOnce();
+      const failed = await runAllOnce(mainServices);
+      if (failed === 0) {
         process.exit(0);
-      } catch (runError) {
-        logger.error(
-          { error: runError instanceof Error ? runError.message : String(runError) },
-          "降级单次执行也失败"
-        );
       }
+      logger.error(`降级单次执行也失败：${failed} 个任务出错`);
     }
 
     process.exit(1);
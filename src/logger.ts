@@ -11,6 +11,9 @@ export enum LoggerType {
   FILE_MOVE = "file-move", // 文件移动日志 (file-move.service.ts)
   FILE_SCAN = "file-scan", // 文件扫描日志 (file-scan.service.ts)
   FILE_INFO = "file-info", // 文件解析日志 (file-info.service.ts)
+  RULE = "rule",          // 规则引擎日志 (rule-engine.service.ts)
+  WATCH = "watch",        // 目录监听日志 (watch.service.ts)
+  DUPLICATE = "duplicate", // 重复文件日志 (duplicate.service.ts)
 }
 
 // 日志文件路径配置 - 固定文件名
@@ -21,6 +24,9 @@ const LOG_PATHS = {
   [LoggerType.FILE_MOVE]: path.join(config.LOG_DIR, "file-move.log"),
   [LoggerType.FILE_SCAN]: path.join(config.LOG_DIR, "file-scan.log"),
   [LoggerType.FILE_INFO]: path.join(config.LOG_DIR, "file-info.log"),
+  [LoggerType.RULE]: path.join(config.LOG_DIR, "rule.log"),
+  [LoggerType.WATCH]: path.join(config.LOG_DIR, "watch.log"),
+  [LoggerType.DUPLICATE]: path.join(config.LOG_DIR, "duplicate.log"),
 };
 
 // 存储所有日志器实例和文件句柄
@@ -86,10 +92,22 @@ export const aiLogger = getLogger(LoggerType.AI);
 export const fileMoveLogger = getLogger(LoggerType.FILE_MOVE);
 export const fileScanLogger = getLogger(LoggerType.FILE_SCAN);
 export const fileInfoLogger = getLogger(LoggerType.FILE_INFO);
+export const ruleLogger = getLogger(LoggerType.RULE);
+export const watchLogger = getLogger(LoggerType.WATCH);
+export const duplicateLogger = getLogger(LoggerType.DUPLICATE);
 
 // 保持向后兼容性，默认使用系统日志器
 export const logger = systemLogger;
 
+/**
+ * 调整所有日志器的级别（配置热重载时使用；日志目录需重启后生效）
+ */
+export function setLogLevel(level: string) {
+  loggerInstances.forEach((logger) => {
+    logger.level = level;
+  });
+}
+
 // 导出清理函数供进程管理器调用
 export function cleanupLogFiles() {
   fileDestinations.forEach((destination) => {
@@ -0,0 +1,154 @@
+import fs from "node:fs";
+import { config, JobConfig, Taxonomy } from "../config.js";
+import { aiLogger } from "../logger.js";
+import { BuiltinPrompt, builtinPrompt } from "./templates.js";
+
+// 分类库中某个目录的文件示例
+export interface DirectoryExample {
+  dir: string;
+  files: string[];
+}
+
+// 构建提示所需的选项
+export interface PromptOptions {
+  language: string; // 命名语言：zh / en / 其他语言名称
+  taxonomy: Taxonomy;
+  systemTemplatePath?: string; // 自定义模板文件，留空使用内置模板
+  userTemplatePath?: string;
+  suggestNames?: boolean; // 同时要求 AI 给出规范的新文件名
+  namingConvention?: string; // 文件命名约定，留空使用内置约定
+}
+
+/**
+ * 渲染模板：替换 {{变量名}}（允许两侧空白），未知变量保持原样
+ *
+ * 返回渲染结果与未识别的变量名。
+ */
+export function renderTemplate(template: string, vars: Record<string, string>): { text: string; unknown: string[] } {
+  const unknown = new Set<string>();
+  const text = template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(vars, name)) return vars[name];
+    unknown.add(name);
+    return match;
+  });
+  return { text, unknown: [...unknown] };
+}
+
+/**
+ * 分类提示构建：按命名语言选择内置模板（或读取自定义模板文件），
+ * 并根据是否启用封闭分类体系填入目录列表与目录规则
+ *
+ * 模板文件在构建时读取一次，修改后随配置热重载或重启生效。
+ */
+export class PromptBuilder {
+  readonly language: string;
+  readonly taxonomy: Taxonomy;
+  readonly suggestNames: boolean;
+  private namingConvention: string;
+  private builtin: BuiltinPrompt;
+  private systemTemplate: string;
+  private userTemplate: string;
+  private logger: typeof aiLogger;
+
+  constructor(options: PromptOptions, logger: typeof aiLogger = aiLogger) {
+    this.language = options.language;
+    this.taxonomy = options.taxonomy;
+    this.logger = logger;
+    this.builtin = builtinPrompt(options.language);
+    this.suggestNames = options.suggestNames ?? false;
+    this.namingConvention = options.namingConvention || this.builtin.defaultNamingConvention(options.language);
+    this.systemTemplate = options.systemTemplatePath
+      ? fs.readFileSync(options.systemTemplatePath, "utf8")
+      : this.builtin.system;
+    this.userTemplate = options.userTemplatePath
+      ? fs.readFileSync(options.userTemplatePath, "utf8")
+      : this.builtin.user;
+
+    if (!/\{\{\s*files\s*\}\}/.test(this.userTemplate)) {
+      this.logger.warn({ template: options.userTemplatePath }, "用户提示模板中没有 {{files}}，AI 将看不到待分类文件");
+    }
+  }
+
+  /**
+   * 按任务配置创建（模板文件为全局配置，命名语言与分类体系可按任务覆盖）
+   */
+  static forJob(job: JobConfig, logger: typeof aiLogger = aiLogger.child({ job: job.NAME })): PromptBuilder {
+    return new PromptBuilder(
+      {
+        language: job.PROMPT_LANGUAGE,
+        taxonomy: job.TAXONOMY,
+        systemTemplatePath: config.PROMPT_SYSTEM_TEMPLATE || undefined,
+        userTemplatePath: config.PROMPT_USER_TEMPLATE || undefined,
+        suggestNames: config.NAMING_ENABLED,
+        namingConvention: config.NAMING_CONVENTION,
+      },
+      logger
+    );
+  }
+
+  get closed(): boolean {
+    return this.taxonomy.dirs.length > 0;
+  }
+
+  private directoryRule(): string {
+    if (!this.closed) return this.builtin.openDirectories;
+    return this.taxonomy.allowSubdirs ? this.builtin.closedWithSubdirs : this.builtin.closedDirectories;
+  }
+
+  private directories(knownDirs: string[]): string {
+    if (this.closed) {
+      return `${this.builtin.allowedDirsHeader}\n${this.taxonomy.dirs.map((dir) => `  ${dir}`).join("\n")}`;
+    }
+    return `${this.builtin.knownDirsHeader}\n${
+      knownDirs.length > 0 ? knownDirs.map((dir) => `  ${dir}`).join("\n") : this.builtin.noKnownDirs
+    }`;
+  }
+
+  private render(template: string, vars: Record<string, string>): string {
+    const { text, unknown } = renderTemplate(template, vars);
+    if (unknown.length > 0) {
+      this.logger.warn({ unknown }, "提示模板中有未知变量，已原样保留");
+    }
+    return text;
+  }
+
+  private baseVars(): Record<string, string> {
+    return {
+      language: this.language,
+      naming_rule: this.builtin.namingRule(this.language),
+      directory_rule: this.directoryRule(),
+      rename_rule: this.suggestNames ? this.builtin.renameRule(this.namingConvention) : "",
+    };
+  }
+
+  private examples(examples: DirectoryExample[]): string {
+    if (examples.length === 0) return "";
+    return `${this.builtin.examplesHeader}\n${examples.map(({ dir, files }) => `  ${dir}/: ${files.join(", ")}`).join("\n")}\n`;
+  }
+
+  buildSystemPrompt(): string {
+    return this.render(this.systemTemplate, { ...this.baseVars(), directories: "", examples: "", files: "", followup: "" });
+  }
+
+  /**
+   * 构建用户提示，followUp 时附加只处理遗漏文件的说明
+   */
+  buildUserPrompt(
+    files: Array<{ fileName: string; description: string }>,
+    knownDirs: string[],
+    followUp: boolean,
+    examples: DirectoryExample[] = []
+  ): string {
+    const filesList = files
+      .map((file, index) => `${index + 1}. ${file.fileName}${file.description ? ` - ${file.description}` : ""}`)
+      .join("\n");
+
+    return this.render(this.userTemplate, {
+      ...this.baseVars(),
+      directories: this.directories(knownDirs),
+      examples: this.examples(examples),
+      files: filesList,
+      followup: followUp ? this.builtin.followup : "",
+    });
+  }
+}
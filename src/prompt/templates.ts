@@ -0,0 +1,174 @@
+// 内置提示模板：变量写作 {{变量名}}，由 PromptBuilder 渲染，系统提示与用户提示可使用相同的变量
+//
+//   {{language}}        命名语言（prompt.language）
+//   {{naming_rule}}     目录命名要求
+//   {{directory_rule}}  是否允许新建目录（封闭分类体系时只能从列表中选择）
+//   {{rename_rule}}     建议文件名的要求（naming.enabled 时），未开启时为空
+//   {{directories}}     现有目录或允许的目录列表
+//   {{examples}}        分类库中各目录的文件示例，没有示例时为空
+//   {{files}}           待分类文件列表（序号. 文件名 - 描述）
+//   {{followup}}        追加请求时的说明，首次请求为空
+
+export const SYSTEM_TEMPLATE_ZH = `你是一个专业的文件批量分类专家，擅长根据文件信息智能分类。
+
+## 核心能力
+1. **语义理解**：深度理解文件名和描述的含义
+2. **模式识别**：识别文件类型和分类规律
+3. **一致性分类**：为相似文件保持一致的分类逻辑
+4. **智能决策**：提供高质量的分类决策和理由
+
+## 分类原则
+- **一致性优先**：优先使用现有目录结构
+- **语义分类**：基于文件实际用途而非仅仅文件名
+- **层级合理**：保持适当的目录层级深度
+- **命名要求**：{{naming_rule}}
+
+## 分类策略
+- 安装包按软件类型分类（开发工具、效率工具、系统工具等）
+- 文档按内容性质分类（技术文档、工作文档、个人资料等）
+- 媒体文件按格式和用途分类
+- 压缩包按内容推测进行分类
+
+## 决策流程
+1. 查看现有目录列表
+2. 判断文件类型和用途
+3. 寻找最合适的现有目录
+4. {{directory_rule}}
+5. 给出 0 到 1 之间的置信度：文件用途不明确、或需要新建目录时应降低置信度
+
+批量处理时要保持分类的一致性和逻辑性。{{rename_rule}}`;
+
+export const USER_TEMPLATE_ZH = `{{directories}}
+{{examples}}待分类文件列表:
+{{files}}{{followup}}`;
+
+export const SYSTEM_TEMPLATE_EN = `You are an expert at organizing files in batches based on their names and descriptions.
+
+## Principles
+- **Consistency first**: prefer the existing directory structure
+- **Semantic grouping**: classify by what the file is for, not just its name
+- **Reasonable depth**: keep the directory hierarchy shallow and predictable
+- **Naming**: {{naming_rule}}
+
+## Strategy
+- Installers by software type (developer tools, productivity, system utilities, ...)
+- Documents by their nature (technical, work, personal, ...)
+- Media by format and purpose
+- Archives by their likely contents
+
+## Process
+1. Review the directory list
+2. Work out the type and purpose of each file
+3. Pick the most suitable directory
+4. {{directory_rule}}
+5. Give a confidence between 0 and 1; lower it when the purpose is unclear or a new directory is needed
+
+Keep decisions consistent across the whole batch.{{rename_rule}}`;
+
+export const USER_TEMPLATE_EN = `{{directories}}
+{{examples}}Files to classify:
+{{files}}{{followup}}`;
+
+// 函数调用（openai-tools 提供方）中函数与各参数的描述
+export interface ToolDescriptions {
+  function: string;
+  fileName: string;
+  directoryPath: string;
+  reasoning: string;
+  confidence: string;
+  suggestedName: string;
+}
+
+// 某种语言的内置模板与变量文本
+export interface BuiltinPrompt {
+  system: string;
+  user: string;
+  namingRule: (language: string) => string;
+  defaultNamingConvention: (language: string) => string;
+  renameRule: (convention: string) => string;
+  openDirectories: string;
+  closedDirectories: string;
+  closedWithSubdirs: string;
+  knownDirsHeader: string;
+  noKnownDirs: string;
+  allowedDirsHeader: string;
+  examplesHeader: string;
+  followup: string;
+  jsonOutput: string; // openai-json 提供方追加到系统提示末尾的输出格式要求
+  jsonSuggestedName: string; // 要求建议文件名时追加的字段说明
+  tool: ToolDescriptions;
+}
+
+// 各语言的内置文本；未内置的语言使用英文模板
+export const BUILTIN_PROMPTS: Record<string, BuiltinPrompt> = {
+  zh: {
+    system: SYSTEM_TEMPLATE_ZH,
+    user: USER_TEMPLATE_ZH,
+    namingRule: () => "使用简洁直观的中文目录名",
+    defaultNamingConvention: () => "YYYY-MM-DD_简短的中文描述，日期取自文件名或内容，无法确定日期时省略日期前缀",
+    renameRule: (convention) =>
+      `\n\n## 文件名建议\n为每个文件在 suggested_name 中给出规范的新文件名。命名约定：${convention}。保留原扩展名；原文件名已符合约定或无法判断内容时返回原文件名。`,
+    openDirectories: "如没有合适的现有目录则创建新目录",
+    closedDirectories: "只能从允许的目录列表中选择，不得创建新目录或修改目录名",
+    closedWithSubdirs: "只能使用允许的目录列表中的目录或其子目录，不得创建列表以外的顶层目录",
+    knownDirsHeader: "现有目录结构:",
+    noKnownDirs: "暂无，需要创建新目录",
+    allowedDirsHeader: "允许的目录（只能从中选择）:",
+    examplesHeader: "已有文件示例（参考其中的命名与归类习惯）:",
+    followup: "\n\n以上文件在上次回复中被遗漏或结果无效，请逐个分类，file_name 必须与列表中的文件名完全一致。",
+    jsonOutput: `
+
+## 输出格式
+只输出一个 JSON 对象，不要输出任何其他文字，格式如下：
+{"classifications": [{"file_name": "文件名", "directory_path": "分类目录路径", "reasoning": "分类理由", "confidence": 0.9}]}
+每个待分类文件对应一项，file_name 必须与输入的文件名完全一致，confidence 为 0 到 1 之间的把握程度。`,
+    jsonSuggestedName: "\n每一项还需包含 suggested_name 字段：按命名约定建议的新文件名，保留原扩展名。",
+    tool: {
+      function: "批量分类多个文件",
+      fileName: "文件名",
+      directoryPath: "分类目录路径",
+      reasoning: "分类理由",
+      confidence: "对该分类的把握程度，0 到 1 之间",
+      suggestedName: "按命名约定建议的新文件名，保留原扩展名",
+    },
+  },
+  en: {
+    system: SYSTEM_TEMPLATE_EN,
+    user: USER_TEMPLATE_EN,
+    namingRule: (language) => `use short, clear directory names in ${language === "en" ? "English" : language}`,
+    defaultNamingConvention: (language) =>
+      `YYYY-MM-DD_short-description in ${language === "en" ? "English" : language}, taking the date from the name or contents and omitting the prefix when no date is known`,
+    renameRule: (convention) =>
+      `\n\n## File names\nAlso suggest a clean file name for each file in suggested_name. Convention: ${convention}. Keep the original extension; return the original name if it already follows the convention or the contents are unclear.`,
+    openDirectories: "If no existing directory fits, create a new one",
+    closedDirectories: "Only choose from the allowed directory list; never create or rename directories",
+    closedWithSubdirs: "Only use directories from the allowed list or subdirectories of them; never create other top-level directories",
+    knownDirsHeader: "Existing directories:",
+    noKnownDirs: "None yet; create new directories as needed",
+    allowedDirsHeader: "Allowed directories (choose only from these):",
+    examplesHeader: "Examples of files already in the library (follow their conventions):",
+    followup: "\n\nThese files were missing or invalid in your previous reply. Classify each of them, and copy file_name exactly as listed.",
+    jsonOutput: `
+
+## Output format
+Output a single JSON object and nothing else, in this format:
+{"classifications": [{"file_name": "file name", "directory_path": "target directory", "reasoning": "reason", "confidence": 0.9}]}
+Include one item per file. file_name must match the input file name exactly; confidence is how sure you are, between 0 and 1.`,
+    jsonSuggestedName: "\nEach item must also include suggested_name: the new file name following the naming convention, keeping the original extension.",
+    tool: {
+      function: "Classify a batch of files",
+      fileName: "File name",
+      directoryPath: "Target directory path",
+      reasoning: "Reason for the classification",
+      confidence: "How sure you are about the classification, between 0 and 1",
+      suggestedName: "New file name following the naming convention, keeping the original extension",
+    },
+  },
+};
+
+/**
+ * 按命名语言取内置文本，未内置的语言使用英文
+ */
+export function builtinPrompt(language: string): BuiltinPrompt {
+  return BUILTIN_PROMPTS[language] ?? BUILTIN_PROMPTS.en;
+}
@@ -0,0 +1,99 @@
+import OpenAI from "openai";
+import { ProviderUsage } from "./types.js";
+import { RequestScheduler } from "./request-scheduler.js";
+import { estimateTextTokens } from "./tokens.js";
+
+// 向量化提供方：把文本转换为向量，用于语义相似度匹配
+export interface EmbeddingResponse {
+  vectors: number[][]; // 与输入文本一一对应
+  usage?: ProviderUsage;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<EmbeddingResponse>;
+}
+
+/**
+ * OpenAI 兼容的 /embeddings 接口，也可指向 Ollama、LM Studio 等本地服务
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(client: OpenAI, model: string) {
+    this.client = client;
+    this.model = model;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResponse> {
+    const res = await this.client.embeddings.create({ model: this.model, input: texts });
+    // 接口按 index 返回，不保证顺序
+    const vectors = [...res.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    if (vectors.length !== texts.length) {
+      throw new Error(`向量数量与输入不一致: 期望 ${texts.length}，实际 ${vectors.length}`);
+    }
+    return {
+      vectors,
+      usage: res.usage ? { promptTokens: res.usage.prompt_tokens, completionTokens: 0 } : undefined,
+    };
+  }
+}
+
+/**
+ * 经过请求调度的向量化提供方：与 AI 分类共用重试、Retry-After、限速与熔断
+ */
+export class ScheduledEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  private provider: EmbeddingProvider;
+  private scheduler: RequestScheduler;
+
+  constructor(provider: EmbeddingProvider, scheduler: RequestScheduler) {
+    this.name = provider.name;
+    this.model = provider.model;
+    this.provider = provider;
+    this.scheduler = scheduler;
+  }
+
+  embed(texts: string[]): Promise<EmbeddingResponse> {
+    return this.scheduler.schedule(
+      estimateTextTokens(texts.join("\n")),
+      () => this.provider.embed(texts),
+      (response) => response.usage?.promptTokens
+    );
+  }
+}
+
+/**
+ * 确定性的模拟提供方：把相邻字符对散列到固定维度，不发出网络请求，用于测试与演示
+ *
+ * 只反映字面重合，没有语义能力。
+ */
+export class MockEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "mock";
+  readonly model = "mock";
+  private dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResponse> {
+    const vectors = texts.map((text) => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      const chars = [...text.toLowerCase()];
+      for (let i = 0; i + 1 < chars.length; i++) {
+        let hash = 2166136261;
+        for (const ch of chars[i] + chars[i + 1]) {
+          hash = Math.imul(hash ^ ch.codePointAt(0)!, 16777619);
+        }
+        vector[(hash >>> 0) % this.dimensions] += 1;
+      }
+      return vector;
+    });
+    return { vectors, usage: { promptTokens: 0, completionTokens: 0 } };
+  }
+}
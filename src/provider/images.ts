@@ -0,0 +1,27 @@
+import OpenAI from "openai";
+import { ClassificationRequest } from "./types.js";
+
+/**
+ * 用户消息内容：没有图片时为纯文本，有图片时在文本后依次附上"文件名 + 缩略图"
+ */
+export function buildUserContent(
+  request: ClassificationRequest
+): string | OpenAI.Chat.Completions.ChatCompletionContentPart[] {
+  if (!request.images?.length) return request.userPrompt;
+  return [
+    { type: "text", text: request.userPrompt },
+    ...request.images.flatMap((image): OpenAI.Chat.Completions.ChatCompletionContentPart[] => [
+      { type: "text", text: `${image.fileName} 的缩略图:` },
+      { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}`, detail: "low" } },
+    ]),
+  ];
+}
+
+/**
+ * 是否为模型不支持图片输入的错误（去掉图片后以纯文本重试）
+ */
+export function isVisionUnsupportedError(error: unknown): boolean {
+  const err = error as { status?: unknown; message?: unknown };
+  if (typeof err?.status === "number" && ![400, 404, 415, 422].includes(err.status)) return false;
+  return typeof err?.message === "string" && /image|vision|multimodal|multi-modal/i.test(err.message);
+}
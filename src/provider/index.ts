@@ -0,0 +1,99 @@
+import { AIProviderName, config, EmbeddingProviderName } from "../config.js";
+import { LLMProvider } from "./types.js";
+import { createOpenAIClient } from "./openai-client.js";
+import { OpenAIToolsProvider } from "./openai-tools.provider.js";
+import { OpenAIJsonProvider } from "./openai-json.provider.js";
+import { MockProvider } from "./mock.provider.js";
+import { RequestScheduler, RequestSchedulerOptions } from "./request-scheduler.js";
+import {
+  EmbeddingProvider,
+  MockEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  ScheduledEmbeddingProvider,
+} from "./embedding.provider.js";
+
+export * from "./types.js";
+export * from "./request-scheduler.js";
+export * from "./tokens.js";
+export { isVisionUnsupportedError } from "./images.js";
+export { ResponseParseError } from "./parse.js";
+export { OpenAIToolsProvider, OpenAIJsonProvider, MockProvider };
+export type { EmbeddingProvider, EmbeddingResponse } from "./embedding.provider.js";
+export { OpenAIEmbeddingProvider, MockEmbeddingProvider, ScheduledEmbeddingProvider };
+
+/**
+ * 按配置创建提供方（不含调度）
+ */
+export function createBaseProvider(name: AIProviderName = config.AI_PROVIDER): LLMProvider {
+  switch (name) {
+    case "openai-tools":
+      return new OpenAIToolsProvider(createOpenAIClient(config.OPENAI_API_KEY, config.OPENAI_BASE_URL));
+    case "openai-json":
+      return new OpenAIJsonProvider(
+        createOpenAIClient(config.OPENAI_API_KEY, config.OPENAI_BASE_URL),
+        config.AI_JSON_RESPONSE_FORMAT
+      );
+    case "mock":
+      return new MockProvider(config.AI_MOCK_RESPONSES || {});
+  }
+}
+
+// 所有任务与向量化请求共用同一个调度器，速率限制与熔断针对同一个接口生效；相关配置变化后重新创建
+let shared: { key: string; provider: RequestScheduler } | null = null;
+
+/**
+ * 创建带重试、限速与熔断的提供方
+ */
+export function createProvider(name: AIProviderName = config.AI_PROVIDER): LLMProvider {
+  return getSharedScheduler(name);
+}
+
+function getSharedScheduler(name: AIProviderName): RequestScheduler {
+  const options: RequestSchedulerOptions = {
+    concurrency: config.AI_CONCURRENCY,
+    maxRetries: config.AI_MAX_RETRIES,
+    retryBaseMs: config.AI_RETRY_BASE_MS,
+    retryMaxMs: config.AI_RETRY_MAX_MS,
+    requestsPerMinute: config.AI_REQUESTS_PER_MINUTE,
+    tokensPerMinute: config.AI_TOKENS_PER_MINUTE,
+    breakerThreshold: config.AI_BREAKER_THRESHOLD,
+    breakerCooldownMs: config.AI_BREAKER_COOLDOWN_SECONDS * 1000,
+  };
+  const key = JSON.stringify([
+    name,
+    config.OPENAI_API_KEY,
+    config.OPENAI_BASE_URL,
+    config.AI_JSON_RESPONSE_FORMAT,
+    config.AI_MOCK_RESPONSES,
+    options,
+  ]);
+  if (shared?.key !== key) {
+    shared = { key, provider: new RequestScheduler(createBaseProvider(name), options) };
+  }
+  return shared.provider;
+}
+
+/**
+ * 按配置创建向量化提供方（不含调度）；未单独配置接口地址与密钥时沿用 openai 配置
+ */
+export function createBaseEmbeddingProvider(name: EmbeddingProviderName = config.EMBEDDINGS_PROVIDER): EmbeddingProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIEmbeddingProvider(
+        createOpenAIClient(
+          config.EMBEDDINGS_API_KEY || config.OPENAI_API_KEY,
+          config.EMBEDDINGS_BASE_URL || config.OPENAI_BASE_URL
+        ),
+        config.EMBEDDINGS_MODEL
+      );
+    case "mock":
+      return new MockEmbeddingProvider();
+  }
+}
+
+/**
+ * 创建向量化提供方，请求经过 AI 分类共用的调度器（重试、限速与熔断）
+ */
+export function createEmbeddingProvider(name: EmbeddingProviderName = config.EMBEDDINGS_PROVIDER): EmbeddingProvider {
+  return new ScheduledEmbeddingProvider(createBaseEmbeddingProvider(name), getSharedScheduler(config.AI_PROVIDER));
+}
@@ -0,0 +1,49 @@
+import fs from "node:fs";
+import path from "node:path";
+import { ClassificationRequest, ClassificationResponse, LLMProvider } from "./types.js";
+
+// 预设响应文件：文件名 → 分类目录与理由
+type RecordedResponses = Record<
+  string,
+  { directory_path: string; reasoning?: string; confidence?: number; suggested_name?: string }
+>;
+
+/**
+ * 确定性的模拟提供方，不发出任何网络请求，用于测试与演示
+ *
+ * 文件名在预设响应文件中时返回预设结果，否则按扩展名归入"其他/<扩展名>"。
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  private responses: RecordedResponses;
+
+  constructor(responses: RecordedResponses | string = {}) {
+    if (typeof responses === "string") {
+      try {
+        this.responses = JSON.parse(fs.readFileSync(responses, "utf8"));
+      } catch (err) {
+        throw new Error(`无法读取模拟响应文件 ${responses}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } else {
+      this.responses = responses;
+    }
+  }
+
+  async classifyBatch(request: ClassificationRequest): Promise<ClassificationResponse> {
+    const items = request.fileNames.map((fileName) => {
+      const recorded = this.responses[fileName];
+      if (recorded) {
+        return {
+          fileName,
+          path: recorded.directory_path,
+          reasoning: recorded.reasoning,
+          confidence: recorded.confidence ?? 1,
+          suggestedName: request.suggestNames ? recorded.suggested_name : undefined,
+        };
+      }
+      const ext = path.extname(fileName).slice(1).toLowerCase() || "无扩展名";
+      return { fileName, path: `其他/${ext}`, reasoning: "模拟分类：按扩展名归类", confidence: 1 };
+    });
+    return { items, usage: { promptTokens: 0, completionTokens: 0 } };
+  }
+}
@@ -0,0 +1,26 @@
+import OpenAI from "openai";
+import { ProviderUsage } from "./types.js";
+
+/**
+ * 创建 OpenAI 兼容接口的客户端
+ */
+export function createOpenAIClient(apiKey: string, baseURL?: string): OpenAI {
+  return new OpenAI({
+    apiKey,
+    baseURL: baseURL || undefined,
+    maxRetries: 0, // 重试由 RequestScheduler 负责
+    defaultHeaders: {
+      "APP-Code": "TRGU7082",
+    },
+  });
+}
+
+export function toUsage(usage: OpenAI.Completions.CompletionUsage | undefined): ProviderUsage | undefined {
+  if (!usage) return undefined;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+}
+
+// 记录响应的关键元信息，避免日志过大
+export function responseMeta(res: OpenAI.Chat.Completions.ChatCompletion): Record<string, unknown> {
+  return { id: res.id, model: res.model, usage: res.usage };
+}
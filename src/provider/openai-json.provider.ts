@@ -0,0 +1,64 @@
+import OpenAI from "openai";
+import { ClassificationRequest, ClassificationResponse, LLMProvider } from "./types.js";
+import { extractJson, parseClassifications, ResponseParseError } from "./parse.js";
+import { responseMeta, toUsage } from "./openai-client.js";
+import { buildUserContent } from "./images.js";
+import { builtinPrompt } from "../prompt/templates.js";
+
+/**
+ * 纯文本 JSON 输出：不依赖 function calling，适用于 llama.cpp、旧版 Ollama 等兼容接口
+ */
+export class OpenAIJsonProvider implements LLMProvider {
+  readonly name = "openai-json";
+  private openai: OpenAI;
+  private responseFormat: boolean;
+
+  /**
+   * responseFormat 为 true 时附带 response_format: json_object（服务端支持时更稳定）
+   */
+  constructor(openai: OpenAI, responseFormat = false) {
+    this.openai = openai;
+    this.responseFormat = responseFormat;
+  }
+
+  async classifyBatch(request: ClassificationRequest): Promise<ClassificationResponse> {
+    const builtin = builtinPrompt(request.language ?? "zh");
+    const res = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: [
+        {
+          role: "system",
+          content: request.systemPrompt + builtin.jsonOutput + (request.suggestNames ? builtin.jsonSuggestedName : ""),
+        },
+        { role: "user", content: buildUserContent(request) },
+      ],
+      ...(this.responseFormat ? { response_format: { type: "json_object" as const } } : {}),
+      temperature: 0.1,
+    });
+
+    const usage = toUsage(res.usage);
+    try {
+      const content = res.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new ResponseParseError("AI批量分类失败：响应内容为空");
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = extractJson(content);
+      } catch (parseError) {
+        throw new ResponseParseError(`批量分类解析失败: ${parseError instanceof Error ? parseError.message : parseError}`);
+      }
+
+      return {
+        items: parseClassifications(parsed),
+        usage,
+        meta: { ...responseMeta(res), content },
+      };
+    } catch (error) {
+      // 响应无法解析时 token 同样已计费，带上用量以便计入预算
+      if (error instanceof ResponseParseError) error.usage ??= usage;
+      throw error;
+    }
+  }
+}
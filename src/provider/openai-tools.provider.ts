@@ -0,0 +1,105 @@
+import OpenAI from "openai";
+import { ClassificationRequest, ClassificationResponse, LLMProvider } from "./types.js";
+import { parseClassifications, ResponseParseError } from "./parse.js";
+import { responseMeta, toUsage } from "./openai-client.js";
+import { buildUserContent } from "./images.js";
+import { ToolDescriptions, builtinPrompt } from "../prompt/templates.js";
+
+const TOOL_NAME = "classify_files_batch";
+
+// 分类结果的函数参数结构，suggestNames 时增加建议文件名；描述使用命名语言
+function classifyTool(suggestNames: boolean, descriptions: ToolDescriptions): OpenAI.Chat.Completions.ChatCompletionTool {
+  const required = ["file_name", "directory_path", "reasoning", "confidence"];
+  return {
+    type: "function",
+    function: {
+      name: TOOL_NAME,
+      description: descriptions.function,
+      parameters: {
+        type: "object",
+        properties: {
+          classifications: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                file_name: {
+                  type: "string",
+                  description: descriptions.fileName,
+                },
+                directory_path: {
+                  type: "string",
+                  description: descriptions.directoryPath,
+                },
+                reasoning: {
+                  type: "string",
+                  description: descriptions.reasoning,
+                },
+                confidence: {
+                  type: "number",
+                  description: descriptions.confidence,
+                },
+                ...(suggestNames
+                  ? { suggested_name: { type: "string", description: descriptions.suggestedName } }
+                  : {}),
+              },
+              required: suggestNames ? [...required, "suggested_name"] : required,
+            },
+          },
+        },
+        required: ["classifications"],
+      },
+    },
+  };
+}
+
+/**
+ * OpenAI 函数调用（tools + tool_choice），需要服务端支持 function calling
+ */
+export class OpenAIToolsProvider implements LLMProvider {
+  readonly name = "openai-tools";
+  private openai: OpenAI;
+
+  constructor(openai: OpenAI) {
+    this.openai = openai;
+  }
+
+  async classifyBatch(request: ClassificationRequest): Promise<ClassificationResponse> {
+    const res = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: buildUserContent(request) },
+      ],
+      tools: [classifyTool(request.suggestNames ?? false, builtinPrompt(request.language ?? "zh").tool)],
+      tool_choice: { type: "function", function: { name: TOOL_NAME } },
+      temperature: 0.1,
+    });
+
+    const usage = toUsage(res.usage);
+    try {
+      const message = res.choices?.[0]?.message;
+      const toolCall = message?.tool_calls?.[0];
+      if (!toolCall || toolCall.type !== "function" || toolCall.function.name !== TOOL_NAME) {
+        throw new ResponseParseError("AI批量分类失败：未返回有效的工具调用");
+      }
+
+      let args: unknown;
+      try {
+        args = JSON.parse(toolCall.function.arguments);
+      } catch (parseError) {
+        throw new ResponseParseError(`批量分类解析失败: ${parseError}`);
+      }
+
+      return {
+        items: parseClassifications(args),
+        usage,
+        meta: { ...responseMeta(res), arguments: toolCall.function.arguments },
+      };
+    } catch (error) {
+      // 响应无法解析时 token 同样已计费，带上用量以便计入预算
+      if (error instanceof ResponseParseError) error.usage ??= usage;
+      throw error;
+    }
+  }
+}
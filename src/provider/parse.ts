@@ -0,0 +1,68 @@
+import { ClassificationItem, ProviderUsage } from "./types.js";
+
+// 模型输出无法解析为分类结果（格式错误、缺少字段等），拆分批次后重试可能成功
+//
+// usage 为该次响应的 token 用量：响应无法解析时同样已计费，需要计入预算。
+export class ResponseParseError extends Error {
+  usage?: ProviderUsage;
+
+  constructor(message: string, usage?: ProviderUsage) {
+    super(message);
+    this.name = "ResponseParseError";
+    this.usage = usage;
+  }
+}
+
+/**
+ * 解析置信度：接受 0~1 的小数或 0~100 的百分数，其他值视为未返回
+ */
+export function parseConfidence(value: unknown): number | undefined {
+  const numeric = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof numeric !== "number" || Number.isNaN(numeric) || numeric < 0 || numeric > 100) {
+    return undefined;
+  }
+  return numeric > 1 ? numeric / 100 : numeric;
+}
+
+/**
+ * 校验并转换分类结果：{ classifications: [{ file_name, directory_path, reasoning, confidence, suggested_name? }] }
+ *
+ * 结构不符时抛出 ResponseParseError，由调用方决定是否重试。
+ */
+export function parseClassifications(value: unknown): ClassificationItem[] {
+  const list = (value as any)?.classifications;
+  if (!Array.isArray(list)) {
+    throw new ResponseParseError("响应缺少 classifications 数组");
+  }
+
+  return list.map((item: any, index: number) => {
+    if (typeof item?.file_name !== "string" || typeof item?.directory_path !== "string") {
+      throw new ResponseParseError(`classifications[${index}] 缺少 file_name 或 directory_path`);
+    }
+    return {
+      fileName: item.file_name,
+      path: item.directory_path,
+      reasoning: typeof item.reasoning === "string" ? item.reasoning : undefined,
+      confidence: parseConfidence(item.confidence),
+      suggestedName: typeof item.suggested_name === "string" && item.suggested_name.trim() ? item.suggested_name.trim() : undefined,
+    };
+  });
+}
+
+/**
+ * 从模型输出的文本中提取 JSON：兼容 ```json 代码块以及前后附带说明文字的情况
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new ResponseParseError("响应中没有 JSON 对象");
+  }
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch (err) {
+    throw new ResponseParseError(`JSON 解析失败: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
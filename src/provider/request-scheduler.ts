@@ -0,0 +1,234 @@
+import { aiLogger } from "../logger.js";
+import { ClassificationRequest, ClassificationResponse, LLMProvider } from "./types.js";
+import { estimateTextTokens, IMAGE_TOKENS, OUTPUT_TOKENS_PER_FILE } from "./tokens.js";
+
+// 调度选项（0 表示不限制）
+export interface RequestSchedulerOptions {
+  concurrency: number; // 同时进行的请求数
+  maxRetries: number;
+  retryBaseMs: number; // 指数退避的基数
+  retryMaxMs: number; // 单次等待上限（包括 Retry-After）
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  breakerThreshold: number; // 连续失败多少次后熔断
+  breakerCooldownMs: number; // 熔断持续时间
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+// 熔断期间的请求直接失败，调用方据此跳过本次运行剩余的 AI 分类
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: number) {
+    super(`AI 服务连续失败，已暂停请求至 ${new Date(retryAt).toISOString()}`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 429]);
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE"]);
+
+/**
+ * 是否为服务端或网络的临时错误（可重试，并计入熔断）
+ *
+ * 400、401 等请求本身的问题以及响应解析失败不重试。
+ */
+export function isRetryableError(error: unknown): boolean {
+  const err = error as { status?: unknown; code?: unknown; name?: unknown; cause?: unknown };
+  if (typeof err?.status === "number") {
+    return RETRYABLE_STATUS.has(err.status) || err.status >= 500;
+  }
+  if (typeof err?.name === "string" && /Connection|Timeout/.test(err.name)) return true;
+  if (typeof err?.code === "string" && NETWORK_ERROR_CODES.has(err.code)) return true;
+  return err?.cause !== undefined && err.cause !== error && isRetryableError(err.cause);
+}
+
+/**
+ * 读取 Retry-After / retry-after-ms 响应头，返回应等待的毫秒数
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | null {
+  const headers = (error as { headers?: unknown })?.headers;
+  if (!headers) return null;
+  const get = (name: string): string | null => {
+    if (typeof (headers as Headers).get === "function") return (headers as Headers).get(name);
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === "string" ? value : null;
+  };
+
+  const ms = Number(get("retry-after-ms"));
+  if (ms > 0) return ms;
+
+  const retryAfter = get("retry-after");
+  if (!retryAfter) return null;
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * 请求前估算 token 数（提示加预计输出），收到响应后以实际用量修正
+ */
+export function estimateTokens(request: ClassificationRequest): number {
+  return (
+    estimateTextTokens(request.systemPrompt) +
+    estimateTextTokens(request.userPrompt) +
+    (request.images?.length ?? 0) * IMAGE_TOKENS +
+    request.fileNames.length * OUTPUT_TOKENS_PER_FILE
+  );
+}
+
+/**
+ * AI 请求调度：包装提供方，负责并发控制、每分钟请求数/token 数限制、
+ * 临时错误的指数退避重试（优先使用 Retry-After），以及连续失败后的熔断
+ *
+ * 向量化等其他请求通过 schedule() 共用同一套限制。
+ */
+export class RequestScheduler implements LLMProvider {
+  readonly name: string;
+  private provider: LLMProvider;
+  private options: RequestSchedulerOptions;
+  private sleep: (ms: number) => Promise<void>;
+  private now: () => number;
+  private active = 0;
+  private queue: Array<() => void> = []; // 等待并发名额的请求
+  private window: Array<{ at: number; tokens: number }> = []; // 最近一分钟内的请求
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private logger: typeof aiLogger;
+
+  constructor(provider: LLMProvider, options: RequestSchedulerOptions, logger: typeof aiLogger = aiLogger) {
+    this.name = provider.name;
+    this.provider = provider;
+    this.options = options;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.now = options.now ?? Date.now;
+    this.logger = logger;
+  }
+
+  async classifyBatch(request: ClassificationRequest): Promise<ClassificationResponse> {
+    return this.schedule(
+      estimateTokens(request),
+      () => this.provider.classifyBatch(request),
+      (response) => response.usage && response.usage.promptTokens + response.usage.completionTokens
+    );
+  }
+
+  /**
+   * 按调度规则发送任意请求；actualTokens 返回响应中的实际用量，用于修正速率统计
+   */
+  async schedule<T>(
+    estimatedTokens: number,
+    send: () => Promise<T>,
+    actualTokens: (response: T) => number | undefined = () => undefined
+  ): Promise<T> {
+    await this.acquireSlot();
+    try {
+      return await this.requestWithRetry(estimatedTokens, send, actualTokens);
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.options.concurrency <= 0 || this.active < this.options.concurrency) {
+      this.active++;
+      return;
+    }
+    // 名额由 releaseSlot 直接转交，active 不变
+    await new Promise<void>((resolve) => this.queue.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.queue.shift();
+    if (next) next();
+    else this.active--;
+  }
+
+  private checkCircuit(): void {
+    if (this.openUntil > this.now()) {
+      throw new CircuitOpenError(this.openUntil);
+    }
+  }
+
+  private async requestWithRetry<T>(
+    estimatedTokens: number,
+    send: () => Promise<T>,
+    actualTokens: (response: T) => number | undefined
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      this.checkCircuit();
+      const slot = await this.reserveRate(estimatedTokens);
+
+      try {
+        const response = await send();
+        const tokens = actualTokens(response);
+        if (tokens !== undefined) {
+          slot.tokens = tokens;
+        }
+        this.consecutiveFailures = 0;
+        this.openUntil = 0;
+        return response;
+      } catch (error) {
+        if (!isRetryableError(error)) throw error;
+
+        this.recordFailure();
+        if (attempt >= this.options.maxRetries) throw error;
+        this.checkCircuit();
+
+        const backoff = Math.min(this.options.retryBaseMs * 2 ** attempt, this.options.retryMaxMs);
+        const retryAfter = getRetryAfterMs(error, this.now());
+        // 没有 Retry-After 时加入随机抖动，避免并发请求同时重试
+        const delay = retryAfter !== null
+          ? Math.min(retryAfter, this.options.retryMaxMs)
+          : Math.round(backoff * (0.5 + Math.random() / 2));
+        this.logger.warn(
+          {
+            attempt: attempt + 1,
+            maxRetries: this.options.maxRetries,
+            delayMs: delay,
+            status: (error as { status?: number }).status,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          `AI 请求失败，${delay} 毫秒后重试`
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    const { breakerThreshold, breakerCooldownMs } = this.options;
+    if (breakerThreshold > 0 && this.consecutiveFailures >= breakerThreshold) {
+      this.openUntil = this.now() + breakerCooldownMs;
+      this.logger.error(
+        { consecutiveFailures: this.consecutiveFailures, retryAt: new Date(this.openUntil).toISOString() },
+        "AI 服务连续失败，已熔断"
+      );
+    }
+  }
+
+  /**
+   * 等待每分钟请求数与 token 数都有余量后登记本次请求；
+   * 单个请求超过 token 上限时不再等待，避免永远无法发出
+   */
+  private async reserveRate(tokens: number): Promise<{ at: number; tokens: number }> {
+    const { requestsPerMinute, tokensPerMinute } = this.options;
+    while (true) {
+      const now = this.now();
+      this.window = this.window.filter((entry) => entry.at > now - 60_000);
+      const usedTokens = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      const requestsOk = requestsPerMinute <= 0 || this.window.length < requestsPerMinute;
+      const tokensOk = tokensPerMinute <= 0 || this.window.length === 0 || usedTokens + tokens <= tokensPerMinute;
+      if (requestsOk && tokensOk) {
+        const slot = { at: now, tokens };
+        this.window.push(slot);
+        return slot;
+      }
+
+      const waitMs = Math.max(this.window[0].at + 60_000 - now, 10);
+      this.logger.debug({ waitMs, requests: this.window.length, tokens: usedTokens }, "达到速率限制，等待");
+      await this.sleep(waitMs);
+    }
+  }
+}
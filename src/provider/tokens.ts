@@ -0,0 +1,25 @@
+// token 数粗略估算：不依赖具体模型的分词器，只用于分批与限速，宁可偏大
+
+// 每个文件的分类结果（文件名、目录、理由、置信度）预计占用的输出 token 数
+export const OUTPUT_TOKENS_PER_FILE = 80;
+
+// 每张低分辨率（detail: low）图片占用的输入 token 数
+export const IMAGE_TOKENS = 85;
+
+/**
+ * 按每 2 个字符 1 个 token 估算（中文接近 1 字 1 token，英文约 4 字符 1 token）
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 2);
+}
+
+/**
+ * 是否为模型上下文长度超限的错误（拆分批次后可能成功）
+ */
+export function isContextLengthError(error: unknown): boolean {
+  const err = error as { code?: unknown; message?: unknown };
+  return (
+    err?.code === "context_length_exceeded" ||
+    (typeof err?.message === "string" && /context length|maximum context|too many tokens/i.test(err.message))
+  );
+}
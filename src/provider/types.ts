@@ -0,0 +1,45 @@
+// AI 服务提供方接口：不同实现负责与具体接口通信，并把响应解析为统一的分类结果
+
+// 单个文件的分类结果（提供方原样返回，尚未做路径归一化）
+export interface ClassificationItem {
+  fileName: string;
+  path: string;
+  reasoning?: string;
+  confidence?: number; // 0~1，模型未返回或格式无效时为空
+  suggestedName?: string; // 建议的新文件名（仅在请求时返回）
+}
+
+// 随请求发送的图片（缩略图）
+export interface ImageAttachment {
+  fileName: string; // 对应的待分类文件
+  mimeType: string;
+  data: string; // base64
+}
+
+// 一次批量分类请求
+export interface ClassificationRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  fileNames: string[]; // 本批次的文件名，mock 提供方据此生成结果
+  suggestNames?: boolean; // 同时要求给出规范的新文件名
+  language?: string; // 命名语言（prompt.language），决定输出格式说明与工具描述的语言，默认中文
+  images?: ImageAttachment[]; // 需要模型支持图片输入
+}
+
+// token 用量（提供方未返回时为空）
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ClassificationResponse {
+  items: ClassificationItem[];
+  usage?: ProviderUsage;
+  meta?: Record<string, unknown>; // 响应 ID、实际模型等，仅用于日志
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  classifyBatch(request: ClassificationRequest): Promise<ClassificationResponse>;
+}
@@ -0,0 +1,156 @@
+import cron, { ScheduledTask } from "node-cron";
+import { systemLogger as logger, setLogLevel } from "./logger.js";
+import { AppConfig, applyConfig, config } from "./config.js";
+import { MainService } from "./service/main.service.js";
+
+/**
+ * 验证并获取 cron 表达式
+ */
+export function validateCronSchedule(schedule: string): void {
+  if (!cron.validate(schedule)) {
+    throw new Error(
+      `无效的 cron 表达式: ${schedule}\n` +
+        `node-cron 使用标准 Unix cron 格式（5个字段）：分 时 日 月 星期\n` +
+        `示例：\n` +
+        `  "*/5 * * * *" - 每5分钟\n` +
+        `  "0 * * * *"   - 每小时\n` +
+        `  "0 0 * * *"   - 每天\n` +
+        `请勿使用 Quartz 格式（6个字段，包含秒）`
+    );
+  }
+}
+
+/**
+ * 定时调度：每个任务按各自的计划表达式运行，支持在两次运行之间应用新配置
+ */
+export class Scheduler {
+  private mainServices: MainService[];
+  private tasks: ScheduledTask[] = [];
+  private activeRuns = 0;
+  private pendingConfig: AppConfig | null = null;
+
+  constructor(mainServices: MainService[]) {
+    this.mainServices = mainServices;
+  }
+
+  /**
+   * 启动全部定时任务（先验证全部 cron 表达式，避免只启动一部分任务）
+   */
+  start(): void {
+    for (const { job } of this.mainServices) {
+      validateCronSchedule(job.CRON_SCHEDULE);
+    }
+
+    this.tasks = this.mainServices.map((mainService) => {
+      const { NAME, CRON_SCHEDULE } = mainService.job;
+      logger.info({ job: NAME }, `正在启动定时任务，计划表达式: ${CRON_SCHEDULE}, 时区: ${process.env.TZ}`);
+      return cron.schedule(CRON_SCHEDULE, () => this.runJob(mainService), { timezone: process.env.TZ });
+    });
+
+    logger.info(`已启动 ${this.tasks.length} 个定时任务，等待执行...`);
+  }
+
+  stop(): void {
+    this.tasks.forEach((task) => task.stop());
+    this.tasks = [];
+  }
+
+  private async runJob(mainService: MainService): Promise<void> {
+    const { NAME } = mainService.job;
+    // 等待应用新配置期间不再开始新的运行，否则持续有任务运行时新配置永远无法生效
+    if (this.pendingConfig) {
+      logger.info({ job: NAME }, "新配置等待生效，跳过本次定时任务");
+      return;
+    }
+    this.activeRuns++;
+    try {
+      logger.info({ job: NAME }, "定时任务开始执行");
+      await mainService.runOnce();
+      logger.info({ job: NAME }, "定时任务执行完成");
+    } catch (error) {
+      logger.error(
+        { job: NAME, error: error instanceof Error ? error.message : String(error) },
+        "定时任务执行失败"
+      );
+    } finally {
+      this.activeRuns--;
+      if (this.activeRuns === 0 && this.pendingConfig) {
+        this.applyPendingConfig();
+      }
+    }
+  }
+
+  /**
+   * 请求应用新配置：空闲时立即应用，否则等待进行中的运行全部结束（多次修改只应用最后一次）
+   *
+   * 等待期间到点的定时任务会被跳过。
+   */
+  requestReload(next: AppConfig): void {
+    try {
+      for (const job of next.JOBS) {
+        validateCronSchedule(job.CRON_SCHEDULE);
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, "新配置中的 cron 表达式无效，已忽略");
+      return;
+    }
+
+    this.pendingConfig = next;
+    if (this.activeRuns > 0) {
+      logger.info(`有 ${this.activeRuns} 个任务正在运行，新配置将在运行结束后生效`);
+      return;
+    }
+    this.applyPendingConfig();
+  }
+
+  /**
+   * 替换配置并按新任务列表重建定时任务（同步完成，期间不会有运行开始）
+   *
+   * 按新配置创建任务失败（如 AI 提供方无法初始化）时恢复原配置，原有定时任务继续运行。
+   */
+  private applyPendingConfig(): void {
+    const next = this.pendingConfig;
+    if (!next) return;
+    this.pendingConfig = null;
+
+    const previousConfig: AppConfig = { ...config };
+    const previousSchedules = new Map(this.mainServices.map(({ job }) => [job.NAME, job.CRON_SCHEDULE]));
+
+    // 各服务在构造时读取全局配置，需要先替换配置再创建
+    applyConfig({ ...next, LOG_DIR: config.LOG_DIR });
+    let mainServices: MainService[];
+    try {
+      mainServices = config.JOBS.map((job) => new MainService(job));
+    } catch (error) {
+      applyConfig(previousConfig);
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        "按新配置创建任务失败，继续使用原配置"
+      );
+      return;
+    }
+
+    if (next.LOG_DIR !== config.LOG_DIR) {
+      logger.warn({ from: config.LOG_DIR, to: next.LOG_DIR }, "日志目录变更需重启后生效");
+    }
+    setLogLevel(config.LOG_LEVEL);
+
+    this.stop();
+    this.mainServices = mainServices;
+    this.start();
+
+    for (const { job } of this.mainServices) {
+      const previous = previousSchedules.get(job.NAME);
+      if (previous === undefined) {
+        logger.info({ job: job.NAME, schedule: job.CRON_SCHEDULE }, "新增任务");
+      } else if (previous !== job.CRON_SCHEDULE) {
+        logger.info({ job: job.NAME, from: previous, to: job.CRON_SCHEDULE }, "计划表达式已变更，已重新调度");
+      }
+      previousSchedules.delete(job.NAME);
+    }
+    for (const name of previousSchedules.keys()) {
+      logger.info({ job: name }, "任务已从配置中移除");
+    }
+    logger.info("新配置已生效");
+  }
+}
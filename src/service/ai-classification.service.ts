@@ -1,191 +1,424 @@
-import OpenAI from "openai";
-import { config } from "../config.js";
+import path from "node:path";
+import { config, Taxonomy } from "../config.js";
 import { aiLogger } from "../logger.js";
+import {
+  CircuitOpenError,
+  ClassificationItem,
+  ClassificationRequest,
+  ClassificationResponse,
+  createProvider,
+  estimateTextTokens,
+  ImageAttachment,
+  isContextLengthError,
+  isVisionUnsupportedError,
+  LLMProvider,
+  OUTPUT_TOKENS_PER_FILE,
+  ResponseParseError,
+} from "../provider/index.js";
+import { DirectoryExample, PromptBuilder } from "../prompt/index.js";
+import { AIRecordingService } from "./ai-recording.service.js";
+import { DirectoryRetrievalService } from "./dir-retrieval.service.js";
+import { UsageService } from "./usage.service.js";
 
-export class AIClassificationService {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.OPENAI_API_KEY,
-      baseURL: config.OPENAI_BASE_URL || undefined,
-      defaultHeaders: {
-        "APP-Code": "TRGU7082",
-      },
+// 遗漏文件的追加请求最多轮数
+const MAX_FOLLOWUP_ROUNDS = 1;
+
+// 建议文件名（不含扩展名）的最大字符数
+const MAX_SUGGESTED_NAME_LENGTH = 100;
+
+// 待分类文件：image 为可选的缩略图（vision.enabled 时）
+export interface BatchFile {
+  fileName: string;
+  description: string;
+  image?: Omit<ImageAttachment, "fileName">;
+}
+
+// 被拒绝的分类结果
+export interface RejectedClassification {
+  item: ClassificationItem;
+  reason: string;
+}
+
+// 对照本批次文件核对后的结果
+export interface ReconcileResult {
+  accepted: ClassificationItem[]; // 按输入顺序，路径已归一化
+  rejected: RejectedClassification[];
+  missing: string[]; // 没有有效结果的文件
+}
+
+/**
+ * 校验并归一化 AI 给出的目标目录，拒绝绝对路径、".." 与控制字符
+ *
+ * 返回 { path } 或 { error }；空路径视为有效，由调用方决定默认目录。
+ */
+export function sanitizeTargetPath(dir: string): { path: string } | { error: string } {
+  if (/[\u0000-\u001f\u007f]/.test(dir)) {
+    return { error: "路径包含控制字符" };
+  }
+  const trimmed = dir.trim();
+  if (path.posix.isAbsolute(trimmed) || path.win32.isAbsolute(trimmed)) {
+    return { error: "不允许绝对路径" };
+  }
+  const segments = trimmed.split(/[\\/]+/).map((segment) => segment.trim());
+  if (segments.includes("..")) {
+    return { error: "路径不能包含 .." };
+  }
+  return { path: segments.filter((segment) => segment && segment !== ".").join("/") };
+}
+
+/**
+ * 校验 AI 建议的文件名：只取最后一段，去掉文件系统不允许的字符，统一使用原扩展名
+ *
+ * 建议无效或与原文件名相同时返回 undefined（保持原名）。
+ */
+export function sanitizeSuggestedName(suggested: string | undefined, originalName: string): string | undefined {
+  if (!suggested) return undefined;
+  const ext = path.extname(originalName);
+  let stem = path.posix.basename(suggested.replace(/\\/g, "/")).normalize("NFC");
+  if (ext && stem.toLowerCase().endsWith(ext.toLowerCase())) {
+    stem = stem.slice(0, -ext.length);
+  }
+  stem = stem
+    .replace(/[<>:"|?*\u0000-\u001f\u007f]/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+  if (!stem) return undefined;
+  const name = `${[...stem].slice(0, MAX_SUGGESTED_NAME_LENGTH).join("")}${ext}`;
+  return name === originalName.normalize("NFC") ? undefined : name;
+}
+
+/**
+ * 目录是否在封闭分类体系内（未启用时总是返回 true）
+ */
+export function isAllowedByTaxonomy(dir: string, taxonomy: Taxonomy): boolean {
+  if (taxonomy.dirs.length === 0) return true;
+  const target = dir.normalize("NFC");
+  return taxonomy.dirs.some((allowed) => {
+    const normalized = allowed.normalize("NFC");
+    return target === normalized || (taxonomy.allowSubdirs && target.startsWith(`${normalized}/`));
+  });
+}
+
+// 文件名比较时忽略 Unicode 组合形式与首尾空白
+function normalizeFileName(fileName: string): string {
+  return fileName.normalize("NFC").trim();
+}
+
+/**
+ * 对照本批次的文件名核对 AI 返回的结果：
+ * 不在本批次中的文件名视为编造，同一文件的重复条目只保留第一条，路径不安全的条目被拒绝；
+ * 传入启用的分类体系时，列表以外的目录（包括空路径）也被拒绝；无效的建议文件名被丢弃（保持原名）
+ */
+export function reconcileClassifications(
+  fileNames: string[],
+  items: ClassificationItem[],
+  taxonomy: Taxonomy = { dirs: [], allowSubdirs: false }
+): ReconcileResult {
+  const byNormalizedName = new Map(fileNames.map((name) => [normalizeFileName(name), name]));
+  const accepted = new Map<string, ClassificationItem>();
+  const rejected: RejectedClassification[] = [];
+
+  for (const item of items) {
+    const fileName = byNormalizedName.get(normalizeFileName(String(item.fileName ?? "")));
+    if (!fileName) {
+      rejected.push({ item, reason: "文件不在本批次中" });
+      continue;
+    }
+    if (accepted.has(fileName)) {
+      rejected.push({ item, reason: "同一文件的重复结果" });
+      continue;
+    }
+    const sanitized = sanitizeTargetPath(String(item.path ?? ""));
+    if ("error" in sanitized) {
+      rejected.push({ item, reason: sanitized.error });
+      continue;
+    }
+    if (!isAllowedByTaxonomy(sanitized.path, taxonomy)) {
+      rejected.push({ item, reason: "不在允许的目录列表中" });
+      continue;
+    }
+    accepted.set(fileName, {
+      ...item,
+      fileName,
+      path: sanitized.path,
+      suggestedName: sanitizeSuggestedName(item.suggestedName, fileName),
     });
   }
 
+  return {
+    accepted: fileNames.filter((name) => accepted.has(name)).map((name) => accepted.get(name)!),
+    rejected,
+    missing: fileNames.filter((name) => !accepted.has(name)),
+  };
+}
+
+export class AIClassificationService {
+  private provider: LLMProvider;
+  private prompts: PromptBuilder;
+  private usage: UsageService | null;
+  private retrieval: DirectoryRetrievalService;
+  private recorder: AIRecordingService | null;
+  private model: string;
+  private jobName?: string;
+  private visionUnsupported = false; // 模型拒绝过图片输入，之后只发送文本
+  private logger: typeof aiLogger;
+
+  constructor(
+    model: string = config.OPENAI_MODEL,
+    jobName?: string,
+    provider: LLMProvider = createProvider(),
+    prompts?: PromptBuilder,
+    usage: UsageService | null = null,
+    retrieval: DirectoryRetrievalService = new DirectoryRetrievalService(),
+    recorder: AIRecordingService | null = null
+  ) {
+    this.model = model;
+    this.jobName = jobName;
+    this.logger = jobName ? aiLogger.child({ job: jobName }) : aiLogger;
+    this.provider = provider;
+    this.prompts = prompts ?? PromptBuilder.forJob(config.JOBS[0]);
+    this.usage = usage;
+    this.retrieval = retrieval;
+    this.recorder = recorder;
+  }
+
+  /**
+   * 按估算的提示长度分批：每批不超过 maxFiles 个文件，且系统提示、目录列表与示例、文件描述与预计输出
+   * 合计不超过 maxTokens（0 表示只按数量分批）；单个文件超出时单独成批
+   *
+   * 目录很多、需要按批次检索相关目录时，目录列表按检索结果的上限估算。
+   */
+  planBatches<T extends { fileName: string; description: string }>(
+    files: T[],
+    knownDirs: string[],
+    maxFiles: number,
+    maxTokens: number,
+    examples: DirectoryExample[] = []
+  ): T[][] {
+    const overhead =
+      estimateTextTokens(this.prompts.buildSystemPrompt()) +
+      estimateTextTokens(this.prompts.buildUserPrompt([], this.retrieval.budgetDirs(knownDirs), false, examples));
+    if (maxTokens > 0 && overhead >= maxTokens) {
+      this.logger.warn({ overhead, maxTokens }, "系统提示、目录列表与示例已超过单批 token 上限，每批只包含一个文件");
+    }
+
+    const batches: T[][] = [];
+    let current: T[] = [];
+    let tokens = overhead;
+    for (const file of files) {
+      const fileTokens =
+        estimateTextTokens(`${current.length + 1}. ${file.fileName} - ${file.description}\n`) + OUTPUT_TOKENS_PER_FILE;
+      const full = current.length >= maxFiles || (maxTokens > 0 && tokens + fileTokens > maxTokens);
+      if (current.length > 0 && full) {
+        batches.push(current);
+        current = [];
+        tokens = overhead;
+      }
+      current.push(file);
+      tokens += fileTokens;
+    }
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
+
   /**
    * 批量分类函数（主要功能）
+   *
+   * 返回的结果已与输入核对：每个文件最多一条、路径安全且在分类体系内；遗漏的文件会单独追加请求，
+   * 仍无有效结果的文件不出现在返回值中（留在待分类目录）。
+   *
+   * 响应无法解析或超出上下文长度时，把批次对半拆分后分别重试，单个文件仍失败时只放弃该文件。
+   * 拆分后的请求与追加请求发出前都会检查预算，已用尽时不再发送。
    */
   async classifyBatch(
-    files: Array<{ fileName: string; description: string }>,
-    knownDirs: string[]
-  ): Promise<Array<{ fileName: string; path: string; reasoning?: string }>> {
+    files: BatchFile[],
+    knownDirs: string[],
+    examples: DirectoryExample[] = []
+  ): Promise<ClassificationItem[]> {
     try {
-      if (files.length === 0) return [];
-
-      // 构建批量分类的上下文
-      const filesList = files
-        .map(
-          (file, index) =>
-            `${index + 1}. ${file.fileName}${file.description ? ` - ${file.description}` : ""}`
-        )
-        .join("\n");
-
-      const contextInfo = `现有目录结构:\n${
-        knownDirs.length > 0
-          ? knownDirs.map((dir) => `  ${dir}`).join("\n")
-          : "暂无，需要创建新目录"
-      }\n待分类文件列表:\n${filesList}`;
-
-      aiLogger.info({ contextInfo }, `批量AI分类请求 - 文件数量: ${files.length}`);
-
-      const res = await this.openai.chat.completions.create({
-        model: config.OPENAI_MODEL,
-        messages: [
-          {
-            role: "system",
-            content: this.getBatchSystemPrompt(),
-          },
-          {
-            role: "user",
-            content: contextInfo,
-          },
-        ],
-        tools: [
-          {
-            type: "function",
-            function: {
-              name: "classify_files_batch",
-              description: "批量分类多个文件",
-              parameters: {
-                type: "object",
-                properties: {
-                  classifications: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        file_name: {
-                          type: "string",
-                          description: "文件名",
-                        },
-                        directory_path: {
-                          type: "string",
-                          description: "分类目录路径",
-                        },
-                        reasoning: {
-                          type: "string",
-                          description: "分类理由",
-                        },
-                      },
-                      required: ["file_name", "directory_path", "reasoning"],
-                    },
-                  },
-                },
-                required: ["classifications"],
-              },
-            },
-          },
-        ],
-        tool_choice: { type: "function", function: { name: "classify_files_batch" } },
-        temperature: 0.1,
-      });
+      return await this.classifyWithFollowUp(files, knownDirs, examples);
+    } catch (error) {
+      const splittable = error instanceof ResponseParseError || isContextLengthError(error);
+      if (!splittable || files.length < 2) throw error;
 
-      // 记录 AI 原始响应的关键元信息，避免日志过大
-      try {
-        aiLogger.info(
-          {
-            ai_response_meta: {
-              id: (res as any)?.id,
-              model: (res as any)?.model,
-              usage: (res as any)?.usage,
-            },
-          },
-          "收到 AI 响应"
-        );
-      } catch {}
-
-      const choice = res.choices?.[0];
-      // 打印首个 choice 的消息体（包含 tool_calls 或 content）
-      try {
-        aiLogger.info({ ai_message: choice?.message }, "AI 返回消息");
-      } catch {}
-      if (choice?.message?.tool_calls?.[0]) {
-        const toolCall = choice.message.tool_calls[0];
-        if (toolCall.type === "function" && toolCall.function.name === "classify_files_batch") {
-          try {
-            // 打印工具调用的原始参数（AI 直接返回）
-            try {
-              aiLogger.info(
-                {
-                  ai_tool_call: {
-                    name: toolCall.function.name,
-                    arguments: toolCall.function.arguments,
-                  },
-                },
-                "AI 工具调用返回"
-              );
-            } catch {}
-            const result = JSON.parse(toolCall.function.arguments);
-            const classifications = result.classifications || [];
-
-            aiLogger.info(`批量分类完成，处理了 ${classifications.length} 个文件`);
-            // 打印解析后的分类结果（便于检索调试）
-            try {
-              aiLogger.info({ classifications }, "AI 分类原始结果");
-            } catch {}
-
-            return classifications.map((item: any) => ({
-              fileName: item.file_name,
-              path: item.directory_path,
-              reasoning: item.reasoning,
-            }));
-          } catch (parseError) {
-            aiLogger.error(`解析批量分类结果失败: ${parseError}`);
-            throw new Error(`批量分类解析失败: ${parseError}`);
-          }
+      const middle = Math.ceil(files.length / 2);
+      const halves = [files.slice(0, middle), files.slice(middle)];
+      this.logger.warn(
+        { error: error instanceof Error ? error.message : String(error), sizes: halves.map((half) => half.length) },
+        "批次响应无法解析或超出上下文长度，拆分为两半后重试"
+      );
+
+      const results: ClassificationItem[] = [];
+      for (const half of halves) {
+        // 拆分后的每个请求都会计费，预算用尽时停止拆分，剩余文件留在待分类目录
+        if (this.budgetExceeded(half)) break;
+        try {
+          results.push(...(await this.classifyBatch(half, knownDirs, examples)));
+        } catch (halfError) {
+          if (halfError instanceof CircuitOpenError) throw halfError;
+          // 拆分到单个文件仍失败，或遇到其他错误：放弃这一半，另一半的结果照常返回
+          this.logger.error(
+            { files: half.map((file) => file.fileName), error: halfError instanceof Error ? halfError.message : String(halfError) },
+            `${half.length} 个文件分类失败，保留在待分类目录`
+          );
         }
       }
+      return results;
+    }
+  }
+
+  /**
+   * 发送一批请求，并为遗漏或结果无效的文件追加请求
+   */
+  private async classifyWithFollowUp(
+    files: BatchFile[],
+    knownDirs: string[],
+    examples: DirectoryExample[]
+  ): Promise<ClassificationItem[]> {
+    if (files.length === 0) return [];
+
+    const accepted = new Map<string, ClassificationItem>();
+    let pending = files;
+
+    for (let round = 0; round <= MAX_FOLLOWUP_ROUNDS && pending.length > 0; round++) {
+      if (round > 0 && this.budgetExceeded(pending)) break;
+      let items: ClassificationItem[];
+      try {
+        items = await this.requestBatch(pending, knownDirs, examples, round > 0);
+      } catch (error) {
+        // 首轮失败整批失败；追加请求失败时保留已有结果
+        if (round === 0) throw error;
+        break;
+      }
+
+      const result = reconcileClassifications(
+        pending.map((file) => file.fileName),
+        items,
+        this.prompts.taxonomy
+      );
+      for (const { item, reason } of result.rejected) {
+        this.logger.warn({ fileName: item.fileName, path: item.path, reason }, "拒绝无效的 AI 分类结果");
+      }
+      for (const item of result.accepted) {
+        accepted.set(item.fileName, item);
+      }
+
+      pending = pending.filter((file) => !accepted.has(file.fileName));
+      if (pending.length > 0 && round < MAX_FOLLOWUP_ROUNDS) {
+        this.logger.warn({ missing: pending.map((file) => file.fileName) }, `AI 遗漏了 ${pending.length} 个文件，追加请求`);
+      }
+    }
+
+    if (pending.length > 0) {
+      this.logger.error({ missing: pending.map((file) => file.fileName) }, `${pending.length} 个文件未获得有效的 AI 分类结果，保留在待分类目录`);
+    }
+    return files.filter((file) => accepted.has(file.fileName)).map((file) => accepted.get(file.fileName)!);
+  }
 
-      throw new Error("AI批量分类失败：未返回有效结果");
+  /**
+   * 额外请求（拆分重试、追加请求）前检查预算，已用尽时记录日志并返回 true
+   */
+  private budgetExceeded(files: BatchFile[]): boolean {
+    const exceeded = this.usage?.checkBudget();
+    if (!exceeded) return false;
+    this.logger.warn(
+      { ...exceeded, files: files.map((file) => file.fileName) },
+      `AI 预算已用尽，不再重试，${files.length} 个文件保留在待分类目录`
+    );
+    return true;
+  }
+
+  /**
+   * 发送请求；模型不支持图片输入时去掉图片重试，本服务之后的请求只发送文本
+   */
+  private async sendRequest(request: ClassificationRequest): Promise<ClassificationResponse> {
+    try {
+      return await this.provider.classifyBatch(request);
     } catch (error) {
-      aiLogger.error(`批量分类失败: ${error}`);
-      throw error;
+      if (!request.images || !isVisionUnsupportedError(error)) throw error;
+      this.visionUnsupported = true;
+      this.logger.warn(
+        { model: this.model, error: error instanceof Error ? error.message : String(error) },
+        "模型不支持图片输入，改为只发送文本"
+      );
+      return await this.provider.classifyBatch({ ...request, images: undefined });
     }
   }
 
   /**
-   * 获取批量分类系统提示
+   * 发送一次分类请求，followUp 时提示模型只处理上次遗漏的文件
    */
-  private getBatchSystemPrompt(): string {
-    return `你是一个专业的文件批量分类专家，擅长根据文件信息智能分类。
-
-## 核心能力
-1. **语义理解**：深度理解文件名和描述的含义
-2. **模式识别**：识别文件类型和分类规律
-3. **一致性分类**：为相似文件保持一致的分类逻辑
-4. **智能决策**：提供高质量的分类决策和理由
-
-## 分类原则
-- **一致性优先**：优先使用现有目录结构
-- **语义分类**：基于文件实际用途而非仅仅文件名
-- **层级合理**：保持适当的目录层级深度
-- **中文命名**：使用简洁直观的中文目录名
-
-## 分类策略
-- 安装包按软件类型分类（开发工具、效率工具、系统工具等）
-- 文档按内容性质分类（技术文档、工作文档、个人资料等）
-- 媒体文件按格式和用途分类
-- 压缩包按内容推测进行分类
-
-## 决策流程
-1. 查看现有目录列表
-2. 判断文件类型和用途
-3. 寻找最合适的现有目录
-4. 如没有合适的现有目录则创建新目录
-
-批量处理时要保持分类的一致性和逻辑性。`;
+  private async requestBatch(
+    files: BatchFile[],
+    knownDirs: string[],
+    examples: DirectoryExample[],
+    followUp: boolean
+  ): Promise<ClassificationItem[]> {
+    // 封闭分类体系下提示中列出的是允许的目录，无需检索
+    const dirs = this.prompts.closed ? knownDirs : this.retrieval.select(knownDirs, files);
+    if (dirs.length < knownDirs.length) {
+      this.logger.debug({ total: knownDirs.length, selected: dirs.length }, "目录较多，只列出与本批次相关的目录");
+    }
+    const systemPrompt = this.prompts.buildSystemPrompt();
+    const contextInfo = this.prompts.buildUserPrompt(files, dirs, followUp, examples);
+    const exchange = {
+      job: this.jobName,
+      provider: this.provider.name,
+      model: this.model,
+      followUp,
+      taxonomy: this.prompts.taxonomy,
+      files: files.map((file) => ({ fileName: file.fileName, description: file.description, image: file.image ? true : undefined })),
+      dirs,
+      examples,
+      systemPrompt,
+      userPrompt: contextInfo,
+      suggestNames: this.prompts.suggestNames,
+    };
+
+    try {
+      this.logger.info(
+        { contextInfo, provider: this.provider.name, followUp, images: files.filter((file) => file.image).length || undefined },
+        `${followUp ? "追加" : "批量"}AI分类请求 - 文件数量: ${files.length}`
+      );
+
+      const images = this.visionUnsupported
+        ? []
+        : files.flatMap((file) => (file.image ? [{ fileName: file.fileName, ...file.image }] : []));
+      const response = await this.sendRequest({
+        model: this.model,
+        systemPrompt,
+        userPrompt: contextInfo,
+        fileNames: files.map((file) => file.fileName),
+        suggestNames: this.prompts.suggestNames,
+        language: this.prompts.language,
+        images: images.length > 0 ? images : undefined,
+      });
+
+      this.usage?.record(this.model, response.usage);
+      this.recorder?.record({ ...exchange, items: response.items, usage: response.usage });
+
+      // 记录 AI 原始响应的关键元信息
+      this.logger.info({ ai_response_meta: response.meta, usage: response.usage }, "收到 AI 响应");
+      this.logger.info({ classifications: response.items }, `AI 返回 ${response.items.length} 条分类结果`);
+
+      return response.items;
+    } catch (error) {
+      this.logger.error(`批量分类失败: ${error}`);
+      // 响应无法解析时 token 已经计费，同样计入用量与预算
+      const usage = error instanceof ResponseParseError ? error.usage : undefined;
+      if (error instanceof ResponseParseError) {
+        this.usage?.record(this.model, usage);
+      }
+      // 熔断时请求没有发出，不录制
+      if (!(error instanceof CircuitOpenError)) {
+        this.recorder?.record({
+          ...exchange,
+          items: [],
+          usage,
+          error: error instanceof Error ? { name: error.name, message: error.message } : { name: "Error", message: String(error) },
+        });
+      }
+      throw error;
+    }
   }
 }
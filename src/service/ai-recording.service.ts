@@ -0,0 +1,131 @@
+import fs from "node:fs";
+import path from "node:path";
+import { aiLogger } from "../logger.js";
+import { config, Taxonomy } from "../config.js";
+import { ClassificationItem, ProviderUsage } from "../provider/index.js";
+import { DirectoryExample } from "../prompt/index.js";
+
+// 一次 AI 请求的录制：重建提示所需的输入、实际发送的提示与解析后的结果
+export interface AIExchangeRecord {
+  runId: string;
+  job?: string;
+  timestamp: string;
+  provider: string;
+  model: string;
+  followUp: boolean; // 为遗漏文件追加的请求
+  taxonomy: Taxonomy;
+  files: Array<{ fileName: string; description: string; image?: boolean }>;
+  dirs: string[]; // 提示中列出的目录（相关目录检索之后）
+  examples: DirectoryExample[];
+  systemPrompt: string;
+  userPrompt: string;
+  suggestNames: boolean;
+  items: ClassificationItem[]; // 提供方解析后的结果，尚未与本批次核对
+  usage?: ProviderUsage;
+  error?: { name: string; message: string }; // 请求失败或响应无法解析
+}
+
+// 录制的运行摘要
+export interface RecordedRunSummary {
+  runId: string;
+  job?: string;
+  exchanges: number;
+  failed: number;
+}
+
+/**
+ * AI 请求录制：每次运行一个 JSONL 文件，保存在数据目录的 recordings 下，供 --replay 离线回放
+ */
+export class AIRecordingService {
+  private recordDir: string;
+  private runId: string | null = null;
+
+  constructor(recordDir: string = path.join(config.DATA_DIR, "recordings")) {
+    this.recordDir = recordDir;
+  }
+
+  private getRunFile(runId: string): string {
+    return path.join(this.recordDir, `${runId}.jsonl`);
+  }
+
+  /**
+   * 开始新的一次运行，之后的录制写入该运行的文件；同时清理超过保留天数的录制
+   */
+  startRun(runId: string): void {
+    this.runId = runId;
+    this.prune();
+  }
+
+  /**
+   * 追加一条录制（同步写入；写入失败只告警，不影响分类）
+   */
+  record(exchange: Omit<AIExchangeRecord, "runId" | "timestamp">): void {
+    if (!this.runId) return;
+    try {
+      fs.mkdirSync(this.recordDir, { recursive: true });
+      const entry: AIExchangeRecord = { runId: this.runId, timestamp: new Date().toISOString(), ...exchange };
+      fs.appendFileSync(this.getRunFile(this.runId), JSON.stringify(entry) + "\n", "utf8");
+    } catch (err) {
+      aiLogger.warn({ runId: this.runId, error: err instanceof Error ? err.message : String(err) }, "写入 AI 请求录制失败");
+    }
+  }
+
+  /**
+   * 读取某次运行的全部录制（按请求顺序）
+   */
+  readRun(runId: string): AIExchangeRecord[] {
+    const file = this.getRunFile(runId);
+    if (!fs.existsSync(file)) return [];
+
+    const records: AIExchangeRecord[] = [];
+    for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // 进程中断可能留下不完整的末行，跳过
+        aiLogger.warn({ runId }, "跳过无法解析的录制行");
+      }
+    }
+    return records;
+  }
+
+  /**
+   * 列出所有录制的运行（从旧到新）
+   */
+  summarizeRuns(): RecordedRunSummary[] {
+    if (!fs.existsSync(this.recordDir)) return [];
+    return fs
+      .readdirSync(this.recordDir)
+      .filter((f) => f.endsWith(".jsonl"))
+      .map((f) => f.slice(0, -".jsonl".length))
+      .sort()
+      .map((runId) => {
+        const records = this.readRun(runId);
+        return {
+          runId,
+          job: records[0]?.job,
+          exchanges: records.length,
+          failed: records.filter((record) => record.error).length,
+        };
+      });
+  }
+
+  /**
+   * 删除超过 recording.keep_days 天的录制文件（0 表示永久保留）
+   */
+  private prune(): void {
+    const keepDays = config.RECORDING_KEEP_DAYS;
+    if (keepDays <= 0 || !fs.existsSync(this.recordDir)) return;
+    const cutoff = Date.now() - keepDays * 24 * 60 * 60 * 1000;
+    for (const f of fs.readdirSync(this.recordDir)) {
+      if (!f.endsWith(".jsonl")) continue;
+      const file = path.join(this.recordDir, f);
+      try {
+        if (fs.statSync(file).mtimeMs < cutoff) fs.rmSync(file, { force: true });
+      } catch {
+        // 并发运行可能已删除
+      }
+    }
+  }
+}
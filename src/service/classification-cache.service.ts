@@ -0,0 +1,158 @@
+import fs from "node:fs";
+import path from "node:path";
+import { mainLogger } from "../logger.js";
+import { config, JobConfig } from "../config.js";
+
+// 缓存条目
+export interface ClassificationCacheEntry {
+  directory: string; // 相对分类库的目录
+  reasoning?: string;
+  fileName: string; // 首次分类时的文件名
+  model?: string;
+  newName?: string; // AI 建议的新文件名（只记录在哈希条目中，按文件名命中时保持原名）
+  createdAt: string;
+  hits: number;
+}
+
+// 缓存文件结构
+interface CacheFile {
+  version: 1;
+  entries: Record<string, ClassificationCacheEntry>;
+}
+
+/**
+ * 归一化文件名：忽略大小写、多余空白以及 "(1)"、" - 副本"、" copy" 等重复下载后缀
+ */
+export function normalizeCacheName(fileName: string): string {
+  const ext = path.extname(fileName).toLowerCase();
+  const stem = path
+    .basename(fileName, path.extname(fileName))
+    .toLowerCase()
+    .replace(/\s*(\(\d+\)|（\d+）|-\s*副本(\s*\(\d+\))?|\s+copy(\s+\d+)?)$/u, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${stem}${ext}`;
+}
+
+/**
+ * 分类结果缓存：按内容哈希（可选再按归一化文件名）记住 AI 选择的目录，
+ * 批次失败重试、进程重启或同一文件再次下载时无需重复调用 AI。每个任务一个缓存文件。
+ */
+export class ClassificationCacheService {
+  private job: JobConfig;
+  private cachePath: string;
+  private matchName: boolean;
+  private data: CacheFile | null = null;
+  private dirty = false;
+  private logger: typeof mainLogger;
+
+  constructor(job: JobConfig, cacheDir: string = path.join(config.DATA_DIR, "cache"), matchName: boolean = config.CACHE_MATCH_NAME) {
+    this.job = job;
+    this.cachePath = path.join(cacheDir, `${job.NAME}.json`);
+    this.matchName = matchName;
+    this.logger = mainLogger.child({ job: job.NAME });
+  }
+
+  private load(): CacheFile {
+    if (this.data) return this.data;
+    try {
+      if (fs.existsSync(this.cachePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.cachePath, "utf8"));
+        if (parsed?.version === 1 && parsed.entries) {
+          this.data = parsed as CacheFile;
+          return this.data;
+        }
+        this.logger.warn({ cachePath: this.cachePath }, "分类缓存格式不兼容，已忽略");
+      }
+    } catch (err) {
+      this.logger.warn({ cachePath: this.cachePath, error: err instanceof Error ? err.message : String(err) }, "读取分类缓存失败，已忽略");
+    }
+    this.data = { version: 1, entries: {} };
+    return this.data;
+  }
+
+  /**
+   * 写入缓存文件（临时文件 + rename，避免写到一半时损坏）
+   */
+  private save(): void {
+    const data = this.load();
+    fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+    const tempPath = `${this.cachePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf8");
+    fs.renameSync(tempPath, this.cachePath);
+    this.dirty = false;
+  }
+
+  /**
+   * 写入尚未保存的命中计数与失效记录
+   */
+  flush(): void {
+    if (this.dirty) this.save();
+  }
+
+  private getKeys(hash: string, fileName: string): string[] {
+    const keys = [`hash:${hash}`];
+    if (this.matchName) keys.push(`name:${normalizeCacheName(fileName)}`);
+    return keys;
+  }
+
+  /**
+   * 查询缓存；目标目录已不存在时使该条目失效
+   */
+  get(hash: string, fileName: string): ClassificationCacheEntry | null {
+    const data = this.load();
+    for (const key of this.getKeys(hash, fileName)) {
+      const entry = data.entries[key];
+      if (!entry) continue;
+
+      if (!fs.existsSync(path.join(this.job.ROOT_DIR, entry.directory))) {
+        delete data.entries[key];
+        this.dirty = true;
+        this.logger.info({ key, directory: entry.directory }, "缓存目录已不存在，缓存条目失效");
+        continue;
+      }
+
+      entry.hits++;
+      this.dirty = true;
+      return entry;
+    }
+    return null;
+  }
+
+  /**
+   * 记录一次分类结果
+   */
+  set(hash: string, fileName: string, directory: string, reasoning?: string, model?: string, newName?: string): void {
+    const data = this.load();
+    for (const key of this.getKeys(hash, fileName)) {
+      data.entries[key] = {
+        directory,
+        reasoning,
+        fileName,
+        model,
+        // 内容不同的同名文件不沿用按内容给出的新文件名
+        newName: key.startsWith("hash:") ? newName : undefined,
+        createdAt: new Date().toISOString(),
+        hits: 0,
+      };
+    }
+    this.save();
+  }
+
+  /**
+   * 列出全部缓存条目
+   */
+  list(): Array<{ key: string } & ClassificationCacheEntry> {
+    return Object.entries(this.load().entries).map(([key, entry]) => ({ key, ...entry }));
+  }
+
+  /**
+   * 清空缓存，返回清除的条目数
+   */
+  clear(): number {
+    const count = Object.keys(this.load().entries).length;
+    this.data = { version: 1, entries: {} };
+    this.save();
+    return count;
+  }
+}
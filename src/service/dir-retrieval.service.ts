@@ -0,0 +1,118 @@
+import { config } from "../config.js";
+
+// 检索选项
+export interface RetrievalOptions {
+  maxDirs: number; // 目录总数不超过该值时使用完整列表，0 表示总是使用完整列表
+  topK: number; // 检索时最多选取的相关目录数（不含顶层目录与上级目录）
+}
+
+const HAN = /\p{Script=Han}/u;
+
+/**
+ * 切分为检索用的词：英文与数字按单词（驼峰拆开），中文按相邻两字；忽略单个字母或数字
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const spaced = text.normalize("NFKC").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  for (const run of spaced.match(/[\p{L}\p{N}]+/gu) ?? []) {
+    // 中文与其他字符混排时分段处理，如 "2024年发票" → "2024"、"年发"、"发票"
+    for (const part of run.match(/\p{Script=Han}+|[^\p{Script=Han}]+/gu) ?? []) {
+      if (HAN.test(part)) {
+        if (part.length === 1) tokens.push(part);
+        for (let i = 0; i + 1 < part.length; i++) tokens.push(part.slice(i, i + 2));
+      } else if (part.length >= 2) {
+        tokens.push(part);
+      }
+    }
+  }
+  return tokens;
+}
+
+// 目录深度："a/b/" 为 2
+function depthOf(dir: string): number {
+  return dir.replace(/\/+$/, "").split("/").length;
+}
+
+/**
+ * 相关目录检索：分类库目录很多时，只把与本批次文件相关的目录放入提示
+ *
+ * 按文件名与描述中的词和目录路径中的词的重合程度打分（越少见的词权重越高），
+ * 每个文件轮流选取得分最高的目录，再加上全部顶层目录和所选目录的上级目录作为骨架。
+ */
+export class DirectoryRetrievalService {
+  private options: RetrievalOptions;
+
+  constructor(options: RetrievalOptions = { maxDirs: config.RETRIEVAL_MAX_DIRS, topK: config.RETRIEVAL_TOP_K }) {
+    this.options = options;
+  }
+
+  /**
+   * 是否需要检索（目录数超过阈值）
+   */
+  needed(knownDirs: string[]): boolean {
+    return this.options.maxDirs > 0 && knownDirs.length > this.options.maxDirs;
+  }
+
+  /**
+   * 为估算提示长度给出目录列表的上限：顶层目录加上最长的 topK 个目录
+   */
+  budgetDirs(knownDirs: string[]): string[] {
+    if (!this.needed(knownDirs)) return knownDirs;
+    const skeleton = knownDirs.filter((dir) => depthOf(dir) === 1);
+    const longest = [...knownDirs].sort((a, b) => b.length - a.length).slice(0, this.options.topK);
+    return [...skeleton, ...longest];
+  }
+
+  /**
+   * 选取与本批次文件相关的目录，保持 knownDirs 中的原有顺序
+   */
+  select(knownDirs: string[], files: Array<{ fileName: string; description: string }>): string[] {
+    if (!this.needed(knownDirs)) return knownDirs;
+
+    const dirTokens = knownDirs.map((dir) => new Set(tokenize(dir)));
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of dirTokens) {
+      for (const token of tokens) documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+    const idf = (token: string) => Math.log(1 + knownDirs.length / (documentFrequency.get(token) ?? knownDirs.length));
+
+    // 每个文件的目录排名：文件名中的词权重为 1，描述中的词为 0.5
+    const rankings = files.map((file) => {
+      const weights = new Map<string, number>();
+      for (const token of tokenize(file.description)) weights.set(token, 0.5);
+      for (const token of tokenize(file.fileName)) weights.set(token, 1);
+
+      return knownDirs
+        .map((_, index) => {
+          let score = 0;
+          for (const [token, weight] of weights) {
+            if (dirTokens[index].has(token)) score += weight * idf(token);
+          }
+          // 同分时优先更深（更具体）的目录
+          return { index, score: score > 0 ? score + depthOf(knownDirs[index]) * 1e-3 : 0 };
+        })
+        .filter((entry) => entry.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map((entry) => entry.index);
+    });
+
+    // 轮流选取，避免某一个文件的匹配占满名额
+    const selected = new Set<number>();
+    for (let rank = 0; selected.size < this.options.topK && rankings.some((ranking) => rank < ranking.length); rank++) {
+      for (const ranking of rankings) {
+        if (rank < ranking.length && selected.size < this.options.topK) selected.add(ranking[rank]);
+      }
+    }
+
+    // 骨架：顶层目录与所选目录的上级目录（统一为不带末尾 "/" 的形式比较）
+    const trim = (dir: string) => dir.replace(/\/+$/, "");
+    const keep = new Set<string>(knownDirs.filter((dir) => depthOf(dir) === 1).slice(0, this.options.maxDirs).map(trim));
+    for (const index of selected) {
+      const segments = trim(knownDirs[index]).split("/");
+      for (let i = 1; i <= segments.length; i++) {
+        keep.add(segments.slice(0, i).join("/"));
+      }
+    }
+    return knownDirs.filter((dir) => keep.has(trim(dir)));
+  }
+}
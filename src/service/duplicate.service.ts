@@ -0,0 +1,192 @@
+import fs from "node:fs";
+import path from "node:path";
+import { duplicateLogger } from "../logger.js";
+import { config, DuplicatePolicy, JobConfig } from "../config.js";
+import { FileHashService } from "./file-hash.service.js";
+import { FileMoveService } from "./file-move.service.js";
+
+// 对重复文件采取的动作
+export type DuplicateAction = "skipped" | "deleted" | "moved" | "hardlinked" | "already_linked" | "failed";
+
+// 单个重复文件的处理结果
+export interface DuplicateDecision {
+  fileName: string;
+  filePath: string;
+  duplicateOf: string; // 分类库中内容相同的文件（相对路径）
+  hash: string;
+  policy: DuplicatePolicy;
+  action: DuplicateAction;
+  finalPath?: string;
+  error?: string;
+}
+
+/**
+ * 内容重复检测：先按文件大小筛选候选，再比较 SHA-256
+ */
+export class DuplicateService {
+  private job: JobConfig;
+  private policy: DuplicatePolicy;
+  private fileMoveService: FileMoveService;
+  private fileHashService: FileHashService;
+  private libraryInodes = new Set<string>(); // 分类库文件的 "设备号:inode"，用于识别已替换为硬链接的文件
+  private logger: typeof duplicateLogger;
+
+  constructor(
+    job: JobConfig,
+    fileMoveService: FileMoveService,
+    fileHashService: FileHashService,
+    policy: DuplicatePolicy = config.DUPLICATE_POLICY
+  ) {
+    this.job = job;
+    this.policy = policy;
+    this.fileMoveService = fileMoveService;
+    this.fileHashService = fileHashService;
+    this.logger = duplicateLogger.child({ job: job.NAME });
+  }
+
+  get enabled(): boolean {
+    return this.policy !== "off";
+  }
+
+  /**
+   * 按文件大小建立分类库索引（同时记录分类库文件的 inode）
+   */
+  buildSizeIndex(knownFileRelPaths: string[]): Map<number, string[]> {
+    const index = new Map<number, string[]>();
+    this.libraryInodes.clear();
+    for (const rel of knownFileRelPaths) {
+      try {
+        const { size, dev, ino } = fs.statSync(path.join(this.job.ROOT_DIR, rel));
+        this.libraryInodes.add(`${dev}:${ino}`);
+        const list = index.get(size);
+        if (list) list.push(rel);
+        else index.set(size, [rel]);
+      } catch {
+        // 扫描后被删除的文件忽略
+      }
+    }
+    return index;
+  }
+
+  /**
+   * 待分类文件是否已是分类库文件的硬链接（hardlink 策略处理过的文件留在待分类目录，之后的运行直接跳过）
+   *
+   * 需先调用 buildSizeIndex。
+   */
+  isLinkedToLibrary(filePath: string): boolean {
+    const { dev, ino } = fs.statSync(filePath);
+    return this.libraryInodes.has(`${dev}:${ino}`);
+  }
+
+  /**
+   * 查找分类库中与待分类文件内容完全相同的文件，返回其相对路径与哈希
+   */
+  async findDuplicate(
+    filePath: string,
+    sizeIndex: Map<number, string[]>
+  ): Promise<{ duplicateOf: string; hash: string } | null> {
+    const { size } = fs.statSync(filePath);
+    const candidates = sizeIndex.get(size);
+    if (!candidates || candidates.length === 0) return null;
+
+    const hash = await this.fileHashService.hashFile(filePath);
+    for (const rel of candidates) {
+      try {
+        const candidateHash = await this.fileHashService.hashFile(path.join(this.job.ROOT_DIR, rel));
+        if (candidateHash === hash) {
+          return { duplicateOf: rel, hash };
+        }
+      } catch (err) {
+        this.logger.warn({ candidate: rel, error: err instanceof Error ? err.message : String(err) }, "计算候选文件哈希失败");
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 只生成处理结果而不执行动作（交互式审核时使用）
+   */
+  preview(filePath: string, duplicate: { duplicateOf: string; hash: string }): DuplicateDecision {
+    return {
+      fileName: path.basename(filePath),
+      filePath,
+      duplicateOf: duplicate.duplicateOf,
+      hash: duplicate.hash,
+      policy: this.policy,
+      action: "skipped",
+    };
+  }
+
+  /**
+   * 按策略处理重复文件
+   */
+  async handle(
+    filePath: string,
+    duplicate: { duplicateOf: string; hash: string },
+    runId: string
+  ): Promise<DuplicateDecision> {
+    const decision = this.preview(filePath, duplicate);
+    const libraryPath = path.join(this.job.ROOT_DIR, duplicate.duplicateOf);
+
+    try {
+      if (config.DRY_RUN) {
+        this.logger.info(`[dry-run] 重复文件 ${filePath} (${this.policy})`);
+      } else if (this.policy === "delete") {
+        fs.unlinkSync(filePath);
+        decision.action = "deleted";
+      } else if (this.policy === "move") {
+        const targetDir = path.resolve(this.job.INCOMING_DIR, config.DUPLICATE_DIR);
+        const finalPath = await this.fileMoveService.moveFile(filePath, targetDir, {
+          runId,
+          job: this.job.NAME,
+          method: "duplicate",
+        });
+        decision.action = "moved";
+        decision.finalPath = finalPath ?? undefined;
+      } else if (this.policy === "hardlink") {
+        decision.action = this.replaceWithHardlink(filePath, libraryPath);
+      }
+    } catch (err) {
+      decision.action = "failed";
+      decision.error = err instanceof Error ? err.message : String(err);
+    }
+
+    // delete 与 hardlink 不写入移动日志：删除的文件无法恢复，硬链接替换后原文件的 inode 也已不存在
+    const irreversible = decision.action === "deleted" || decision.action === "hardlinked";
+    const log = decision.action === "failed" ? this.logger.error.bind(this.logger) : this.logger.info.bind(this.logger);
+    log(
+      {
+        file: decision.fileName,
+        duplicateOf: decision.duplicateOf,
+        hash: decision.hash,
+        policy: decision.policy,
+        action: decision.action,
+        finalPath: decision.finalPath,
+        error: decision.error,
+      },
+      irreversible ? "发现重复文件（该操作不写入移动日志，无法用 --undo 撤销）" : "发现重复文件"
+    );
+    return decision;
+  }
+
+  /**
+   * 用指向分类库文件的硬链接替换待分类文件（先在同目录创建临时链接，再原子替换）
+   */
+  private replaceWithHardlink(filePath: string, libraryPath: string): DuplicateAction {
+    const fileStat = fs.statSync(filePath);
+    const libraryStat = fs.statSync(libraryPath);
+    if (fileStat.ino === libraryStat.ino && fileStat.dev === libraryStat.dev) {
+      return "already_linked";
+    }
+
+    const tempPath = `${filePath}.link-${Date.now()}`;
+    fs.linkSync(libraryPath, tempPath);
+    try {
+      fs.renameSync(tempPath, filePath);
+    } catch (err) {
+      try { fs.unlinkSync(tempPath); } catch {}
+      throw err;
+    }
+    return "hardlinked";
+  }
+}
@@ -0,0 +1,230 @@
+import fs from "node:fs";
+import path from "node:path";
+import { aiLogger } from "../logger.js";
+import { config, JobConfig } from "../config.js";
+import { createEmbeddingProvider, EmbeddingProvider } from "../provider/index.js";
+import { FileInfoService } from "./file-info.service.js";
+import { extensionsCompatible, normalizeName } from "./name-similarity.service.js";
+import { UsageService } from "./usage.service.js";
+
+// 索引条目：文件大小与修改时间变化后重新计算向量
+interface IndexEntry {
+  size: number;
+  mtimeMs: number;
+  vector: string; // 归一化后的 Float32 向量，base64 编码
+}
+
+// 索引文件结构：更换模型后整个索引失效
+interface IndexFile {
+  version: 1;
+  model: string;
+  entries: Record<string, IndexEntry>;
+}
+
+// 语义最相似的分类库文件
+export interface SemanticMatch {
+  relPath: string;
+  dir: string;
+  score: number; // 余弦相似度
+}
+
+/**
+ * 归一化为单位向量，之后余弦相似度即点积
+ */
+export function normalizeVector(vector: number[]): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return Float32Array.from(vector, (value) => value / norm);
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString("base64");
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+/**
+ * 语义相似度索引：为分类库中的文件（文件名加文件描述）计算向量并保存在数据目录，
+ * 待分类文件按同样方式向量化后找出余弦相似度最高的文件。每个任务一个索引文件。
+ *
+ * 索引增量更新：只为新增或变化的文件计算向量，每次运行最多 embeddings.max_new_per_run 个，
+ * 大型分类库的首次建立会分摊到多次运行。
+ */
+export class EmbeddingIndexService {
+  private job: JobConfig;
+  private fileInfoService: FileInfoService;
+  private usage: UsageService | null;
+  private provider: EmbeddingProvider;
+  private indexPath: string;
+  private data: IndexFile | null = null;
+  private vectors = new Map<string, Float32Array>(); // 已解码的向量
+  private logger: typeof aiLogger;
+
+  constructor(
+    job: JobConfig,
+    fileInfoService: FileInfoService,
+    usage: UsageService | null = null,
+    provider: EmbeddingProvider = createEmbeddingProvider(),
+    indexDir: string = path.join(config.DATA_DIR, "embeddings")
+  ) {
+    this.job = job;
+    this.fileInfoService = fileInfoService;
+    this.usage = usage;
+    this.provider = provider;
+    this.indexPath = path.join(indexDir, `${job.NAME}.json`);
+    this.logger = aiLogger.child({ job: job.NAME });
+  }
+
+  private load(): IndexFile {
+    if (this.data) return this.data;
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.indexPath, "utf8"));
+        if (parsed?.version === 1 && parsed.entries && parsed.model === this.provider.model) {
+          this.data = parsed as IndexFile;
+          for (const [relPath, entry] of Object.entries(this.data.entries)) {
+            this.vectors.set(relPath, decodeVector(entry.vector));
+          }
+          return this.data;
+        }
+        this.logger.warn({ indexPath: this.indexPath }, "向量索引格式不兼容或模型已更换，重新建立");
+      }
+    } catch (err) {
+      this.logger.warn({ indexPath: this.indexPath, error: err instanceof Error ? err.message : String(err) }, "读取向量索引失败，重新建立");
+    }
+    this.data = { version: 1, model: this.provider.model, entries: {} };
+    return this.data;
+  }
+
+  /**
+   * 写入索引文件（临时文件 + rename，避免写到一半时损坏）
+   */
+  private save(): void {
+    const data = this.load();
+    fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+    const tempPath = `${this.indexPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data), "utf8");
+    fs.renameSync(tempPath, this.indexPath);
+  }
+
+  // 用于向量化的文本：文件名加文件描述，截断到 embeddings.max_chars
+  private embeddingText(fileName: string, description: string): string {
+    return `${fileName}\n${description}`.slice(0, config.EMBEDDINGS_MAX_CHARS);
+  }
+
+  /**
+   * 分批向量化并记录用量；每批请求前检查预算，已用尽时抛出错误（已完成的批次保留）
+   */
+  private async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i += config.EMBEDDINGS_BATCH_SIZE) {
+      const exceeded = this.usage?.checkBudget();
+      if (exceeded) {
+        throw new Error(`${exceeded.period === "daily" ? "每日" : "每月"} AI 预算已用尽，停止向量化`);
+      }
+      const response = await this.provider.embed(texts.slice(i, i + config.EMBEDDINGS_BATCH_SIZE));
+      this.usage?.record(this.provider.model, response.usage);
+      vectors.push(...response.vectors.map(normalizeVector));
+    }
+    return vectors;
+  }
+
+  /**
+   * 与分类库同步：删除已不存在的文件，为新增或变化的文件计算向量
+   *
+   * knownFiles 为 scanFiles 返回的相对路径。向量化失败时保留已完成的部分，下次运行继续。
+   */
+  async update(knownFiles: string[]): Promise<void> {
+    const data = this.load();
+    const known = new Set(knownFiles);
+    let changed = false;
+    for (const relPath of Object.keys(data.entries)) {
+      if (!known.has(relPath)) {
+        delete data.entries[relPath];
+        this.vectors.delete(relPath);
+        changed = true;
+      }
+    }
+
+    const stale: Array<{ relPath: string; size: number; mtimeMs: number }> = [];
+    for (const relPath of knownFiles) {
+      if (path.basename(relPath).startsWith(".")) continue;
+      try {
+        const stat = fs.statSync(path.join(this.job.ROOT_DIR, relPath));
+        const entry = data.entries[relPath];
+        if (!entry || entry.size !== stat.size || entry.mtimeMs !== stat.mtimeMs) {
+          stale.push({ relPath, size: stat.size, mtimeMs: stat.mtimeMs });
+        }
+      } catch {
+        // 扫描后被移走的文件下次运行再处理
+      }
+    }
+
+    const pending = stale.slice(0, config.EMBEDDINGS_MAX_NEW_PER_RUN);
+    if (pending.length > 0) {
+      this.logger.info(
+        { pending: pending.length, remaining: stale.length - pending.length, indexed: Object.keys(data.entries).length },
+        `更新向量索引，本次计算 ${pending.length} 个文件`
+      );
+    }
+
+    try {
+      for (let i = 0; i < pending.length; i += config.EMBEDDINGS_BATCH_SIZE) {
+        const batch = pending.slice(i, i + config.EMBEDDINGS_BATCH_SIZE);
+        const texts = await Promise.all(
+          batch.map(async ({ relPath }) =>
+            this.embeddingText(
+              path.basename(relPath),
+              await this.fileInfoService.getFileDescription(path.join(this.job.ROOT_DIR, relPath))
+            )
+          )
+        );
+        const vectors = await this.embed(texts);
+        batch.forEach(({ relPath, size, mtimeMs }, index) => {
+          data.entries[relPath] = { size, mtimeMs, vector: encodeVector(vectors[index]) };
+          this.vectors.set(relPath, vectors[index]);
+        });
+        changed = true;
+      }
+    } finally {
+      if (changed) this.save();
+    }
+  }
+
+  /**
+   * 为每个待分类文件找出语义最相似的分类库文件（只比较扩展名兼容的文件，与文件名相似度一致），
+   * 索引为空或没有兼容的文件时返回 null
+   */
+  async findMostSimilar(files: Array<{ fileName: string; description: string }>): Promise<Array<SemanticMatch | null>> {
+    this.load();
+    if (files.length === 0 || this.vectors.size === 0) return files.map(() => null);
+
+    const extensions = new Map<string, string>();
+    for (const relPath of this.vectors.keys()) {
+      extensions.set(relPath, normalizeName(path.basename(relPath)).ext);
+    }
+
+    const queries = await this.embed(files.map((file) => this.embeddingText(file.fileName, file.description)));
+    return queries.map((query, index) => {
+      const ext = normalizeName(files[index].fileName).ext;
+      let best: SemanticMatch | null = null;
+      for (const [relPath, vector] of this.vectors) {
+        if (!extensionsCompatible(ext, extensions.get(relPath)!)) continue;
+        const score = dot(query, vector);
+        if (!best || score > best.score) {
+          best = { relPath, dir: path.dirname(relPath), score };
+        }
+      }
+      return best;
+    });
+  }
+}
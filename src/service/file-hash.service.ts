@@ -0,0 +1,34 @@
+import fs from "node:fs";
+import crypto from "node:crypto";
+
+/**
+ * 文件内容哈希（SHA-256），按路径 + 大小 + 修改时间缓存，文件未变化时不重复计算
+ */
+export class FileHashService {
+  private cache = new Map<string, string>();
+
+  private getCacheKey(filePath: string, stats: fs.Stats): string {
+    return `${filePath}\0${stats.size}\0${stats.mtimeMs}`;
+  }
+
+  /**
+   * 流式计算文件哈希，避免大文件一次性读入内存
+   */
+  async hashFile(filePath: string): Promise<string> {
+    const stats = fs.statSync(filePath);
+    const key = this.getCacheKey(filePath, stats);
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const hash = await new Promise<string>((resolve, reject) => {
+      const hasher = crypto.createHash("sha256");
+      const stream = fs.createReadStream(filePath);
+      stream.on("data", (chunk) => hasher.update(chunk));
+      stream.on("error", reject);
+      stream.on("end", () => resolve(hasher.digest("hex")));
+    });
+
+    this.cache.set(key, hash);
+    return hash;
+  }
+}
@@ -686,6 +686,21 @@ export class FileInfoService {
     };
   }
 
+  /**
+   * 公共方法：读取文件的原始元数据标签（含 MIMEType），读取失败时返回 null
+   */
+  public async getMetadataTags(filePath: string): Promise<Tags | null> {
+    try {
+      return await exiftool.read(filePath);
+    } catch (err) {
+      fileInfoLogger.warn(
+        { file: path.basename(filePath), error: err instanceof Error ? err.message : String(err) },
+        "读取元数据标签失败"
+      );
+      return null;
+    }
+  }
+
   /**
    * 程序退出时关闭 exiftool (异步)
    */
@@ -2,10 +2,22 @@ import fs from "node:fs";
 import path from "node:path";
 import { fileMoveLogger } from "../logger.js";
 import { config } from "../config.js";
+import { MoveJournalService, MoveMethod } from "./move-journal.service.js";
 
-const { FILE_MAX_RETRIES, FILE_RETRY_DELAY_BASE, DRY_RUN } = config;
+// 一次移动的实际结果
+interface MoveOutcome {
+  finalPath: string;
+  renamed: boolean;
+  copied: boolean;
+}
 
 export class FileMoveService {
+  private journal: MoveJournalService;
+
+  constructor(journal: MoveJournalService = new MoveJournalService()) {
+    this.journal = journal;
+  }
+
   /**
    * 确保目录存在，如果不存在则创建
    */
@@ -45,8 +57,8 @@ export class FileMoveService {
       fs.unlinkSync(src);
       return;
     } catch (err: any) {
-      if ((err?.code === "EBUSY" || err?.code === "EACCES" || err?.code === "EPERM") && attempt < FILE_MAX_RETRIES) {
-        const delay = FILE_RETRY_DELAY_BASE * Math.pow(2, attempt - 1);
+      if ((err?.code === "EBUSY" || err?.code === "EACCES" || err?.code === "EPERM") && attempt < config.FILE_MAX_RETRIES) {
+        const delay = config.FILE_RETRY_DELAY_BASE * Math.pow(2, attempt - 1);
         fileMoveLogger.warn({ src, finalPath, attempt, delay, error: err.message }, "源文件占用，等待删除重试");
         await this.sleep(delay);
         return this.unlinkWithRetryRecursive(src, finalPath, attempt + 1);
@@ -86,14 +98,14 @@ export class FileMoveService {
     // 目标若已存在，生成唯一名；随后在同目录下原子 rename 临时文件
     let finalPath = desiredTargetPath;
     if (fs.existsSync(finalPath)) {
-      finalPath = this.generateUniqueTargetPath(targetDir, src);
+      finalPath = this.generateUniqueTargetPath(targetDir, desiredTargetPath);
     }
 
     try {
       fs.renameSync(tempPath, finalPath);
     } catch (e: any) {
       if (e?.code === "EEXIST") {
-        finalPath = this.generateUniqueTargetPath(targetDir, src);
+        finalPath = this.generateUniqueTargetPath(targetDir, desiredTargetPath);
         fs.renameSync(tempPath, finalPath);
       } else {
         try { fs.unlinkSync(tempPath); } catch {}
@@ -110,30 +122,36 @@ export class FileMoveService {
    * 递归移动：rename 优先，EEXIST 唯一名重试，EXDEV 回退复制+删除，
    * 占用类错误递归退避重试，ENOENT 视为已处理。
    */
-  private async attemptMoveRecursive(file: string, targetDir: string, desiredTargetPath: string, attempt: number = 1): Promise<void> {
+  private async attemptMoveRecursive(
+    file: string,
+    targetDir: string,
+    desiredTargetPath: string,
+    attempt: number = 1,
+    renamed: boolean = false
+  ): Promise<MoveOutcome | null> {
     try {
       fs.renameSync(file, desiredTargetPath);
       fileMoveLogger.info({ from: file, to: desiredTargetPath }, "文件已移动");
-      return;
+      return { finalPath: desiredTargetPath, renamed, copied: false };
     } catch (err: any) {
       if (err?.code === "EEXIST") {
-        const uniquePath = this.generateUniqueTargetPath(targetDir, file);
-        return this.attemptMoveRecursive(file, targetDir, uniquePath, attempt);
+        const uniquePath = this.generateUniqueTargetPath(targetDir, desiredTargetPath);
+        return this.attemptMoveRecursive(file, targetDir, uniquePath, attempt, true);
       }
       if (err?.code === "EXDEV") {
         const finalPath = await this.copyThenUnlinkWithFinalize(file, targetDir, desiredTargetPath);
         fileMoveLogger.info({ from: file, to: finalPath }, "文件已移动（跨设备回退复制）");
-        return;
+        return { finalPath, renamed: renamed || finalPath !== desiredTargetPath, copied: true };
       }
       if (err?.code === "ENOENT") {
         fileMoveLogger.warn({ file }, "源文件不存在，跳过移动");
-        return;
+        return null;
       }
-      if ((err?.code === "EBUSY" || err?.code === "EACCES" || err?.code === "EPERM") && attempt < FILE_MAX_RETRIES) {
-        const delay = FILE_RETRY_DELAY_BASE * Math.pow(2, attempt - 1);
-        fileMoveLogger.warn({ file, attempt, maxRetries: FILE_MAX_RETRIES, delay, error: err.message }, "文件被占用，等待重试");
+      if ((err?.code === "EBUSY" || err?.code === "EACCES" || err?.code === "EPERM") && attempt < config.FILE_MAX_RETRIES) {
+        const delay = config.FILE_RETRY_DELAY_BASE * Math.pow(2, attempt - 1);
+        fileMoveLogger.warn({ file, attempt, maxRetries: config.FILE_MAX_RETRIES, delay, error: err.message }, "文件被占用，等待重试");
         await this.sleep(delay);
-        return this.attemptMoveRecursive(file, targetDir, desiredTargetPath, attempt + 1);
+        return this.attemptMoveRecursive(file, targetDir, desiredTargetPath, attempt + 1, renamed);
       }
       fileMoveLogger.error({ file, desiredTargetPath, error: err?.message }, "文件移动失败");
       throw err;
@@ -141,21 +159,67 @@ export class FileMoveService {
   }
 
   /**
-   * 移动文件到目标目录
+   * 移动文件到目标目录，返回最终路径（dry-run 或源文件不存在时返回 null）
+   *
+   * 传入 journal 时，成功的移动会写入该次运行的移动日志，供 --undo 撤销。
+   * 传入 newName 时移动的同时重命名，日志中记录原文件名；新文件名已被占用时使用唯一名。
    */
-  async moveFile(file: string, targetDir: string): Promise<void> {
+  async moveFile(
+    file: string,
+    targetDir: string,
+    journal?: { runId: string; job?: string; method: MoveMethod },
+    newName?: string
+  ): Promise<string | null> {
     // 归一化：若 targetDir 末段等于文件名，剥离末段，避免目录/文件同名嵌套
     const fileBaseName = path.basename(file);
     const targetDirBase = path.basename(targetDir);
     const normalizedTargetDir = targetDirBase === fileBaseName ? path.dirname(targetDir) : targetDir;
-    const targetPath = path.join(normalizedTargetDir, fileBaseName);
+    const rename = newName && newName !== fileBaseName ? newName : undefined;
+    let targetPath = path.join(normalizedTargetDir, rename ?? fileBaseName);
 
-    if (DRY_RUN) {
-      fileMoveLogger.info(`[dry-run] ${file} -> ${targetDir}`);
-      return;
+    if (config.DRY_RUN) {
+      fileMoveLogger.info(`[dry-run] ${file} -> ${rename ? path.join(targetDir, rename) : targetDir}`);
+      return null;
     }
 
     this.ensureDir(normalizedTargetDir);
-    await this.attemptMoveRecursive(file, normalizedTargetDir, targetPath, 1);
+    let renamed = false;
+    if (rename && fs.existsSync(targetPath)) {
+      targetPath = this.generateUniqueTargetPath(normalizedTargetDir, targetPath);
+      renamed = true;
+    }
+    const outcome = await this.attemptMoveRecursive(file, normalizedTargetDir, targetPath, 1, renamed);
+    if (!outcome) return null;
+
+    if (journal) {
+      this.journal.recordMove(journal, file, outcome.finalPath, journal.method, {
+        renamed: outcome.renamed || undefined,
+        copied: outcome.copied || undefined,
+        originalName: rename ? fileBaseName : undefined,
+      });
+    }
+    return outcome.finalPath;
+  }
+
+  /**
+   * 将文件移回指定的完整路径（用于撤销），目标已存在时拒绝覆盖
+   */
+  async restoreFile(from: string, to: string): Promise<void> {
+    if (fs.existsSync(to)) {
+      throw new Error(`目标位置已被占用: ${to}`);
+    }
+
+    const targetDir = path.dirname(to);
+    this.ensureDir(targetDir);
+    try {
+      fs.renameSync(from, to);
+    } catch (err: any) {
+      if (err?.code !== "EXDEV") throw err;
+      const finalPath = await this.copyThenUnlinkWithFinalize(from, targetDir, to);
+      if (finalPath !== to) {
+        throw new Error(`还原时目标位置被并发占用，文件已保存为: ${finalPath}`);
+      }
+    }
+    fileMoveLogger.info({ from, to }, "文件已还原");
   }
 }
@@ -3,8 +3,6 @@ import path from "node:path";
 import { fileScanLogger } from "../logger.js";
 import { config } from "../config.js";
 
-const { MAX_SCAN_DEPTH } = config;
-
 export class FileScanService {
   /**
    * 扫描目录树，返回相对路径的目录列表
@@ -20,7 +18,7 @@ export class FileScanService {
         const stat = fs.statSync(fullPath);
         if (stat.isDirectory()) {
           result.push(relPath + "/");
-          if (depth < MAX_SCAN_DEPTH) {
+          if (depth < config.MAX_SCAN_DEPTH) {
             walk(fullPath, relPath, depth + 1);
           }
         }
@@ -32,7 +30,7 @@ export class FileScanService {
       fileScanLogger.info({
         rootDir,
         dirCount: result.length,
-        maxDepth: MAX_SCAN_DEPTH,
+        maxDepth: config.MAX_SCAN_DEPTH,
       }, `扫描目录结构完成，发现 ${result.length} 个目录`);
     } else {
       fileScanLogger.warn(`根目录不存在: ${rootDir}`);
@@ -53,7 +51,7 @@ export class FileScanService {
         const relPath = path.join(base, entry);
         const stat = fs.statSync(fullPath);
         if (stat.isDirectory()) {
-          if (depth < MAX_SCAN_DEPTH) {
+          if (depth < config.MAX_SCAN_DEPTH) {
             walk(fullPath, relPath, depth + 1);
           }
         } else if (stat.isFile()) {
@@ -67,7 +65,7 @@ export class FileScanService {
       fileScanLogger.info({
         rootDir,
         fileCount: result.length,
-        maxDepth: MAX_SCAN_DEPTH,
+        maxDepth: config.MAX_SCAN_DEPTH,
       }, `扫描文件完成，发现 ${result.length} 个文件`);
     } else {
       fileScanLogger.warn(`根目录不存在: ${rootDir}`);
@@ -0,0 +1,113 @@
+import path from "node:path";
+import { config, JobConfig } from "../config.js";
+import { DirectoryExample } from "../prompt/index.js";
+import { estimateTextTokens } from "../provider/index.js";
+import { isAllowedByTaxonomy } from "./ai-classification.service.js";
+
+// 示例选取的预算
+export interface ExampleBudget {
+  perDir: number; // 每个目录最多示例数，0 表示不提供示例
+  maxDirs: number; // 最多为多少个目录提供示例
+  maxTokens: number; // 全部示例估算的 token 上限
+  include: string[]; // 只为这些目录（及其子目录）提供示例，空表示全部
+  exclude: string[]; // 不为这些目录（及其子目录）提供示例
+}
+
+// 目录是否等于某个前缀或位于其下
+function underAny(dir: string, prefixes: string[]): boolean {
+  return prefixes.some((prefix) => {
+    const normalized = prefix.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+    return dir === normalized || dir.startsWith(`${normalized}/`);
+  });
+}
+
+/**
+ * 在排好序的列表中等间隔取 count 个，结果在多次运行之间保持稳定
+ */
+function spread<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * step)]);
+}
+
+/**
+ * 分类库示例：从分类库已有文件中为每个目录选取少量有代表性的文件名，
+ * 放入 AI 分类提示，让模型参考现有的命名与归类习惯（如发票按年份放在 财务/发票/2024）
+ *
+ * 文件多的目录优先；每个目录内优先覆盖不同扩展名，再按文件名等间隔取样。
+ */
+export class LibraryExamplesService {
+  private job: JobConfig;
+  private budget: ExampleBudget;
+
+  constructor(
+    job: JobConfig,
+    budget: ExampleBudget = {
+      perDir: config.EXAMPLES_PER_DIR,
+      maxDirs: config.EXAMPLES_MAX_DIRS,
+      maxTokens: config.EXAMPLES_MAX_TOKENS,
+      include: config.EXAMPLES_INCLUDE,
+      exclude: config.EXAMPLES_EXCLUDE,
+    }
+  ) {
+    this.job = job;
+    this.budget = budget;
+  }
+
+  /**
+   * 选取示例；knownFiles 为 scanFiles 返回的相对分类库路径，分类库根目录下的文件不作为示例
+   */
+  sample(knownFiles: string[]): DirectoryExample[] {
+    const { perDir, maxDirs, maxTokens, include, exclude } = this.budget;
+    if (perDir <= 0 || maxDirs <= 0) return [];
+
+    const byDir = new Map<string, string[]>();
+    for (const relPath of knownFiles) {
+      const normalized = relPath.replace(/\\/g, "/");
+      const name = path.posix.basename(normalized);
+      const dir = path.posix.dirname(normalized);
+      if (dir === "." || name.startsWith(".")) continue;
+      if (include.length > 0 && !underAny(dir, include)) continue;
+      if (exclude.length > 0 && underAny(dir, exclude)) continue;
+      // 封闭分类体系下只参考允许的目录
+      if (!isAllowedByTaxonomy(dir, this.job.TAXONOMY)) continue;
+      if (!byDir.has(dir)) byDir.set(dir, []);
+      byDir.get(dir)!.push(name);
+    }
+
+    const dirs = [...byDir.entries()].sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+    const examples: DirectoryExample[] = [];
+    let tokens = 0;
+    for (const [dir, names] of dirs) {
+      if (examples.length >= maxDirs) break;
+      const files = this.pick(names, perDir);
+      const cost = estimateTextTokens(`  ${dir}/: ${files.join(", ")}\n`);
+      // 超出预算的目录跳过，继续尝试更小的目录
+      if (maxTokens > 0 && tokens + cost > maxTokens) continue;
+      examples.push({ dir, files });
+      tokens += cost;
+    }
+    return examples;
+  }
+
+  /**
+   * 目录内取样：先为每种扩展名各取一个（取排序后居中的文件），再从剩余文件中等间隔补足
+   */
+  private pick(names: string[], count: number): string[] {
+    const sorted = [...names].sort();
+    const byExt = new Map<string, string[]>();
+    for (const name of sorted) {
+      const ext = path.extname(name).toLowerCase();
+      if (!byExt.has(ext)) byExt.set(ext, []);
+      byExt.get(ext)!.push(name);
+    }
+
+    // 常见扩展名优先
+    const firstOfEach = [...byExt.values()]
+      .sort((a, b) => b.length - a.length)
+      .map((group) => group[Math.floor(group.length / 2)]);
+    const picked = firstOfEach.slice(0, count);
+    const rest = sorted.filter((name) => !picked.includes(name));
+    return [...picked, ...spread(rest, count - picked.length)].sort();
+  }
+}
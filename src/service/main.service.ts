@@ -1,127 +1,302 @@
 import path from "node:path";
-import levenshtein from "fast-levenshtein";
 import { mainLogger } from "../logger.js";
-import { config } from "../config.js";
+import { config, JobConfig } from "../config.js";
 import { FileScanService } from "./file-scan.service.js";
 import { FileMoveService } from "./file-move.service.js";
-import { AIClassificationService } from "./ai-classification.service.js";
+import { AIClassificationService, isAllowedByTaxonomy } from "./ai-classification.service.js";
 import { FileInfoService } from "./file-info.service.js";
+import { createRunId } from "./move-journal.service.js";
+import { RuleEngineService } from "./rule-engine.service.js";
+import { FileHashService } from "./file-hash.service.js";
+import { DuplicateDecision, DuplicateService } from "./duplicate.service.js";
+import { ClassificationCacheService } from "./classification-cache.service.js";
+import { MovePlan, MovePlanEntry, PlanService } from "./plan.service.js";
+import { MoveMethod } from "./move-journal.service.js";
+import { PendingReviewService } from "./pending-review.service.js";
+import { LibraryExamplesService } from "./library-examples.service.js";
+import { EmbeddingIndexService, SemanticMatch } from "./embedding-index.service.js";
+import { VisionService } from "./vision.service.js";
+import { SimilarityIndexService } from "./similarity-index.service.js";
+import { AIRecordingService } from "./ai-recording.service.js";
+import { PromptBuilder } from "../prompt/index.js";
+import { formatCost, UsageService } from "./usage.service.js";
+import { CircuitOpenError } from "../provider/index.js";
 
-const {
-  ROOT_DIR,
-  INCOMING_DIR,
-  SIMILARITY_THRESHOLD,
-  AI_BATCH_SIZE,
-  DRY_RUN,
-} = config;
+// 单次运行选项
+export interface RunOptions {
+  onlyFiles?: string[];
+  excludeFiles?: string[];
+  planOnly?: boolean; // 只生成移动计划，不移动文件（交互式审核使用）
+}
 
 export class MainService {
   private fileScanService: FileScanService;
   private fileMoveService: FileMoveService;
   private aiClassificationService: AIClassificationService;
   private fileInfoService: FileInfoService;
+  private ruleEngineService: RuleEngineService;
+  private fileHashService: FileHashService;
+  private duplicateService: DuplicateService;
+  private classificationCacheService: ClassificationCacheService;
+  private planService: PlanService;
+  private pendingReviewService: PendingReviewService;
+  private usageService: UsageService;
+  private recordingService: AIRecordingService | null;
+  private libraryExamplesService: LibraryExamplesService;
+  private similarityIndexService: SimilarityIndexService;
+  private embeddingIndexService: EmbeddingIndexService | null;
+  private visionService: VisionService | null;
+  private planEntries: MovePlanEntry[] | null = null; // dry-run 时收集的移动计划
   private currentKnownDirs: string[] = []; // 动态维护的已知目录列表
+  private logger: typeof mainLogger;
+  readonly job: JobConfig;
 
-  constructor() {
+  constructor(job: JobConfig = config.JOBS[0]) {
+    this.job = job;
+    this.logger = mainLogger.child({ job: job.NAME });
     this.fileScanService = new FileScanService();
     this.fileMoveService = new FileMoveService();
-    this.aiClassificationService = new AIClassificationService();
+    this.usageService = new UsageService();
+    this.recordingService = config.RECORDING_ENABLED ? new AIRecordingService() : null;
+    this.aiClassificationService = new AIClassificationService(
+      job.OPENAI_MODEL,
+      job.NAME,
+      undefined,
+      PromptBuilder.forJob(job),
+      this.usageService,
+      undefined,
+      this.recordingService
+    );
     this.fileInfoService = new FileInfoService();
+    this.ruleEngineService = new RuleEngineService(undefined, this.fileInfoService);
+    this.fileHashService = new FileHashService();
+    this.duplicateService = new DuplicateService(job, this.fileMoveService, this.fileHashService);
+    this.classificationCacheService = new ClassificationCacheService(job);
+    this.planService = new PlanService(undefined, this.fileHashService);
+    this.pendingReviewService = new PendingReviewService(job, this.fileMoveService);
+    this.libraryExamplesService = new LibraryExamplesService(job);
+    this.similarityIndexService = new SimilarityIndexService(job);
+    this.embeddingIndexService = config.EMBEDDINGS_ENABLED
+      ? new EmbeddingIndexService(job, this.fileInfoService, this.usageService)
+      : null;
+    this.visionService = config.VISION_ENABLED ? new VisionService(this.fileInfoService) : null;
   }
 
   /**
-   * 计算两个文件的相似度
+   * 计算文件哈希，失败时返回 null（不影响分类）
    */
-  private computeSimilarity(a: string, b: string): number {
-    const dist = levenshtein.get(a.toLowerCase(), b.toLowerCase());
-    const maxLen = Math.max(a.length, b.length) || 1;
-    return 1 - dist / maxLen;
+  private async tryHashFile(filePath: string): Promise<string | null> {
+    try {
+      return await this.fileHashService.hashFile(filePath);
+    } catch (err) {
+      this.logger.warn({ err, filePath }, "计算文件哈希失败");
+      return null;
+    }
   }
 
   /**
-   * 找到最相似的文件
+   * dry-run 时记录一条移动计划（失败只告警，不影响预览）
    */
-  private findMostSimilarFile(
-    fileName: string,
-    knownFileRelPaths: string[]
-  ): { bestRelPath: string | null; bestDir: string | null; bestScore: number } {
-    let bestRelPath: string | null = null;
-    let bestDir: string | null = null;
-    let bestScore = -Infinity;
-    
-    for (const rel of knownFileRelPaths) {
-      const base = path.basename(rel);
-      const score = this.computeSimilarity(fileName, base);
-      if (score > bestScore) {
-        bestScore = score;
-        bestRelPath = rel;
-        bestDir = path.dirname(rel);
-      }
+  private async addPlanEntry(
+    filePath: string,
+    targetDir: string,
+    method: MoveMethod,
+    details: Parameters<PlanService["createEntry"]>[3] = {}
+  ): Promise<void> {
+    if (!this.planEntries) return;
+    try {
+      this.planEntries.push(await this.planService.createEntry(filePath, targetDir, method, details));
+    } catch (err) {
+      this.logger.warn({ err, filePath }, "记录移动计划失败");
     }
-    
-    return { bestRelPath, bestDir, bestScore };
   }
 
   /**
-   * 更新已知目录列表，添加新创建的目录
+   * 找到文件名最相似的文件（通过相似度索引，只比较有共同词的文件）
    */
-  private updateKnownDirectories(newDirPath: string): void {
-    const relativeDir = path.relative(ROOT_DIR, newDirPath);
-    if (relativeDir && !this.currentKnownDirs.includes(relativeDir)) {
-      this.currentKnownDirs.push(relativeDir);
-      mainLogger.info({ newDir: relativeDir }, "添加新目录到已知目录列表");
+  private findMostSimilarFile(fileName: string): { bestRelPath: string | null; bestDir: string | null; bestScore: number } {
+    const [best] = this.similarityIndexService.findMostSimilar(fileName);
+    return best
+      ? { bestRelPath: best.relPath, bestDir: best.dir, bestScore: best.score }
+      : { bestRelPath: null, bestDir: null, bestScore: 0 };
+  }
+
+  /**
+   * 语义匹配：更新分类库向量索引后查找最相似的文件；未启用、预算用尽或接口失败时返回空结果
+   */
+  private async findSemanticMatches(
+    files: Array<{ fileName: string; description: string }>,
+    knownFiles: string[]
+  ): Promise<Array<SemanticMatch | null>> {
+    if (!this.embeddingIndexService || files.length === 0 || this.usageService.checkBudget()) {
+      return files.map(() => null);
+    }
+    try {
+      await this.embeddingIndexService.update(knownFiles);
+      return await this.embeddingIndexService.findMostSimilar(files);
+    } catch (err) {
+      this.logger.warn({ error: err instanceof Error ? err.message : String(err) }, "语义匹配失败，交给 AI 分类");
+      return files.map(() => null);
     }
   }
 
   /**
-   * 分批处理工具函数
+   * 更新已知目录列表，添加新创建的目录
    */
-  private chunkArray<T>(array: T[], chunkSize: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += chunkSize) {
-      chunks.push(array.slice(i, i + chunkSize));
+  private updateKnownDirectories(newDirPath: string): void {
+    const relativeDir = path.relative(this.job.ROOT_DIR, newDirPath);
+    if (relativeDir && !this.currentKnownDirs.includes(relativeDir)) {
+      this.currentKnownDirs.push(relativeDir);
+      this.logger.info({ newDir: relativeDir }, "添加新目录到已知目录列表");
     }
-    return chunks;
   }
 
   /**
    * 执行一次完整的分类任务
+   *
+   * 监听模式通过 options 限定处理范围：onlyFiles 仅处理这些文件名，excludeFiles 跳过仍在写入的文件。
+   * dry-run 或 planOnly 时返回本次的移动计划，否则返回 null。
    */
-  async runOnce(): Promise<void> {
-    mainLogger.info(`开始分类任务...${DRY_RUN ? "(dry-run)" : ""}`);
+  async runOnce(options: RunOptions = {}): Promise<MovePlan | null> {
+    const { onlyFiles, excludeFiles, planOnly = false } = options;
+    const { ROOT_DIR, INCOMING_DIR, SIMILARITY_THRESHOLD, AI_BATCH_SIZE } = this.job;
+    const runId = createRunId();
+    this.logger.info({ runId }, `开始分类任务...${config.DRY_RUN ? "(dry-run)" : ""}`);
+    this.planEntries = config.DRY_RUN || planOnly ? [] : null;
+    this.usageService.startRun();
+    this.visionService?.startRun();
+    this.recordingService?.startRun(runId);
+
+    // planOnly 时只记录计划，不实际移动
+    const moveTo = (filePath: string, targetDir: string, method: MoveMethod, newName?: string) =>
+      planOnly
+        ? Promise.resolve(null)
+        : this.fileMoveService.moveFile(filePath, targetDir, { runId, job: this.job.NAME, method }, newName);
 
     // 初始化已知目录列表
     this.currentKnownDirs = this.fileScanService.scanDirs(ROOT_DIR);
-    mainLogger.info({ initialDirCount: this.currentKnownDirs.length }, "初始化已知目录列表");
+    this.logger.info({ initialDirCount: this.currentKnownDirs.length }, "初始化已知目录列表");
 
     const knownFiles = this.fileScanService.scanFiles(ROOT_DIR);
-    const filesToProcess = this.fileScanService.getIncomingFiles(INCOMING_DIR);
+    const incomingFiles = this.fileScanService.getIncomingFiles(INCOMING_DIR);
+    const filesToProcess = incomingFiles.filter(
+      (f) => (!onlyFiles || onlyFiles.includes(f)) && !excludeFiles?.includes(f)
+    );
 
     if (filesToProcess.length === 0) {
-      mainLogger.info("没有需要分类的文件");
-      return;
+      this.logger.info("没有需要分类的文件");
+      this.planEntries = null;
+      return null;
     }
 
-    // 第一步：相似度匹配
+    // 重复文件的处理结果
+    const duplicateDecisions: DuplicateDecision[] = [];
+
+    // 规则命中的文件
+    const ruleResults: Array<{
+      fileName: string;
+      filePath: string;
+      ruleName: string;
+      targetDir: string;
+    }> = [];
+
+    // 相似度匹配的文件（文件名相似或语义相似）
     const similarityResults: Array<{
       fileName: string;
       filePath: string;
       bestDir: string | null;
       bestScore: number;
       similarFile: string | null;
+      semantic: boolean;
     }> = [];
 
-    const needAIClassification: Array<{
+    // 命中分类缓存的文件数
+    let cacheHits = 0;
+
+    // 移入待审核目录的文件数
+    let heldForReview = 0;
+
+    let needAIClassification: Array<{
       fileName: string;
       filePath: string;
       description: string;
+      hash?: string | null;
     }> = [];
 
-    mainLogger.info(`开始相似度匹配，处理 ${filesToProcess.length} 个文件`);
+    // 第一步：重复文件检测（与分类库内容完全相同的文件不再分类）
+    const uniqueFiles: string[] = [];
+    if (this.duplicateService.enabled) {
+      this.logger.info(`开始重复文件检测，处理 ${filesToProcess.length} 个文件`);
+      const sizeIndex = this.duplicateService.buildSizeIndex(knownFiles);
+      for (const f of filesToProcess) {
+        const filePath = path.join(INCOMING_DIR, f);
+        try {
+          if (this.duplicateService.isLinkedToLibrary(filePath)) {
+            this.logger.debug({ fileName: f }, "文件已是分类库文件的硬链接，跳过");
+            continue;
+          }
+          const duplicate = await this.duplicateService.findDuplicate(filePath, sizeIndex);
+          if (duplicate) {
+            const decision = planOnly
+              ? this.duplicateService.preview(filePath, duplicate)
+              : await this.duplicateService.handle(filePath, duplicate, runId);
+            duplicateDecisions.push(decision);
+            if (decision.policy !== "skip") {
+              await this.addPlanEntry(filePath, decision.policy === "move" ? config.DUPLICATE_DIR : "", "duplicate", {
+                duplicateOf: duplicate.duplicateOf,
+                hash: duplicate.hash,
+                policy: decision.policy,
+              });
+            }
+            continue;
+          }
+        } catch (err) {
+          this.logger.warn({ err, fileName: f }, "重复文件检测失败，继续分类");
+        }
+        uniqueFiles.push(f);
+      }
+    } else {
+      uniqueFiles.push(...filesToProcess);
+    }
+
+    // 第二步：规则匹配（优先于相似度与 AI）
+    const remainingFiles: string[] = [];
+    if (this.ruleEngineService.hasRules) {
+      this.logger.info(`开始规则匹配，处理 ${uniqueFiles.length} 个文件`);
+      for (const f of uniqueFiles) {
+        const filePath = path.join(INCOMING_DIR, f);
+        const ruleMatch = await this.ruleEngineService.match(filePath);
+        if (ruleMatch) {
+          ruleResults.push({
+            fileName: f,
+            filePath,
+            ruleName: ruleMatch.rule.name,
+            targetDir: ruleMatch.targetDir,
+          });
+        } else {
+          remainingFiles.push(f);
+        }
+      }
+    } else {
+      remainingFiles.push(...uniqueFiles);
+    }
+
+    // 第三步：相似度匹配（先比较文件名，不足阈值时再做语义匹配）
+    this.logger.info(`开始相似度匹配，处理 ${remainingFiles.length} 个文件`);
+    if (remainingFiles.length > 0) {
+      this.similarityIndexService.update(knownFiles);
+    }
 
-    for (const f of filesToProcess) {
+    const belowThreshold: Array<{
+      fileName: string;
+      filePath: string;
+      description: string;
+      bestRelPath: string | null;
+      bestScore: number;
+    }> = [];
+    for (const f of remainingFiles) {
       const filePath = path.join(INCOMING_DIR, f);
-      const { bestDir, bestRelPath, bestScore } = this.findMostSimilarFile(f, knownFiles);
+      const { bestDir, bestRelPath, bestScore } = this.findMostSimilarFile(f);
       
       if (bestDir && bestScore >= SIMILARITY_THRESHOLD) {
         // 相似度足够，直接分类
@@ -130,10 +305,11 @@ export class MainService {
           filePath,
           bestDir,
           bestScore,
-          similarFile: bestRelPath
+          similarFile: bestRelPath,
+          semantic: false,
         });
         
-        mainLogger.info(
+        this.logger.info(
           {
             file: f,
             similarFile: bestRelPath ? path.basename(bestRelPath) : "未知",
@@ -143,74 +319,213 @@ export class MainService {
           "找到相似文件，使用相似度分类"
         );
       } else {
-        // 相似度不足，需要AI分类
         const description = await this.fileInfoService.getFileDescription(filePath);
-        needAIClassification.push({
+        belowThreshold.push({ fileName: f, filePath, description, bestRelPath, bestScore });
+      }
+    }
+
+    // 文件名相似度不足的文件按文件名与描述做语义匹配；余弦相似度的分布与文件名相似度不同，使用单独的阈值
+    const semanticMatches = await this.findSemanticMatches(belowThreshold, knownFiles);
+    belowThreshold.forEach((candidate, index) => {
+      const { fileName: f, filePath, description, bestRelPath, bestScore } = candidate;
+      const semantic = semanticMatches[index];
+
+      if (semantic && semantic.score >= config.SEMANTIC_SIMILARITY_THRESHOLD) {
+        similarityResults.push({
           fileName: f,
           filePath,
-          description
+          bestDir: semantic.dir,
+          bestScore: semantic.score,
+          similarFile: semantic.relPath,
+          semantic: true,
         });
-        
-        if (bestDir && bestScore > 0) {
-          mainLogger.info(
-            {
-              file: f,
-              similarFile: bestRelPath ? path.basename(bestRelPath) : "未知",
-              similarity: Number(bestScore.toFixed(4)),
-              threshold: SIMILARITY_THRESHOLD,
-            },
-            "相似度不足，将使用 AI 分类"
-          );
-        }
+        this.logger.info(
+          {
+            file: f,
+            similarFile: path.basename(semantic.relPath),
+            similarity: Number(semantic.score.toFixed(4)),
+            targetDir: semantic.dir,
+          },
+          "找到语义相似的文件，使用相似度分类"
+        );
+        return;
+      }
+
+      // 相似度不足，需要AI分类
+      needAIClassification.push({
+        fileName: f,
+        filePath,
+        description
+      });
+      
+      if (bestRelPath && bestScore > 0) {
+        this.logger.info(
+          {
+            file: f,
+            similarFile: path.basename(bestRelPath),
+            similarity: Number(bestScore.toFixed(4)),
+            semanticFile: semantic ? path.basename(semantic.relPath) : undefined,
+            semanticSimilarity: semantic ? Number(semantic.score.toFixed(4)) : undefined,
+            threshold: SIMILARITY_THRESHOLD,
+            semanticThreshold: semantic ? config.SEMANTIC_SIMILARITY_THRESHOLD : undefined,
+          },
+          "相似度不足，将使用 AI 分类"
+        );
+      }
+    });
+
+    // 第四步：处理规则命中的文件
+    for (const result of ruleResults) {
+      try {
+        await this.addPlanEntry(result.filePath, result.targetDir, "rule", { rule: result.ruleName });
+        const targetDir = path.join(ROOT_DIR, result.targetDir);
+        const finalPath = await moveTo(result.filePath, targetDir, "rule");
+
+        // 更新已知目录列表
+        this.updateKnownDirectories(targetDir);
+
+        this.logger.info(
+          {
+            file: result.fileName,
+            from: result.filePath,
+            to: finalPath ?? path.join(targetDir, path.basename(result.filePath)),
+            method: "规则",
+            rule: result.ruleName,
+          },
+          "文件已移动"
+        );
+      } catch (err) {
+        this.logger.error({ err, fileName: result.fileName, rule: result.ruleName }, `规则分类移动文件失败`);
       }
     }
 
-    // 第二步：处理相似度匹配的文件
+    // 第五步：处理相似度匹配的文件
     for (const result of similarityResults) {
       try {
+        await this.addPlanEntry(result.filePath, result.bestDir!, "similarity", {
+          score: Number(result.bestScore.toFixed(4)),
+          similarFile: result.similarFile ?? undefined,
+        });
         const targetDir = path.join(ROOT_DIR, result.bestDir!);
-        await this.fileMoveService.moveFile(result.filePath, targetDir);
+        const finalPath = await moveTo(result.filePath, targetDir, "similarity");
         
         // 更新已知目录列表
         this.updateKnownDirectories(targetDir);
         
-        mainLogger.info(
+        this.logger.info(
           {
             file: result.fileName,
             from: result.filePath,
-            to: path.join(targetDir, path.basename(result.filePath)),
-            method: "相似文件",
+            to: finalPath ?? path.join(targetDir, path.basename(result.filePath)),
+            method: result.semantic ? "语义相似" : "相似文件",
             score: Number(result.bestScore.toFixed(4)),
             similar: result.similarFile || undefined,
           },
           "文件已移动"
         );
       } catch (err) {
-        mainLogger.error({ err, fileName: result.fileName }, `相似度分类移动文件失败`);
+        this.logger.error({ err, fileName: result.fileName }, `相似度分类移动文件失败`);
       }
     }
 
-    // 第三步：分批AI分类剩余文件
+    // 第六步：查询分类缓存，命中且目录仍存在的文件不再调用 AI
+    if (config.CACHE_ENABLED && needAIClassification.length > 0) {
+      const stillNeedAI: typeof needAIClassification = [];
+      for (const fileInfo of needAIClassification) {
+        fileInfo.hash = await this.tryHashFile(fileInfo.filePath);
+        const cached = fileInfo.hash
+          ? this.classificationCacheService.get(fileInfo.hash, fileInfo.fileName)
+          : null;
+        if (!cached) {
+          stillNeedAI.push(fileInfo);
+          continue;
+        }
+        // 启用分类体系前缓存的目录可能已不在允许列表中，重新交给 AI
+        if (!isAllowedByTaxonomy(cached.directory, this.job.TAXONOMY)) {
+          this.logger.debug({ file: fileInfo.fileName, directory: cached.directory }, "缓存的目录不在允许列表中，忽略缓存");
+          stillNeedAI.push(fileInfo);
+          continue;
+        }
+
+        try {
+          const newName = config.NAMING_ENABLED ? cached.newName : undefined;
+          await this.addPlanEntry(fileInfo.filePath, cached.directory, "cache", {
+            hash: fileInfo.hash!,
+            reasoning: cached.reasoning,
+            newName,
+          });
+          const targetDir = path.join(ROOT_DIR, cached.directory);
+          const finalPath = await moveTo(fileInfo.filePath, targetDir, "cache", newName);
+          this.updateKnownDirectories(targetDir);
+          cacheHits++;
+
+          this.logger.info(
+            {
+              file: fileInfo.fileName,
+              from: fileInfo.filePath,
+              to: finalPath ?? path.join(targetDir, newName ?? fileInfo.fileName),
+              method: "分类缓存",
+              cachedFrom: cached.fileName,
+              reasoning: cached.reasoning,
+            },
+            "文件已移动"
+          );
+        } catch (err) {
+          this.logger.error({ err, fileName: fileInfo.fileName }, `分类缓存移动文件失败`);
+        }
+      }
+      this.classificationCacheService.flush();
+      needAIClassification = stillNeedAI;
+    }
+
+    // 第七步：分批AI分类剩余文件
     if (needAIClassification.length > 0) {
       try {
-        mainLogger.info(`开始AI分批分类，总计 ${needAIClassification.length} 个文件，批次大小: ${AI_BATCH_SIZE}`);
-        
-        // 分批处理
-        const batches = this.chunkArray(needAIClassification, AI_BATCH_SIZE);
+        // 分类库中已有文件的示例，帮助 AI 沿用现有的命名与归类习惯
+        const examples = this.libraryExamplesService.sample(knownFiles);
+        if (examples.length > 0) {
+          this.logger.info({ dirs: examples.length }, `已选取 ${examples.length} 个目录的文件示例`);
+        }
+
+        // 按文件数量与估算的提示长度分批
+        const batches = this.aiClassificationService.planBatches(
+          needAIClassification,
+          this.currentKnownDirs,
+          AI_BATCH_SIZE,
+          config.AI_MAX_BATCH_TOKENS,
+          examples
+        );
+        this.logger.info(
+          { batchSizes: batches.map((batch) => batch.length) },
+          `开始AI分批分类，总计 ${needAIClassification.length} 个文件，共 ${batches.length} 批（每批最多 ${AI_BATCH_SIZE} 个文件、约 ${config.AI_MAX_BATCH_TOKENS || "不限"} tokens）`
+        );
+
         let totalProcessed = 0;
-        
-        for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
+        let nextBatch = 0;
+        let stopped = false; // 预算用尽或熔断后不再领取新批次
+
+        const processBatch = async (batchIndex: number): Promise<void> => {
           const batch = batches[batchIndex];
-          mainLogger.info(`处理第 ${batchIndex + 1}/${batches.length} 批次，包含 ${batch.length} 个文件`);
+          this.logger.info(`处理第 ${batchIndex + 1}/${batches.length} 批次，包含 ${batch.length} 个文件`);
           
           try {
+            // 开启图片输入时为图片附上缩略图（每次运行有数量上限）
+            const batchFiles = await Promise.all(
+              batch.map(async (f) => ({
+                fileName: f.fileName,
+                description: f.description,
+                image: await this.visionService?.thumbnailFor(f.filePath),
+              }))
+            );
+
             // 使用当前最新的已知目录列表进行AI分类
             const classificationResults = await this.aiClassificationService.classifyBatch(
-              batch.map(f => ({ fileName: f.fileName, description: f.description })),
-              this.currentKnownDirs
+              batchFiles,
+              this.currentKnownDirs,
+              examples
             );
 
-            mainLogger.info(`第 ${batchIndex + 1} 批次分类完成，处理了 ${classificationResults.length} 个文件`);
+            this.logger.info(`第 ${batchIndex + 1} 批次分类完成，处理了 ${classificationResults.length} 个文件`);
 
             // 处理这个批次的分类结果
             for (let i = 0; i < classificationResults.length; i++) {
@@ -218,7 +533,7 @@ export class MainService {
               const fileInfo = batch.find(f => f.fileName === result.fileName);
               
               if (!fileInfo) {
-                mainLogger.warn(`找不到文件信息: ${result.fileName}`);
+                this.logger.warn(`找不到文件信息: ${result.fileName}`);
                 continue;
               }
 
@@ -228,7 +543,7 @@ export class MainService {
                 // 如果路径为空，使用默认目录
                 if (!targetDir) {
                   targetDir = "未分类";
-                  mainLogger.warn({ fileName: result.fileName }, "AI返回空路径，使用默认目录");
+                  this.logger.warn({ fileName: result.fileName }, "AI返回空路径，使用默认目录");
                 }
                 
                 // 归一化：如果 AI 给的路径末段误含文件名，则剥离
@@ -236,47 +551,171 @@ export class MainService {
                 const fileBase = path.basename(fileInfo.filePath);
                 const normalizedRelTargetDir = givenBase === fileBase ? path.dirname(targetDir) : targetDir;
 
+                // 低置信度或需要新建顶层目录时先移入待审核目录（交互式审核本身就是人工确认，不再转入）
+                const holdReason = planOnly
+                  ? null
+                  : this.pendingReviewService.getHoldReason(normalizedRelTargetDir, result.confidence);
+                if (holdReason && config.DRY_RUN) {
+                  // dry-run 不移动文件，在计划中记录审核原因，执行计划时再移入待审核目录
+                  await this.addPlanEntry(fileInfo.filePath, normalizedRelTargetDir, "review", {
+                    hash: fileInfo.hash ?? undefined,
+                    reasoning: result.reasoning,
+                    confidence: result.confidence,
+                    model: this.job.OPENAI_MODEL,
+                    holdReason,
+                  });
+                  heldForReview++;
+                  this.logger.info(
+                    { file: result.fileName, proposedDir: normalizedRelTargetDir, confidence: result.confidence, reason: holdReason },
+                    "[dry-run] AI 分类需要人工审核"
+                  );
+                  continue;
+                }
+                if (holdReason) {
+                  const heldPath = await this.pendingReviewService.hold(fileInfo.filePath, {
+                    proposedDir: normalizedRelTargetDir,
+                    reasoning: result.reasoning,
+                    confidence: result.confidence,
+                    reason: holdReason,
+                    model: this.job.OPENAI_MODEL,
+                    hash: fileInfo.hash ?? undefined,
+                    runId,
+                  });
+                  heldForReview++;
+                  this.logger.info(
+                    {
+                      file: result.fileName,
+                      proposedDir: normalizedRelTargetDir,
+                      confidence: result.confidence,
+                      reason: holdReason,
+                      to: heldPath ?? undefined,
+                    },
+                    "AI 分类需要人工审核，已移入待审核目录"
+                  );
+                  continue;
+                }
+
+                await this.addPlanEntry(fileInfo.filePath, normalizedRelTargetDir, "ai", {
+                  hash: fileInfo.hash ?? undefined,
+                  reasoning: result.reasoning,
+                  confidence: result.confidence,
+                  newName: result.suggestedName,
+                  model: this.job.OPENAI_MODEL,
+                });
                 const fullTargetDir = path.join(ROOT_DIR, normalizedRelTargetDir);
-                await this.fileMoveService.moveFile(fileInfo.filePath, fullTargetDir);
+                const finalPath = await moveTo(fileInfo.filePath, fullTargetDir, "ai", result.suggestedName);
+
+                // 只缓存实际完成的移动；dry-run 与交互式审核在执行计划时才写入缓存
+                if (finalPath && config.CACHE_ENABLED && fileInfo.hash) {
+                  this.classificationCacheService.set(
+                    fileInfo.hash,
+                    fileInfo.fileName,
+                    normalizedRelTargetDir,
+                    result.reasoning,
+                    this.job.OPENAI_MODEL,
+                    result.suggestedName
+                  );
+                }
                 
                 // 更新已知目录列表
                 this.updateKnownDirectories(fullTargetDir);
                 
-                mainLogger.info(
+                this.logger.info(
                   {
                     file: result.fileName,
                     from: fileInfo.filePath,
-                    to: path.join(fullTargetDir, path.basename(fileInfo.filePath)),
+                    to: finalPath ?? path.join(fullTargetDir, result.suggestedName ?? path.basename(fileInfo.filePath)),
                     method: "ai_batch",
                     batch: `${batchIndex + 1}/${batches.length}`,
                     reasoning: result.reasoning,
+                    confidence: result.confidence,
                   },
                   "文件已移动"
                 );
                 totalProcessed++;
               } catch (err) {
-                mainLogger.error({ err, fileName: result.fileName }, `第 ${batchIndex + 1} 批次文件移动失败`);
+                this.logger.error({ err, fileName: result.fileName }, `第 ${batchIndex + 1} 批次文件移动失败`);
               }
             }
           } catch (err) {
-            mainLogger.error({ err, batchIndex: batchIndex + 1, batchSize: batch.length }, `第 ${batchIndex + 1} 批次AI分类失败`);
+            if (err instanceof CircuitOpenError) {
+              // 熔断：本次运行不再调用 AI，剩余文件留在待分类目录
+              if (!stopped) {
+                stopped = true;
+                this.logger.warn({ retryAt: new Date(err.retryAt).toISOString() }, "AI 服务暂时不可用，跳过本次运行剩余的 AI 分类");
+              }
+              return;
+            }
+            this.logger.error({ err, batchIndex: batchIndex + 1, batchSize: batch.length }, `第 ${batchIndex + 1} 批次AI分类失败`);
             // 继续处理下一批次，不中断整个流程
           }
-          
-          // 批次间稍作延迟，避免API请求过于频繁
-          if (batchIndex < batches.length - 1) {
-            mainLogger.info(`批次间等待 1 秒...`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
+        };
+
+        // 按 ai.concurrency 并行处理批次（请求间隔与速率限制由 RequestScheduler 负责）
+        const worker = async (): Promise<void> => {
+          while (!stopped && nextBatch < batches.length) {
+            const batchIndex = nextBatch++;
+
+            // 预算用尽后不再调用 AI，剩余文件留在待分类目录
+            const exceeded = this.usageService.checkBudget();
+            if (exceeded) {
+              stopped = true;
+              const remaining = batches.slice(batchIndex).reduce((sum, b) => sum + b.length, 0);
+              this.logger.warn(
+                { ...exceeded, remaining },
+                `${exceeded.period === "daily" ? "每日" : "每月"} AI 预算已用尽（${formatCost(exceeded.spent)} / ${formatCost(exceeded.limit)}），停止 AI 分类，剩余 ${remaining} 个文件留在待分类目录`
+              );
+              return;
+            }
+
+            await processBatch(batchIndex);
           }
-        }
+        };
+        await Promise.all(Array.from({ length: Math.min(config.AI_CONCURRENCY, batches.length) }, () => worker()));
         
-        mainLogger.info(`AI分批分类完成，总计处理 ${totalProcessed}/${needAIClassification.length} 个文件`);
+        this.logger.info(`AI分批分类完成，总计处理 ${totalProcessed}/${needAIClassification.length} 个文件`);
       } catch (err) {
-        mainLogger.error({ err }, `AI分批分类过程失败`);
+        this.logger.error({ err }, `AI分批分类过程失败`);
         throw err;
       }
     }
 
-    mainLogger.info(`分类任务完成 - 相似度匹配: ${similarityResults.length} 个, AI分类: ${needAIClassification.length} 个`);
+    if (duplicateDecisions.length > 0) {
+      const actionCounts: Record<string, number> = {};
+      for (const decision of duplicateDecisions) {
+        actionCounts[decision.action] = (actionCounts[decision.action] ?? 0) + 1;
+      }
+      const irreversible = (actionCounts.deleted ?? 0) + (actionCounts.hardlinked ?? 0);
+      this.logger.info(
+        { runId, duplicates: actionCounts },
+        `重复文件处理汇总: ${duplicateDecisions.length} 个${irreversible > 0 ? `，其中 ${irreversible} 个已删除或替换为硬链接，无法撤销` : ""}`
+      );
+    }
+
+    let plan: MovePlan | null = null;
+    if (this.planEntries) {
+      plan = {
+        version: 1,
+        runId,
+        job: this.job.NAME,
+        createdAt: new Date().toISOString(),
+        rootDir: path.resolve(ROOT_DIR),
+        incomingDir: path.resolve(INCOMING_DIR),
+        entries: this.planEntries,
+      };
+      this.planEntries = null;
+      if (config.DRY_RUN) {
+        const planPath = this.planService.write(plan);
+        this.logger.info({ runId, planPath, entries: plan.entries.length }, `已生成移动计划，可使用 --apply ${planPath} 执行`);
+      }
+    }
+
+    const usage = this.usageService.getRunTotals();
+    this.logger.info(
+      { runId, usage },
+      `分类任务完成 - 重复文件: ${duplicateDecisions.length} 个, 规则匹配: ${ruleResults.length} 个, 相似度匹配: ${similarityResults.length} 个, 分类缓存: ${cacheHits} 个, AI分类: ${needAIClassification.length} 个, 待审核: ${heldForReview} 个, ` +
+        `AI 用量: ${usage.requests} 次请求 / ${usage.promptTokens + usage.completionTokens} tokens / 约 ${formatCost(usage.cost)}`
+    );
+    return plan;
   }
 }
@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { fileMoveLogger } from "../logger.js";
+import { config } from "../config.js";
+
+// 移动方式：规则 / 相似度匹配 / 分类缓存 / AI 分类 / 重复文件 / 移入待审核目录 / 审核通过
+export type MoveMethod = "rule" | "similarity" | "cache" | "ai" | "duplicate" | "review" | "approved";
+
+// 日志条目：move 为一次移动，undo 为对某次移动的撤销
+export interface MoveJournalEntry {
+  type: "move" | "undo";
+  runId: string;
+  job?: string; // 所属任务名称
+  timestamp: string;
+  source: string; // 原始绝对路径
+  target: string; // 最终绝对路径（含唯一名、跨设备复制的情况）
+  method: MoveMethod;
+  renamed?: boolean; // 目标冲突，使用了唯一名
+  copied?: boolean; // 跨设备回退复制
+  originalName?: string; // 按 AI 建议重命名时的原文件名，撤销时还原
+}
+
+// 运行摘要
+export interface MoveRunSummary {
+  runId: string;
+  job?: string;
+  startedAt: string;
+  moved: number;
+  undone: number;
+}
+
+/**
+ * 生成运行 ID：时间戳 + 随机后缀，可按字典序排序
+ */
+export function createRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\..+$/, "");
+  return `${timestamp}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+export class MoveJournalService {
+  private journalDir: string;
+
+  constructor(journalDir: string = path.join(config.DATA_DIR, "journal")) {
+    this.journalDir = journalDir;
+  }
+
+  private getRunFile(runId: string): string {
+    return path.join(this.journalDir, `${runId}.jsonl`);
+  }
+
+  /**
+   * 追加一条日志（同步写入，保证进程异常退出时记录不丢失）
+   */
+  append(entry: MoveJournalEntry): void {
+    if (!fs.existsSync(this.journalDir)) {
+      fs.mkdirSync(this.journalDir, { recursive: true });
+    }
+    fs.appendFileSync(this.getRunFile(entry.runId), JSON.stringify(entry) + "\n", "utf8");
+  }
+
+  /**
+   * 记录一次文件移动
+   */
+  recordMove(
+    run: { runId: string; job?: string },
+    source: string,
+    target: string,
+    method: MoveMethod,
+    flags: { renamed?: boolean; copied?: boolean; originalName?: string } = {}
+  ): void {
+    this.append({
+      type: "move",
+      runId: run.runId,
+      job: run.job,
+      timestamp: new Date().toISOString(),
+      source: path.resolve(source),
+      target: path.resolve(target),
+      method,
+      ...flags,
+    });
+  }
+
+  /**
+   * 记录一次撤销
+   */
+  recordUndo(move: MoveJournalEntry): void {
+    this.append({ ...move, type: "undo", timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * 读取某次运行的全部日志条目
+   */
+  readRun(runId: string): MoveJournalEntry[] {
+    const file = this.getRunFile(runId);
+    if (!fs.existsSync(file)) return [];
+
+    const entries: MoveJournalEntry[] = [];
+    const lines = fs.readFileSync(file, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // 进程中断可能留下不完整的末行，跳过
+        fileMoveLogger.warn({ runId, line }, "跳过无法解析的日志行");
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 列出所有运行 ID（从旧到新）
+   */
+  listRunIds(): string[] {
+    if (!fs.existsSync(this.journalDir)) return [];
+    return fs
+      .readdirSync(this.journalDir)
+      .filter((f) => f.endsWith(".jsonl"))
+      .map((f) => f.slice(0, -".jsonl".length))
+      .sort();
+  }
+
+  /**
+   * 获取某次运行中尚未撤销的移动（按移动顺序）
+   */
+  getActiveMoves(runId: string): MoveJournalEntry[] {
+    const entries = this.readRun(runId);
+    const undone = new Set(
+      entries.filter((e) => e.type === "undo").map((e) => `${e.source}\0${e.target}`)
+    );
+    return entries.filter((e) => e.type === "move" && !undone.has(`${e.source}\0${e.target}`));
+  }
+
+  /**
+   * 按文件路径查找最近一次尚未撤销的移动（匹配最终路径或原始路径）
+   */
+  findLatestMove(filePath: string): MoveJournalEntry | null {
+    const resolved = path.resolve(filePath);
+    const runIds = this.listRunIds().reverse();
+    for (const runId of runIds) {
+      const moves = this.getActiveMoves(runId).reverse();
+      const match = moves.find((m) => m.target === resolved) ?? moves.find((m) => m.source === resolved);
+      if (match) return match;
+    }
+    return null;
+  }
+
+  /**
+   * 汇总所有运行
+   */
+  summarizeRuns(): MoveRunSummary[] {
+    return this.listRunIds().map((runId) => {
+      const entries = this.readRun(runId);
+      return {
+        runId,
+        job: entries[0]?.job,
+        startedAt: entries[0]?.timestamp ?? "",
+        moved: entries.filter((e) => e.type === "move").length,
+        undone: entries.filter((e) => e.type === "undo").length,
+      };
+    });
+  }
+}
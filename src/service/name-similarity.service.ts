@@ -0,0 +1,111 @@
+import path from "node:path";
+import levenshtein from "fast-levenshtein";
+import { normalizeCacheName } from "./classification-cache.service.js";
+import { tokenize } from "./dir-retrieval.service.js";
+
+// 日期与时间：20240301、2024-03-01、2024_3_1、20240301_123456、2024年3月1日
+const DATE_PATTERN =
+  /(?<!\d)(19|20)\d{2}([-_.]?)(0?[1-9]|1[0-2])\2(0?[1-9]|[12]\d|3[01])([ _t-]?\d{2}[-_.:]?\d{2}([-_.:]?\d{2})?)?(?!\d)|(19|20)\d{2}年\d{1,2}月(\d{1,2}日)?/gu;
+
+// 版本号：1.2.3、v2.0、v3、2.0.0-beta.1、1.2rc1
+const VERSION_PATTERN = /(?<![\p{L}\d])v?\d+(\.\d+){1,3}([-_.]?(alpha|beta|rc|build|b)\.?\d*)?(?!\d)|(?<![\p{L}\d])v\d+(?![\p{L}\d])/gu;
+
+// 架构等同一软件不同构建之间的差异，不参与比较
+const NOISE_TOKENS = new Set(["x64", "x86", "amd64", "arm64", "aarch64", "i386", "i686", "64bit", "32bit", "universal"]);
+
+// 可以互相匹配的扩展名分组；不在任何分组中的扩展名只与自身匹配
+const EXTENSION_FAMILIES: string[][] = [
+  ["pdf", "doc", "docx", "odt", "rtf", "txt", "md", "pages", "epub", "xls", "xlsx", "ods", "csv", "numbers", "ppt", "pptx", "odp", "key"],
+  ["jpg", "jpeg", "png", "gif", "bmp", "webp", "heic", "heif", "tif", "tiff", "svg", "raw", "cr2", "cr3", "nef", "arw", "dng"],
+  ["mp3", "flac", "wav", "aac", "m4a", "ogg", "opus", "wma"],
+  ["mp4", "mkv", "avi", "mov", "wmv", "flv", "webm", "m4v"],
+  ["zip", "rar", "7z", "tar", "gz", "tgz", "bz2", "xz"],
+  ["exe", "msi", "dmg", "pkg", "deb", "rpm", "apk", "appimage"],
+];
+
+const FAMILY_OF = new Map(EXTENSION_FAMILIES.flatMap((family, index) => family.map((ext) => [ext, index] as const)));
+
+// 模糊匹配的最低相似度：只有足够接近的词（如 invoice / invoices）才算部分相同
+export const FUZZY_TOKEN_RATIO = 0.8;
+
+// 归一化规则的版本，规则变化后已保存的相似度索引失效
+export const NORMALIZER_VERSION = 1;
+
+// 归一化后的文件名
+export interface NormalizedName {
+  tokens: string[]; // 去掉版本号、日期、副本后缀与架构标记后的词
+  ext: string; // 小写、不含 "."
+}
+
+/**
+ * 归一化文件名：去掉 "(1)"、" - 副本"、" copy" 等后缀，版本号、日期与架构标记，再切分为词
+ */
+export function normalizeName(fileName: string): NormalizedName {
+  const normalized = normalizeCacheName(fileName.normalize("NFKC"));
+  const ext = path.extname(normalized);
+  const stem = path
+    .basename(normalized, ext)
+    .replace(/^copy of\s+/, "")
+    .replace(DATE_PATTERN, " ")
+    .replace(VERSION_PATTERN, " ");
+  return {
+    tokens: tokenize(stem).filter((token) => !NOISE_TOKENS.has(token)),
+    ext: ext.slice(1),
+  };
+}
+
+/**
+ * 扩展名是否可以互相匹配：相同，或属于同一类（文档、图片、音频、视频、压缩包、安装包）
+ */
+export function extensionsCompatible(a: string, b: string): boolean {
+  if (a === b) return true;
+  const family = FAMILY_OF.get(a);
+  return family !== undefined && family === FAMILY_OF.get(b);
+}
+
+/**
+ * 词的权重：较长的词更有区分度，纯数字（序号、编号）权重最低
+ */
+export function tokenWeight(token: string): number {
+  return /^\d+$/.test(token) ? 1 : Math.min(token.length, 8);
+}
+
+// tokens 中每个词在 others 中的匹配程度（相同为 1，足够接近时为编辑距离相似度），按权重累加
+function matchedWeight(tokens: Set<string>, others: Set<string>): number {
+  let matched = 0;
+  for (const token of tokens) {
+    if (others.has(token)) {
+      matched += tokenWeight(token);
+      continue;
+    }
+    if (token.length < 4 || /^\d+$/.test(token)) continue;
+    let best = 0;
+    for (const other of others) {
+      const ratio = 1 - levenshtein.get(token, other) / Math.max(token.length, other.length);
+      if (ratio > best) best = ratio;
+    }
+    if (best >= FUZZY_TOKEN_RATIO) matched += tokenWeight(token) * best;
+  }
+  return matched;
+}
+
+/**
+ * 已归一化的两个文件名的相似度（0~1）
+ */
+export function normalizedSimilarity(a: NormalizedName, b: NormalizedName): number {
+  if (!extensionsCompatible(a.ext, b.ext)) return 0;
+  const tokensA = new Set(a.tokens);
+  const tokensB = new Set(b.tokens);
+  // 去掉噪声后没有剩下任何词（如 "a.pdf"、纯日期命名），没有可比较的依据
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const total = [...tokensA, ...tokensB].reduce((sum, token) => sum + tokenWeight(token), 0);
+  return (matchedWeight(tokensA, tokensB) + matchedWeight(tokensB, tokensA)) / total;
+}
+
+/**
+ * 两个文件名的相似度（0~1）：按归一化后的词加权比较，扩展名不兼容时为 0
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return normalizedSimilarity(normalizeName(a), normalizeName(b));
+}
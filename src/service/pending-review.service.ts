@@ -0,0 +1,153 @@
+import fs from "node:fs";
+import path from "node:path";
+import { mainLogger } from "../logger.js";
+import { config, JobConfig } from "../config.js";
+import { FileMoveService } from "./file-move.service.js";
+import { ClassificationCacheService } from "./classification-cache.service.js";
+import { isAllowedByTaxonomy, sanitizeTargetPath } from "./ai-classification.service.js";
+
+const SIDECAR_SUFFIX = ".review.json";
+
+// 移入待审核目录的原因
+export type HoldReason = "low_confidence" | "new_top_level";
+
+// 待审核文件旁的记录文件内容
+export interface PendingReviewRecord {
+  fileName: string; // 原始文件名
+  source: string; // 原始绝对路径
+  proposedDir: string; // AI 建议的目录（相对分类库）
+  reasoning?: string;
+  confidence?: number;
+  reason: HoldReason;
+  model?: string;
+  hash?: string;
+  runId: string;
+  createdAt: string;
+}
+
+// 待审核文件
+export interface PendingReviewItem extends PendingReviewRecord {
+  name: string; // 在待审核目录中的文件名（重名时可能带时间戳）
+  filePath: string;
+  sidecarPath: string;
+}
+
+/**
+ * 待审核目录：低置信度或需要新建顶层目录的 AI 分类先不放入分类库，
+ * 文件与记录文件（<文件名>.review.json）一起放在待分类目录下，经批准或改派后再移动
+ */
+export class PendingReviewService {
+  private job: JobConfig;
+  private fileMoveService: FileMoveService;
+  private reviewDir: string;
+  private logger: typeof mainLogger;
+
+  constructor(job: JobConfig, fileMoveService: FileMoveService = new FileMoveService()) {
+    this.job = job;
+    this.fileMoveService = fileMoveService;
+    this.reviewDir = path.resolve(job.INCOMING_DIR, config.REVIEW_DIR);
+    this.logger = mainLogger.child({ job: job.NAME });
+  }
+
+  /**
+   * 判断 AI 分类结果是否需要人工审核
+   */
+  getHoldReason(relTargetDir: string, confidence: number | undefined): HoldReason | null {
+    if (confidence !== undefined && confidence < config.REVIEW_CONFIDENCE_THRESHOLD) {
+      return "low_confidence";
+    }
+    if (config.REVIEW_NEW_TOP_LEVEL) {
+      const topLevel = relTargetDir.split("/")[0];
+      if (topLevel && !fs.existsSync(path.join(this.job.ROOT_DIR, topLevel))) {
+        return "new_top_level";
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 把文件移入待审核目录并写入记录文件，返回文件在待审核目录中的路径（dry-run 时为 null）
+   */
+  async hold(
+    filePath: string,
+    record: Omit<PendingReviewRecord, "fileName" | "source" | "createdAt">
+  ): Promise<string | null> {
+    const finalPath = await this.fileMoveService.moveFile(filePath, this.reviewDir, {
+      runId: record.runId,
+      job: this.job.NAME,
+      method: "review",
+    });
+    if (!finalPath) return null;
+
+    const fullRecord: PendingReviewRecord = {
+      fileName: path.basename(filePath),
+      source: path.resolve(filePath),
+      ...record,
+      createdAt: new Date().toISOString(),
+    };
+    fs.writeFileSync(finalPath + SIDECAR_SUFFIX, JSON.stringify(fullRecord, null, 2), "utf8");
+    return finalPath;
+  }
+
+  /**
+   * 列出待审核的文件（记录文件存在但文件已被手动移走的会被忽略）
+   */
+  list(): PendingReviewItem[] {
+    if (!fs.existsSync(this.reviewDir)) return [];
+
+    const items: PendingReviewItem[] = [];
+    for (const entry of fs.readdirSync(this.reviewDir)) {
+      if (!entry.endsWith(SIDECAR_SUFFIX)) continue;
+      const sidecarPath = path.join(this.reviewDir, entry);
+      const name = entry.slice(0, -SIDECAR_SUFFIX.length);
+      const filePath = path.join(this.reviewDir, name);
+      if (!fs.existsSync(filePath)) continue;
+
+      try {
+        const record = JSON.parse(fs.readFileSync(sidecarPath, "utf8")) as PendingReviewRecord;
+        items.push({ ...record, name, filePath, sidecarPath });
+      } catch (err) {
+        this.logger.warn({ sidecarPath, error: err instanceof Error ? err.message : String(err) }, "无法读取待审核记录，已跳过");
+      }
+    }
+    return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * 批准待审核文件：移动到建议目录，或传入 targetDir 改派到其他目录，返回最终路径
+   *
+   * 批准后的结果写入分类缓存，相同内容的文件再次出现时直接使用。启用封闭分类体系时，
+   * 目标目录（包括改派的目录）必须在允许列表中，不会因批准而新建列表以外的目录。
+   */
+  async approve(
+    item: PendingReviewItem,
+    runId: string,
+    targetDir?: string,
+    cache?: ClassificationCacheService
+  ): Promise<string | null> {
+    const sanitized = sanitizeTargetPath(targetDir ?? item.proposedDir);
+    if ("error" in sanitized || !sanitized.path) {
+      throw new Error(`目标目录无效: ${"error" in sanitized ? sanitized.error : "不能为空"}`);
+    }
+    if (!isAllowedByTaxonomy(sanitized.path, this.job.TAXONOMY)) {
+      throw new Error(`目标目录 ${sanitized.path} 不在分类体系的允许列表中: ${this.job.TAXONOMY.dirs.join("、")}`);
+    }
+
+    const finalPath = await this.fileMoveService.moveFile(item.filePath, path.join(this.job.ROOT_DIR, sanitized.path), {
+      runId,
+      job: this.job.NAME,
+      method: "approved",
+    });
+    if (!finalPath) return null;
+
+    fs.rmSync(item.sidecarPath, { force: true });
+    if (cache && item.hash) {
+      cache.set(item.hash, item.fileName, sanitized.path, item.reasoning, item.model);
+    }
+    this.logger.info(
+      { file: item.name, to: finalPath, redirected: targetDir !== undefined },
+      targetDir !== undefined ? "待审核文件已改派" : "待审核文件已批准"
+    );
+    return finalPath;
+  }
+}
@@ -0,0 +1,250 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileMoveLogger } from "../logger.js";
+import { config, DuplicatePolicy, JobConfig } from "../config.js";
+import { FileMoveService } from "./file-move.service.js";
+import { FileHashService } from "./file-hash.service.js";
+import { DuplicateService } from "./duplicate.service.js";
+import { ClassificationCacheService } from "./classification-cache.service.js";
+import { isAllowedByTaxonomy, sanitizeTargetPath } from "./ai-classification.service.js";
+import { HoldReason, PendingReviewService } from "./pending-review.service.js";
+import { createRunId, MoveJournalService, MoveMethod } from "./move-journal.service.js";
+
+// 计划中的单个文件
+export interface MovePlanEntry {
+  fileName: string;
+  source: string; // 待分类文件的绝对路径
+  targetDir: string; // 相对分类库的目录（重复文件为相对待分类目录，待审核文件为 AI 建议的目录）
+  method: MoveMethod;
+  hash: string;
+  size: number;
+  mtimeMs: number;
+  score?: number; // 相似度
+  similarFile?: string;
+  rule?: string;
+  reasoning?: string;
+  confidence?: number; // AI 置信度
+  duplicateOf?: string; // 分类库中内容相同的文件（相对路径）
+  policy?: DuplicatePolicy;
+  newName?: string; // AI 建议的新文件名
+  model?: string; // AI 分类使用的模型
+  holdReason?: HoldReason; // 需要人工审核的原因（method 为 review）
+}
+
+// dry-run 生成的移动计划
+export interface MovePlan {
+  version: 1;
+  runId: string;
+  job: string;
+  createdAt: string;
+  rootDir: string;
+  incomingDir: string;
+  entries: MovePlanEntry[];
+}
+
+// 执行计划的结果报告
+export interface PlanApplyReport {
+  runId: string;
+  moved: MovePlanEntry[];
+  changed: MovePlanEntry[]; // 生成计划后内容有变化
+  missing: MovePlanEntry[]; // 文件已不存在
+  failed: Array<{ entry: MovePlanEntry; error: string }>;
+}
+
+// filePath 是否为 dir 本身或位于 dir 之内
+function isSameOrInside(filePath: string, dir: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(filePath));
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+export class PlanService {
+  private planDir: string;
+  private fileHashService: FileHashService;
+
+  constructor(planDir: string = path.join(config.DATA_DIR, "plans"), fileHashService: FileHashService = new FileHashService()) {
+    this.planDir = planDir;
+    this.fileHashService = fileHashService;
+  }
+
+  /**
+   * 读取文件当前状态，生成计划条目
+   */
+  async createEntry(
+    source: string,
+    targetDir: string,
+    method: MoveMethod,
+    details: Partial<Pick<MovePlanEntry, "score" | "similarFile" | "rule" | "reasoning" | "confidence" | "duplicateOf" | "policy" | "hash" | "newName" | "model" | "holdReason">> = {}
+  ): Promise<MovePlanEntry> {
+    const stats = fs.statSync(source);
+    const hash = details.hash ?? (await this.fileHashService.hashFile(source));
+    return {
+      fileName: path.basename(source),
+      source: path.resolve(source),
+      targetDir,
+      method,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      ...details,
+      hash,
+    };
+  }
+
+  /**
+   * 保存计划，返回计划文件路径
+   */
+  write(plan: MovePlan): string {
+    fs.mkdirSync(this.planDir, { recursive: true });
+    const planPath = path.join(this.planDir, `${plan.runId}-${plan.job}.json`);
+    fs.writeFileSync(planPath, JSON.stringify(plan, null, 2), "utf8");
+    return planPath;
+  }
+
+  /**
+   * 读取并检查计划文件
+   */
+  read(planPath: string): MovePlan {
+    let plan: MovePlan;
+    try {
+      plan = JSON.parse(fs.readFileSync(planPath, "utf8"));
+    } catch (err) {
+      throw new Error(`无法读取计划文件 ${planPath}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (plan?.version !== 1 || !Array.isArray(plan.entries) || !plan.rootDir || !plan.incomingDir) {
+      throw new Error(`计划文件格式不正确: ${planPath}`);
+    }
+    return plan;
+  }
+
+  /**
+   * 文件内容是否与计划生成时一致（大小不同直接判定变化，否则比较哈希）
+   */
+  private async isUnchanged(filePath: string, size: number, hash: string): Promise<boolean> {
+    if (fs.statSync(filePath).size !== size) return false;
+    return (await this.fileHashService.hashFile(filePath)) === hash;
+  }
+
+  /**
+   * 校验计划条目的路径，返回错误信息；待分类文件必须位于待分类目录，目标与重复文件必须位于分类库内
+   *
+   * 与正常运行一致，只有 AI 给出的目录（ai、cache、review）受分类体系限制。
+   */
+  private validateEntry(entry: MovePlanEntry, job: JobConfig): string | null {
+    if (!isSameOrInside(entry.source, job.INCOMING_DIR)) {
+      return "待分类文件不在待分类目录中";
+    }
+
+    if (entry.method === "duplicate") {
+      const duplicateOf = sanitizeTargetPath(entry.duplicateOf ?? "");
+      if ("error" in duplicateOf) return `重复文件路径无效: ${duplicateOf.error}`;
+      if (!duplicateOf.path || !isSameOrInside(path.join(job.ROOT_DIR, duplicateOf.path), job.ROOT_DIR)) {
+        return "重复文件不在分类库中";
+      }
+      return null;
+    }
+
+    const sanitized = sanitizeTargetPath(entry.targetDir);
+    if ("error" in sanitized) return `目标目录无效: ${sanitized.error}`;
+    if (!isSameOrInside(path.join(job.ROOT_DIR, sanitized.path), job.ROOT_DIR)) {
+      return "目标目录不在分类库中";
+    }
+    if (["ai", "cache", "review"].includes(entry.method) && !isAllowedByTaxonomy(sanitized.path, job.TAXONOMY)) {
+      return "目标目录不在分类体系的允许列表中";
+    }
+    return null;
+  }
+
+  /**
+   * 严格按计划执行移动，不再调用规则、相似度或 AI；生成计划后有变化的文件会被跳过
+   *
+   * AI 分类的条目移动成功后写入分类缓存，目录以计划中（可能经审核修改）的为准；
+   * 需要人工审核的条目移入待审核目录。计划文件可能被手动修改，目录与任务配置不一致时拒绝整个计划，
+   * 目标目录无效、不在分类体系内或超出分类库的条目记为失败。
+   */
+  async apply(plan: MovePlan, job: JobConfig): Promise<PlanApplyReport> {
+    if (path.resolve(plan.rootDir) !== path.resolve(job.ROOT_DIR) || path.resolve(plan.incomingDir) !== path.resolve(job.INCOMING_DIR)) {
+      throw new Error(`计划文件的目录与任务 ${job.NAME} 的配置不一致`);
+    }
+
+    const runId = createRunId();
+    const report: PlanApplyReport = { runId, moved: [], changed: [], missing: [], failed: [] };
+    const fileMoveService = new FileMoveService(new MoveJournalService());
+    const classificationCache = config.CACHE_ENABLED ? new ClassificationCacheService(job) : null;
+    const logger = fileMoveLogger.child({ job: plan.job, runId });
+
+    logger.info({ plan: plan.runId, entries: plan.entries.length }, "开始执行移动计划");
+
+    for (const entry of plan.entries) {
+      const invalid = this.validateEntry(entry, job);
+      if (invalid) {
+        logger.warn({ file: entry.source, targetDir: entry.targetDir, error: invalid }, "计划条目无效，跳过");
+        report.failed.push({ entry, error: invalid });
+        continue;
+      }
+
+      if (!fs.existsSync(entry.source)) {
+        logger.warn({ file: entry.source }, "文件已不存在，跳过");
+        report.missing.push(entry);
+        continue;
+      }
+
+      try {
+        if (!(await this.isUnchanged(entry.source, entry.size, entry.hash))) {
+          logger.warn({ file: entry.source }, "文件在生成计划后已变化，跳过");
+          report.changed.push(entry);
+          continue;
+        }
+
+        if (entry.method === "duplicate") {
+          // 重复文件还需确认分类库中的对应文件未变化
+          const libraryPath = path.join(job.ROOT_DIR, entry.duplicateOf!);
+          if (!fs.existsSync(libraryPath) || (await this.fileHashService.hashFile(libraryPath)) !== entry.hash) {
+            logger.warn({ file: entry.source, duplicateOf: entry.duplicateOf }, "分类库中的重复文件已变化，跳过");
+            report.changed.push(entry);
+            continue;
+          }
+          const duplicateService = new DuplicateService(job, fileMoveService, this.fileHashService, entry.policy);
+          const decision = await duplicateService.handle(entry.source, { duplicateOf: entry.duplicateOf!, hash: entry.hash }, runId);
+          if (decision.action === "failed") throw new Error(decision.error);
+        } else if (entry.method === "review") {
+          const pendingReviewService = new PendingReviewService(job, fileMoveService);
+          const heldPath = await pendingReviewService.hold(entry.source, {
+            proposedDir: entry.targetDir,
+            reasoning: entry.reasoning,
+            confidence: entry.confidence,
+            reason: entry.holdReason ?? "low_confidence",
+            model: entry.model,
+            hash: entry.hash,
+            runId,
+          });
+          if (!heldPath) throw new Error("移入待审核目录失败");
+        } else {
+          const finalPath = await fileMoveService.moveFile(
+            entry.source,
+            path.join(job.ROOT_DIR, entry.targetDir),
+            { runId, job: plan.job, method: entry.method },
+            entry.newName
+          );
+          if (finalPath && entry.method === "ai") {
+            classificationCache?.set(entry.hash, entry.fileName, entry.targetDir, entry.reasoning, entry.model, entry.newName);
+          }
+        }
+        report.moved.push(entry);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        logger.error({ file: entry.source, error }, "按计划移动文件失败");
+        report.failed.push({ entry, error });
+      }
+    }
+
+    logger.info(
+      {
+        moved: report.moved.length,
+        changed: report.changed.length,
+        missing: report.missing.length,
+        failed: report.failed.length,
+      },
+      "移动计划执行完成"
+    );
+    return report;
+  }
+}
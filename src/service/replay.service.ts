@@ -0,0 +1,251 @@
+import path from "node:path";
+import { JobConfig } from "../config.js";
+import {
+  ClassificationItem,
+  ClassificationRequest,
+  ClassificationResponse,
+  LLMProvider,
+  ResponseParseError,
+} from "../provider/index.js";
+import { PromptBuilder } from "../prompt/index.js";
+import { AIClassificationService, reconcileClassifications } from "./ai-classification.service.js";
+import { AIExchangeRecord } from "./ai-recording.service.js";
+
+// 逐行比较的最大规模（行数乘积），超出时整段视为替换
+const MAX_DIFF_CELLS = 1_000_000;
+
+// 一个文件的分类结果：目标目录（相对分类库）与建议的新文件名
+export interface ReplayOutcome {
+  dir: string;
+  newName?: string;
+}
+
+// 回放时实际发出的请求与录制的对比
+export interface ReplayComparison {
+  fileNames: string[];
+  recordedModel: string;
+  model: string;
+  systemChanged: boolean;
+  userChanged: boolean;
+  diff: string[]; // 提示的逐行差异（"- " 为录制时，"+ " 为当前）
+}
+
+export interface ReplayFileResult {
+  fileName: string;
+  recorded: ReplayOutcome | null; // 录制时的结果，null 表示当时没有有效结果
+  replayed: ReplayOutcome | null;
+}
+
+export interface ReplayReport {
+  runId: string;
+  job: string;
+  exchanges: number; // 录制的请求数
+  comparisons: ReplayComparison[];
+  unmatched: number; // 没有对应录制、按文件名拼出响应的请求数
+  files: ReplayFileResult[];
+}
+
+// 文件名比较时忽略 Unicode 组合形式与首尾空白（与结果核对一致）
+function normalizeFileName(fileName: string): string {
+  return fileName.normalize("NFC").trim();
+}
+
+function batchKey(fileNames: string[]): string {
+  return fileNames.map(normalizeFileName).sort().join("\0");
+}
+
+/**
+ * 与主流程一致的目标目录：空路径归入"未分类"，末段误含文件名时剥离
+ */
+function outcomeOf(item: ClassificationItem): ReplayOutcome {
+  const dir = item.path.trim() || "未分类";
+  return { dir: path.basename(dir) === item.fileName ? path.dirname(dir) : dir, newName: item.suggestedName };
+}
+
+export function isSameOutcome(a: ReplayOutcome | null, b: ReplayOutcome | null): boolean {
+  return a?.dir === b?.dir && a?.newName === b?.newName;
+}
+
+/**
+ * 逐行比较两段文本，只返回变化的行："- " 为删除，"+ " 为新增
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // 去掉相同的开头与结尾，缩小比较范围
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const x = a.slice(start, endA);
+  const y = b.slice(start, endB);
+  if (x.length * y.length > MAX_DIFF_CELLS) {
+    return [...x.map((line) => `- ${line}`), ...y.map((line) => `+ ${line}`)];
+  }
+
+  // 最长公共子序列
+  const lcs = Array.from({ length: x.length + 1 }, () => new Array<number>(y.length + 1).fill(0));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i][j] = x[i] === y[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < x.length && j < y.length) {
+    if (x[i] === y[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${x[i++]}`);
+    } else {
+      lines.push(`+ ${y[j++]}`);
+    }
+  }
+  while (i < x.length) lines.push(`- ${x[i++]}`);
+  while (j < y.length) lines.push(`+ ${y[j++]}`);
+  return lines;
+}
+
+/**
+ * 按录制结果应答的提供方，不发出任何网络请求
+ *
+ * 请求的文件组合与某条录制相同时按录制顺序返回该录制（包括当时的错误），并记录提示与模型的差异；
+ * 组合不同时（如拆分批次的方式变化）按文件名拼出录制中的结果。
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = "replay";
+  readonly comparisons: ReplayComparison[] = [];
+  unmatched = 0;
+  private queues = new Map<string, AIExchangeRecord[]>();
+  private itemsByFile = new Map<string, ClassificationItem>();
+
+  constructor(records: AIExchangeRecord[]) {
+    for (const record of records) {
+      const key = batchKey(record.files.map((file) => file.fileName));
+      this.queues.set(key, [...(this.queues.get(key) ?? []), record]);
+      for (const item of record.items) {
+        const name = normalizeFileName(String(item.fileName ?? ""));
+        if (!this.itemsByFile.has(name)) this.itemsByFile.set(name, item);
+      }
+    }
+  }
+
+  async classifyBatch(request: ClassificationRequest): Promise<ClassificationResponse> {
+    const record = this.queues.get(batchKey(request.fileNames))?.shift();
+    if (!record) {
+      this.unmatched++;
+      const items = request.fileNames.flatMap((fileName) => {
+        const item = this.itemsByFile.get(normalizeFileName(fileName));
+        return item ? [{ ...item, fileName }] : [];
+      });
+      if (items.length === 0) {
+        throw new Error(`没有这些文件的录制响应: ${request.fileNames.join(", ")}`);
+      }
+      return { items };
+    }
+
+    const systemChanged = record.systemPrompt !== request.systemPrompt;
+    const userChanged = record.userPrompt !== request.userPrompt;
+    this.comparisons.push({
+      fileNames: request.fileNames,
+      recordedModel: record.model,
+      model: request.model,
+      systemChanged,
+      userChanged,
+      diff: [
+        ...(systemChanged ? diffLines(record.systemPrompt, request.systemPrompt) : []),
+        ...(userChanged ? diffLines(record.userPrompt, request.userPrompt) : []),
+      ],
+    });
+
+    if (record.error) {
+      if (record.error.name === "ResponseParseError") throw new ResponseParseError(record.error.message);
+      const error = new Error(record.error.message);
+      error.name = record.error.name;
+      throw error;
+    }
+    return { items: record.items, usage: record.usage };
+  }
+}
+
+/**
+ * 录制时每个文件的最终结果：按请求顺序核对（使用当时的分类体系），先得到有效结果的请求为准
+ */
+export function recordedOutcomes(records: AIExchangeRecord[]): Map<string, ReplayOutcome> {
+  const outcomes = new Map<string, ReplayOutcome>();
+  for (const record of records) {
+    if (record.error) continue;
+    const result = reconcileClassifications(
+      record.files.map((file) => file.fileName),
+      record.items,
+      record.taxonomy
+    );
+    for (const item of result.accepted) {
+      if (!outcomes.has(item.fileName)) outcomes.set(item.fileName, outcomeOf(item));
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * 离线回放：用当前的提示模板、模型设置与分类体系重新走一遍 AI 分类的决策流程
+ * （分批拆分、遗漏追加、结果核对、文件名校验），AI 的回答取自录制，与录制时的结果对比
+ */
+export class ReplayService {
+  private job: JobConfig;
+
+  constructor(job: JobConfig) {
+    this.job = job;
+  }
+
+  async replay(records: AIExchangeRecord[]): Promise<ReplayReport> {
+    const provider = new ReplayProvider(records);
+    const service = new AIClassificationService(
+      this.job.OPENAI_MODEL,
+      this.job.NAME,
+      provider,
+      PromptBuilder.forJob(this.job)
+    );
+
+    // 按录制顺序重放首轮请求；拆分出的子批次与追加请求由分类服务自行发出
+    const replayed = new Map<string, ReplayOutcome>();
+    const covered = new Set<string>();
+    for (const record of records) {
+      if (record.followUp || record.files.some((file) => covered.has(file.fileName))) continue;
+      record.files.forEach((file) => covered.add(file.fileName));
+      try {
+        const items = await service.classifyBatch(
+          record.files.map(({ fileName, description }) => ({ fileName, description })),
+          record.dirs,
+          record.examples
+        );
+        items.forEach((item) => replayed.set(item.fileName, outcomeOf(item)));
+      } catch {
+        // 整批没有结果，与录制时的结果对比即可看出
+      }
+    }
+
+    const recorded = recordedOutcomes(records);
+    const fileNames = [...new Set(records.flatMap((record) => record.files.map((file) => file.fileName)))];
+    return {
+      runId: records[0]?.runId ?? "",
+      job: this.job.NAME,
+      exchanges: records.length,
+      comparisons: provider.comparisons,
+      unmatched: provider.unmatched,
+      files: fileNames.map((fileName) => ({
+        fileName,
+        recorded: recorded.get(fileName) ?? null,
+        replayed: replayed.get(fileName) ?? null,
+      })),
+    };
+  }
+}
@@ -0,0 +1,239 @@
+import path from "node:path";
+import readline from "node:readline";
+import { MovePlan, MovePlanEntry } from "./plan.service.js";
+import { MoveMethod } from "./move-journal.service.js";
+
+const METHOD_LABELS: Record<MoveMethod, string> = {
+  rule: "规则",
+  similarity: "相似文件",
+  cache: "分类缓存",
+  ai: "AI",
+  duplicate: "重复文件",
+  review: "待审核",
+  approved: "审核通过",
+};
+
+// 审核结果统计
+export interface ReviewSummary {
+  accepted: number;
+  edited: number;
+  skipped: number;
+}
+
+/**
+ * 校验手动输入的目标目录：必须是分类库内的相对路径
+ */
+export function normalizeReviewDir(input: string): string | null {
+  const dir = input.trim().replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+  if (!dir || path.isAbsolute(input.trim())) return null;
+  if (dir.split("/").some((segment) => segment === ".." || segment === ".")) return null;
+  return dir;
+}
+
+/**
+ * 终端交互式审核：逐个展示拟移动的文件，由用户接受、修改目标目录或跳过
+ */
+export class ReviewService {
+  private knownDirs: string[] = [];
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private rl: readline.Interface | null = null;
+  private closed = false;
+  private lines: string[] = []; // 尚未被读取的输入行（通过管道输入时会一次到达多行）
+  private waiting: ((line: string | null) => void) | null = null;
+  private completing = false; // 仅在输入目录时启用补全
+
+  constructor(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout) {
+    this.input = input;
+    this.output = output;
+  }
+
+  /**
+   * 创建终端交互接口（多个任务共用同一个，避免重复读取标准输入）
+   */
+  private open(): readline.Interface {
+    if (!this.rl) {
+      this.rl = readline.createInterface({
+        input: this.input,
+        output: this.output,
+        completer: (line: string) => this.complete(line),
+      });
+      this.closed = false;
+      this.rl.on("line", (line) => {
+        const waiting = this.waiting;
+        this.waiting = null;
+        if (waiting) waiting(line);
+        else this.lines.push(line);
+      });
+      this.rl.once("close", () => {
+        this.closed = true;
+        this.waiting?.(null);
+        this.waiting = null;
+      });
+    }
+    return this.rl;
+  }
+
+  private print(line = ""): void {
+    this.output.write(`${line}\n`);
+  }
+
+  /**
+   * 目录补全：匹配以输入内容开头的已知目录（忽略大小写）
+   */
+  private complete(line: string): [string[], string] {
+    if (!this.completing) return [[], line];
+    const lowered = line.toLowerCase();
+    const hits = this.knownDirs.filter((dir) => dir.toLowerCase().startsWith(lowered));
+    return [hits, line];
+  }
+
+  /**
+   * 提问并等待输入；输入流结束时返回 null
+   */
+  private ask(query: string): Promise<string | null> {
+    if (this.lines.length > 0) {
+      this.output.write(`${query}${this.lines[0]}\n`);
+      return Promise.resolve(this.lines.shift()!);
+    }
+    if (this.closed) return Promise.resolve(null);
+
+    const rl = this.open();
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+      rl.setPrompt(query);
+      rl.prompt();
+    });
+  }
+
+  private describe(entry: MovePlanEntry, index: number, total: number): void {
+    this.print();
+    this.print(`[${index + 1}/${total}] ${entry.fileName}`);
+    if (entry.method === "duplicate") {
+      const action = entry.policy === "move" ? `移动到待分类目录下的 ${entry.targetDir}` : entry.policy;
+      this.print(`  方式: ${METHOD_LABELS[entry.method]}（与 ${entry.duplicateOf} 内容相同，${action}）`);
+      return;
+    }
+    this.print(`  方式: ${METHOD_LABELS[entry.method]}${entry.rule ? ` - ${entry.rule}` : ""}`);
+    this.print(`  目标: ${entry.targetDir}`);
+    if (entry.newName) {
+      this.print(`  新文件名: ${entry.newName}`);
+    }
+    if (entry.score !== undefined) {
+      this.print(`  相似度: ${entry.score}${entry.similarFile ? `（${entry.similarFile}）` : ""}`);
+    }
+    if (entry.confidence !== undefined) {
+      this.print(`  置信度: ${Math.round(entry.confidence * 100)}%`);
+    }
+    if (entry.reasoning) {
+      this.print(`  理由: ${entry.reasoning}`);
+    }
+  }
+
+  /**
+   * 输入新的目标目录，留空表示不修改
+   */
+  private async askDirectory(current: string): Promise<string | null> {
+    this.completing = true;
+    try {
+      while (true) {
+        const answer = await this.ask(`  新目录（Tab 补全，留空保持 ${current}）: `);
+        if (answer === null) return null;
+        if (!answer.trim()) return current;
+        const dir = normalizeReviewDir(answer);
+        if (dir) return dir;
+        this.print("  目录无效：请输入分类库内的相对路径，不能包含 .. 或以 / 开头");
+      }
+    } finally {
+      this.completing = false;
+    }
+  }
+
+  /**
+   * 逐个审核计划条目，返回只包含已批准条目（目标目录可能已修改）的新计划
+   *
+   * knownDirs 为分类库中的已有目录，用于修改目录时补全。
+   */
+  async review(plan: MovePlan, knownDirs: string[]): Promise<{ plan: MovePlan; summary: ReviewSummary }> {
+    const summary: ReviewSummary = { accepted: 0, edited: 0, skipped: 0 };
+    const approved: MovePlanEntry[] = [];
+    // scanDirs 返回的目录带有末尾的 "/"
+    this.knownDirs = [...new Set(knownDirs.map((dir) => dir.replace(/\/+$/, "")))].sort();
+
+    try {
+      this.print(`任务 ${plan.job}：共 ${plan.entries.length} 个待审核的移动`);
+      let acceptRest = false;
+
+      for (let i = 0; i < plan.entries.length; i++) {
+        const entry = plan.entries[i];
+        if (acceptRest) {
+          approved.push(entry);
+          summary.accepted++;
+          continue;
+        }
+
+        this.describe(entry, i, plan.entries.length);
+        const canEdit = entry.method !== "duplicate";
+        const options = canEdit
+          ? "[a]接受 [e]修改目录 [s]跳过 [A]接受剩余全部 [q]跳过剩余全部"
+          : "[a]接受 [s]跳过 [A]接受剩余全部 [q]跳过剩余全部";
+
+        let handled = false;
+        while (!handled) {
+          const answer = await this.ask(`  ${options}（默认 a）: `);
+          // 输入流结束（如 Ctrl+D）视为跳过剩余全部
+          const choice = answer === null ? "q" : answer.trim() || "a";
+          handled = true;
+
+          if (choice === "a") {
+            approved.push(entry);
+            summary.accepted++;
+          } else if (choice === "e" && canEdit) {
+            const dir = await this.askDirectory(entry.targetDir);
+            if (dir === null) {
+              summary.skipped += plan.entries.length - i;
+              return { plan: { ...plan, entries: approved }, summary };
+            }
+            if (dir === entry.targetDir) {
+              summary.accepted++;
+            } else {
+              summary.edited++;
+            }
+            approved.push({ ...entry, targetDir: dir });
+          } else if (choice === "s") {
+            summary.skipped++;
+          } else if (choice === "A") {
+            approved.push(entry);
+            summary.accepted++;
+            acceptRest = true;
+          } else if (choice === "q") {
+            summary.skipped += plan.entries.length - i;
+            return { plan: { ...plan, entries: approved }, summary };
+          } else {
+            this.print("  无效的选项");
+            handled = false;
+          }
+        }
+      }
+
+      return { plan: { ...plan, entries: approved }, summary };
+    } finally {
+      this.print();
+      this.print(`审核完成：接受 ${summary.accepted} 个，修改 ${summary.edited} 个，跳过 ${summary.skipped} 个`);
+    }
+  }
+
+  /**
+   * 执行前的最终确认
+   */
+  async confirm(count: number): Promise<boolean> {
+    const answer = await this.ask(`确认执行 ${count} 个移动？[y/N]: `);
+    return answer !== null && ["y", "yes"].includes(answer.trim().toLowerCase());
+  }
+
+  close(): void {
+    this.rl?.close();
+    this.rl = null;
+    this.closed = true;
+  }
+}
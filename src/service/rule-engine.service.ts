@@ -0,0 +1,215 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Tags } from "exiftool-vendored";
+import { ruleLogger } from "../logger.js";
+import { config, RuleConfig } from "../config.js";
+import { FileInfoService } from "./file-info.service.js";
+import { sanitizeTargetPath } from "./ai-classification.service.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+// 规则命中结果
+export interface RuleMatch {
+  rule: RuleConfig;
+  targetDir: string; // 渲染后的相对目录
+}
+
+/**
+ * 解析大小配置：数字为字节数，字符串支持 "512KB"、"1.5 GB" 等
+ */
+export function parseSize(value: number | string): number {
+  if (typeof value === "number") return value;
+  const match = value.trim().toUpperCase().match(/^(\d+(?:\.\d+)?)\s*([KMGT]?B)?$/);
+  if (!match) {
+    throw new Error(`无效的大小: ${value}`);
+  }
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] ?? "B"]);
+}
+
+/**
+ * 将通配符转换为正则（支持 * ? 与 {a,b}），大小写不敏感
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let inGroup = false;
+  for (const char of glob) {
+    if (char === "*") source += ".*";
+    else if (char === "?") source += ".";
+    else if (char === "{") {
+      source += "(?:";
+      inGroup = true;
+    } else if (char === "}" && inGroup) {
+      source += ")";
+      inGroup = false;
+    } else if (char === "," && inGroup) source += "|";
+    else source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * 匹配单个期望值：形如 "/.../flags" 的字符串按正则处理，否则忽略大小写精确比较
+ */
+function matchValue(expected: string | number, actual: unknown): boolean {
+  if (actual == null) return false;
+  const actualString = String(actual).trim();
+  if (typeof expected === "string") {
+    const regexMatch = expected.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(actualString);
+    }
+  }
+  return actualString.toLowerCase() === String(expected).trim().toLowerCase();
+}
+
+export class RuleEngineService {
+  private rules: RuleConfig[];
+  private fileInfoService: FileInfoService;
+
+  constructor(rules: RuleConfig[] = config.RULES, fileInfoService: FileInfoService = new FileInfoService()) {
+    // 按优先级降序排列，相同优先级保持声明顺序（Array.sort 为稳定排序）
+    this.rules = [...rules].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    this.fileInfoService = fileInfoService;
+  }
+
+  get hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * 规则是否需要读取元数据（MIME 或 EXIF）
+   */
+  private needsMetadata(rule: RuleConfig): boolean {
+    return Boolean(rule.match.mime || (rule.match.exif && Object.keys(rule.match.exif).length > 0));
+  }
+
+  /**
+   * 判断文件是否满足规则的全部条件
+   */
+  private matchesRule(
+    rule: RuleConfig,
+    fileName: string,
+    stats: fs.Stats,
+    tags: Tags | null
+  ): boolean {
+    const { match } = rule;
+    const ext = path.extname(fileName).toLowerCase();
+
+    if (match.extensions && match.extensions.length > 0) {
+      const extensions = match.extensions.map((e) => (e.startsWith(".") ? e : `.${e}`).toLowerCase());
+      if (!extensions.includes(ext)) return false;
+    }
+    if (match.glob && !globToRegExp(match.glob).test(fileName)) return false;
+    if (match.name_regex && !new RegExp(match.name_regex, "i").test(fileName)) return false;
+    if (match.size_min != null && stats.size < parseSize(match.size_min)) return false;
+    if (match.size_max != null && stats.size > parseSize(match.size_max)) return false;
+
+    const ageDays = (Date.now() - stats.mtimeMs) / DAY_MS;
+    if (match.age_min_days != null && ageDays < match.age_min_days) return false;
+    if (match.age_max_days != null && ageDays > match.age_max_days) return false;
+
+    if (match.mime) {
+      const mime = String((tags as any)?.MIMEType ?? "").toLowerCase();
+      const expected = match.mime.toLowerCase();
+      const ok = expected.endsWith("/*")
+        ? mime.startsWith(expected.slice(0, -1))
+        : mime === expected;
+      if (!ok) return false;
+    }
+    if (match.exif) {
+      for (const [tag, expected] of Object.entries(match.exif)) {
+        if (!matchValue(expected, (tags as any)?.[tag])) return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 渲染目标目录模板
+   *
+   * 支持变量：{ext} {name} {year} {month} {day} {mime_type} {exif.标签名}
+   */
+  private renderTarget(template: string, fileName: string, stats: fs.Stats, tags: Tags | null): string {
+    const ext = path.extname(fileName);
+    const mtime = stats.mtime;
+    const variables: Record<string, string> = {
+      ext: ext.slice(1).toLowerCase() || "无扩展名",
+      name: path.basename(fileName, ext),
+      year: String(mtime.getFullYear()),
+      month: String(mtime.getMonth() + 1).padStart(2, "0"),
+      day: String(mtime.getDate()).padStart(2, "0"),
+      mime_type: String((tags as any)?.MIMEType ?? "").split("/")[0] || "未知",
+    };
+
+    return template.replace(/\{([\w.]+)\}/g, (placeholder, key: string) => {
+      if (key.startsWith("exif.")) {
+        const value = (tags as any)?.[key.slice("exif.".length)];
+        return value != null && String(value).trim() ? String(value).trim().replace(/[\\/]/g, "_") : "未知";
+      }
+      return variables[key] ?? placeholder;
+    });
+  }
+
+  /**
+   * 按优先级依次尝试规则，返回第一条命中的规则
+   */
+  async match(filePath: string): Promise<RuleMatch | null> {
+    if (!this.hasRules) return null;
+
+    const fileName = path.basename(filePath);
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch (err) {
+      ruleLogger.warn({ file: fileName, error: err instanceof Error ? err.message : String(err) }, "读取文件状态失败，跳过规则匹配");
+      return null;
+    }
+
+    // 元数据按需读取，且每个文件最多读取一次
+    let tags: Tags | null = null;
+    let tagsLoaded = false;
+
+    for (const rule of this.rules) {
+      try {
+        if (this.needsMetadata(rule) && !tagsLoaded) {
+          tags = await this.fileInfoService.getMetadataTags(filePath);
+          tagsLoaded = true;
+        }
+        if (!this.matchesRule(rule, fileName, stats, tags)) continue;
+
+        // 模板或 EXIF 值可能渲染出绝对路径或 ".."，不允许移出分类库
+        const rendered = this.renderTarget(rule.target, fileName, stats, tags);
+        const sanitized = sanitizeTargetPath(rendered);
+        if ("error" in sanitized || !sanitized.path) {
+          ruleLogger.warn(
+            { file: fileName, rule: rule.name, targetDir: rendered, error: "error" in sanitized ? sanitized.error : "目标目录为空" },
+            "规则目标目录无效，跳过该规则"
+          );
+          continue;
+        }
+        const targetDir = sanitized.path;
+        ruleLogger.info(
+          { file: fileName, rule: rule.name, priority: rule.priority ?? 0, targetDir },
+          "规则命中"
+        );
+        return { rule, targetDir };
+      } catch (err) {
+        ruleLogger.error(
+          { file: fileName, rule: rule.name, error: err instanceof Error ? err.message : String(err) },
+          "规则匹配出错，跳过该规则"
+        );
+      }
+    }
+
+    ruleLogger.debug({ file: fileName }, "未命中任何规则");
+    return null;
+  }
+}
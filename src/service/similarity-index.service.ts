@@ -0,0 +1,218 @@
+import fs from "node:fs";
+import path from "node:path";
+import levenshtein from "fast-levenshtein";
+import { mainLogger } from "../logger.js";
+import { config, JobConfig } from "../config.js";
+import {
+  extensionsCompatible,
+  FUZZY_TOKEN_RATIO,
+  NormalizedName,
+  normalizedSimilarity,
+  normalizeName,
+  NORMALIZER_VERSION,
+  tokenWeight,
+} from "./name-similarity.service.js";
+
+// 粗排后精确计算相似度的候选数
+const RERANK_CANDIDATES = 50;
+
+// 索引文件结构：归一化规则变化后整个索引失效
+interface IndexFile {
+  version: 1;
+  normalizer: number;
+  entries: Record<string, NormalizedName>; // 相对路径 → 归一化后的文件名
+}
+
+// 文件名最相似的分类库文件
+export interface SimilarFile {
+  relPath: string;
+  dir: string;
+  score: number;
+}
+
+// 三字组：用于查找拼写接近的词
+function trigramsOf(token: string): string[] {
+  const chars = [...token];
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= chars.length; i++) grams.push(chars.slice(i, i + 3).join(""));
+  return grams;
+}
+
+/**
+ * 文件名相似度索引：保存分类库中每个文件归一化后的词，按词建立倒排表，
+ * 只与至少有一个相同（或拼写接近）的词的文件比较，不再逐个计算全部文件。
+ *
+ * 候选先按共同词的权重粗排，前 RERANK_CANDIDATES 个再按 normalizedSimilarity 精确计算。
+ * 归一化结果保存在数据目录，下次运行只处理新增的文件；每个任务一个索引文件。
+ */
+export class SimilarityIndexService {
+  private indexPath: string;
+  private data: IndexFile | null = null;
+  private files: string[] = []; // 与最近一次 update 的 knownFiles 顺序一致
+  private names: NormalizedName[] = [];
+  private totals: number[] = []; // 每个文件的词权重之和
+  private postings = new Map<string, number[]>(); // 词 → 文件序号
+  private trigrams = new Map<string, string[]>(); // 三字组 → 包含它的词（长度不少于 4）
+  private logger: typeof mainLogger;
+
+  constructor(job: JobConfig, indexDir: string = path.join(config.DATA_DIR, "similarity")) {
+    this.indexPath = path.join(indexDir, `${job.NAME}.json`);
+    this.logger = mainLogger.child({ job: job.NAME });
+  }
+
+  private load(): IndexFile {
+    if (this.data) return this.data;
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.indexPath, "utf8"));
+        if (parsed?.version === 1 && parsed.normalizer === NORMALIZER_VERSION && parsed.entries) {
+          this.data = parsed as IndexFile;
+          return this.data;
+        }
+        this.logger.warn({ indexPath: this.indexPath }, "相似度索引格式不兼容，重新建立");
+      }
+    } catch (err) {
+      this.logger.warn({ indexPath: this.indexPath, error: err instanceof Error ? err.message : String(err) }, "读取相似度索引失败，重新建立");
+    }
+    this.data = { version: 1, normalizer: NORMALIZER_VERSION, entries: {} };
+    return this.data;
+  }
+
+  /**
+   * 写入索引文件（临时文件 + rename，避免写到一半时损坏）；失败只告警，下次运行重新计算
+   */
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+      const tempPath = `${this.indexPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.load()), "utf8");
+      fs.renameSync(tempPath, this.indexPath);
+    } catch (err) {
+      this.logger.warn({ indexPath: this.indexPath, error: err instanceof Error ? err.message : String(err) }, "保存相似度索引失败");
+    }
+  }
+
+  /**
+   * 与分类库同步：删除已不存在的文件，归一化新增的文件，并重建内存中的倒排表
+   *
+   * knownFiles 为 scanFiles 返回的相对路径；同分时排在前面的文件优先。
+   */
+  update(knownFiles: string[]): void {
+    const data = this.load();
+    const known = new Set(knownFiles);
+    let removed = 0;
+    let added = 0;
+    for (const relPath of Object.keys(data.entries)) {
+      if (!known.has(relPath)) {
+        delete data.entries[relPath];
+        removed++;
+      }
+    }
+    for (const relPath of knownFiles) {
+      if (!Object.prototype.hasOwnProperty.call(data.entries, relPath)) {
+        data.entries[relPath] = normalizeName(path.basename(relPath));
+        added++;
+      }
+    }
+    if (added > 0 || removed > 0) {
+      this.logger.info({ added, removed, total: knownFiles.length }, "已更新相似度索引");
+      this.save();
+    }
+
+    const unchanged =
+      added === 0 &&
+      removed === 0 &&
+      this.files.length === knownFiles.length &&
+      this.files.every((relPath, index) => relPath === knownFiles[index]);
+    if (!unchanged) this.build(knownFiles);
+  }
+
+  private build(knownFiles: string[]): void {
+    const entries = this.load().entries;
+    this.files = [...knownFiles];
+    this.names = this.files.map((relPath) => entries[relPath]);
+    this.totals = [];
+    this.postings.clear();
+    this.trigrams.clear();
+
+    this.names.forEach((name, index) => {
+      const tokens = new Set(name.tokens);
+      let total = 0;
+      for (const token of tokens) {
+        total += tokenWeight(token);
+        const list = this.postings.get(token);
+        if (list) {
+          list.push(index);
+        } else {
+          this.postings.set(token, [index]);
+          if (token.length >= 4) {
+            for (const gram of new Set(trigramsOf(token))) {
+              const words = this.trigrams.get(gram);
+              if (words) words.push(token);
+              else this.trigrams.set(gram, [token]);
+            }
+          }
+        }
+      }
+      this.totals.push(total);
+    });
+  }
+
+  /**
+   * 词表中与 token 拼写接近（编辑距离相似度不低于 FUZZY_TOKEN_RATIO）的其他词
+   */
+  private similarTokens(token: string): Array<{ token: string; ratio: number }> {
+    if (token.length < 4 || /^\d+$/.test(token)) return [];
+    const seen = new Set<string>([token]);
+    const similar: Array<{ token: string; ratio: number }> = [];
+    for (const gram of new Set(trigramsOf(token))) {
+      for (const other of this.trigrams.get(gram) ?? []) {
+        if (seen.has(other)) continue;
+        seen.add(other);
+        const maxLength = Math.max(token.length, other.length);
+        if (Math.abs(token.length - other.length) > maxLength * (1 - FUZZY_TOKEN_RATIO)) continue;
+        const ratio = 1 - levenshtein.get(token, other) / maxLength;
+        if (ratio >= FUZZY_TOKEN_RATIO) similar.push({ token: other, ratio });
+      }
+    }
+    return similar;
+  }
+
+  /**
+   * 找出文件名最相似的 k 个分类库文件（相似度从高到低，不含相似度为 0 的文件）
+   */
+  findMostSimilar(fileName: string, k: number = 1): SimilarFile[] {
+    const query = normalizeName(fileName);
+    const queryTokens = new Set(query.tokens);
+    if (queryTokens.size === 0 || this.files.length === 0) return [];
+
+    // 粗排：共同词（拼写接近的词按相似度折算）的权重之和
+    const shared = new Map<number, number>();
+    let queryTotal = 0;
+    for (const token of queryTokens) {
+      const weight = tokenWeight(token);
+      queryTotal += weight;
+      const matches = [{ token, ratio: 1 }, ...this.similarTokens(token)];
+      for (const match of matches) {
+        for (const index of this.postings.get(match.token) ?? []) {
+          shared.set(index, (shared.get(index) ?? 0) + weight * match.ratio);
+        }
+      }
+    }
+
+    const candidates: Array<{ index: number; coarse: number }> = [];
+    for (const [index, weight] of shared) {
+      if (!extensionsCompatible(query.ext, this.names[index].ext)) continue;
+      candidates.push({ index, coarse: (2 * weight) / (queryTotal + this.totals[index]) });
+    }
+    candidates.sort((a, b) => b.coarse - a.coarse || a.index - b.index);
+
+    return candidates
+      .slice(0, Math.max(RERANK_CANDIDATES, k))
+      .map(({ index }) => ({ index, score: normalizedSimilarity(query, this.names[index]) }))
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, k)
+      .map(({ index, score }) => ({ relPath: this.files[index], dir: path.dirname(this.files[index]), score }));
+  }
+}
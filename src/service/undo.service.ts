@@ -0,0 +1,83 @@
+import fs from "node:fs";
+import { fileMoveLogger } from "../logger.js";
+import { FileMoveService } from "./file-move.service.js";
+import { MoveJournalEntry, MoveJournalService } from "./move-journal.service.js";
+
+// 撤销结果报告
+export interface UndoReport {
+  restored: MoveJournalEntry[];
+  conflicts: MoveJournalEntry[]; // 原位置已被占用
+  missing: MoveJournalEntry[]; // 文件已不在移动后的位置
+  failed: Array<{ entry: MoveJournalEntry; error: string }>;
+}
+
+export class UndoService {
+  private journal: MoveJournalService;
+  private fileMoveService: FileMoveService;
+
+  constructor(journal: MoveJournalService = new MoveJournalService()) {
+    this.journal = journal;
+    this.fileMoveService = new FileMoveService(journal);
+  }
+
+  /**
+   * 撤销整次运行（按移动的逆序还原）
+   */
+  async undoRun(runId: string): Promise<UndoReport> {
+    const moves = this.journal.getActiveMoves(runId);
+    if (moves.length === 0) {
+      fileMoveLogger.warn({ runId }, "该运行没有可撤销的移动记录");
+    }
+    return this.undoEntries(moves.reverse());
+  }
+
+  /**
+   * 撤销单个文件的最近一次移动（可传入移动后或移动前的路径）
+   */
+  async undoFile(filePath: string): Promise<UndoReport> {
+    const move = this.journal.findLatestMove(filePath);
+    if (!move) {
+      fileMoveLogger.warn({ filePath }, "未找到该文件的移动记录");
+      return { restored: [], conflicts: [], missing: [], failed: [] };
+    }
+    return this.undoEntries([move]);
+  }
+
+  private async undoEntries(entries: MoveJournalEntry[]): Promise<UndoReport> {
+    const report: UndoReport = { restored: [], conflicts: [], missing: [], failed: [] };
+
+    for (const entry of entries) {
+      if (!fs.existsSync(entry.target)) {
+        fileMoveLogger.warn({ target: entry.target }, "文件已不在移动后的位置，跳过撤销");
+        report.missing.push(entry);
+        continue;
+      }
+      if (fs.existsSync(entry.source)) {
+        fileMoveLogger.warn({ source: entry.source }, "原位置已被占用，跳过撤销");
+        report.conflicts.push(entry);
+        continue;
+      }
+
+      try {
+        await this.fileMoveService.restoreFile(entry.target, entry.source);
+        this.journal.recordUndo(entry);
+        report.restored.push(entry);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        fileMoveLogger.error({ source: entry.source, target: entry.target, error }, "撤销移动失败");
+        report.failed.push({ entry, error });
+      }
+    }
+
+    fileMoveLogger.info(
+      {
+        restored: report.restored.length,
+        conflicts: report.conflicts.length,
+        missing: report.missing.length,
+        failed: report.failed.length,
+      },
+      "撤销完成"
+    );
+    return report;
+  }
+}
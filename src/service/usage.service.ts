@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import path from "node:path";
+import { aiLogger } from "../logger.js";
+import { config, ModelPrice } from "../config.js";
+import { ProviderUsage } from "../provider/index.js";
+
+// 一段时间内的用量合计
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // 按价格表估算，未配置价格的模型计为 0
+}
+
+// 用量文件结构：按本地日期、模型累计
+interface UsageFile {
+  version: 1;
+  days: Record<string, Record<string, UsageTotals>>;
+}
+
+// 超出的预算
+export interface BudgetExceeded {
+  period: "daily" | "monthly";
+  spent: number;
+  limit: number;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.cost += source.cost;
+}
+
+// 本地日期（受 TZ 环境变量影响），形如 2024-05-01
+export function localDate(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 查找模型价格：先精确匹配，再按最长前缀匹配（如 gpt-5-nano-2025-08-07 使用 gpt-5-nano 的价格）
+ */
+export function findPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+/**
+ * AI 用量统计：累计每次请求的 token 数并按价格表估算费用，
+ * 按日期与模型保存在数据目录的 usage.json 中（所有任务共用），用于本次运行汇总与每日/每月预算控制
+ */
+export class UsageService {
+  private usagePath: string;
+  private run: UsageTotals = emptyTotals();
+  private warnedModels = new Set<string>();
+  private logger: typeof aiLogger;
+
+  constructor(usagePath: string = path.join(config.DATA_DIR, "usage.json"), logger: typeof aiLogger = aiLogger) {
+    this.usagePath = usagePath;
+    this.logger = logger;
+  }
+
+  /**
+   * 每次都从磁盘读取，多个任务在同一进程中记录时不会互相覆盖
+   */
+  private load(): UsageFile {
+    try {
+      if (fs.existsSync(this.usagePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.usagePath, "utf8"));
+        if (parsed?.version === 1 && parsed.days) return parsed as UsageFile;
+        this.logger.warn({ usagePath: this.usagePath }, "用量文件格式不兼容，已忽略");
+      }
+    } catch (err) {
+      this.logger.warn({ usagePath: this.usagePath, error: err instanceof Error ? err.message : String(err) }, "读取用量文件失败，已忽略");
+    }
+    return { version: 1, days: {} };
+  }
+
+  private save(data: UsageFile): void {
+    fs.mkdirSync(path.dirname(this.usagePath), { recursive: true });
+    const tempPath = `${this.usagePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf8");
+    fs.renameSync(tempPath, this.usagePath);
+  }
+
+  /**
+   * 估算一次请求的费用（价格单位：每百万 token）
+   */
+  estimateCost(model: string, usage: ProviderUsage): number {
+    const price = findPrice(model, config.USAGE_PRICES);
+    if (!price) {
+      if (!this.warnedModels.has(model)) {
+        this.warnedModels.add(model);
+        this.logger.warn({ model }, "价格表中没有该模型，费用按 0 计算，预算限制对其无效");
+      }
+      return 0;
+    }
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * 记录一次请求的用量（提供方未返回用量时只计请求数）
+   */
+  record(model: string, usage: ProviderUsage | undefined, now: Date = new Date()): void {
+    const entry: UsageTotals = {
+      requests: 1,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      cost: usage ? this.estimateCost(model, usage) : 0,
+    };
+    addTotals(this.run, entry);
+
+    try {
+      const data = this.load();
+      const day = (data.days[localDate(now)] ??= {});
+      addTotals((day[model] ??= emptyTotals()), entry);
+      this.save(data);
+    } catch (err) {
+      this.logger.error({ usagePath: this.usagePath, error: err instanceof Error ? err.message : String(err) }, "保存用量失败");
+    }
+  }
+
+  /**
+   * 开始新的运行，清零本次运行的合计
+   */
+  startRun(): void {
+    this.run = emptyTotals();
+  }
+
+  getRunTotals(): UsageTotals {
+    return { ...this.run };
+  }
+
+  /**
+   * 汇总日期前缀匹配的用量（"2024-05-01" 为单日，"2024-05" 为整月），返回合计与各模型明细
+   */
+  summarize(datePrefix: string): { total: UsageTotals; models: Record<string, UsageTotals> } {
+    const total = emptyTotals();
+    const models: Record<string, UsageTotals> = {};
+    for (const [date, day] of Object.entries(this.load().days)) {
+      if (!date.startsWith(datePrefix)) continue;
+      for (const [model, totals] of Object.entries(day)) {
+        addTotals(total, totals);
+        addTotals((models[model] ??= emptyTotals()), totals);
+      }
+    }
+    return { total, models };
+  }
+
+  /**
+   * 检查每日/每月预算（0 表示不限制），返回第一个已用尽的预算
+   */
+  checkBudget(now: Date = new Date()): BudgetExceeded | null {
+    const today = localDate(now);
+    const checks: Array<[BudgetExceeded["period"], number, string]> = [
+      ["daily", config.USAGE_DAILY_BUDGET, today],
+      ["monthly", config.USAGE_MONTHLY_BUDGET, today.slice(0, 7)],
+    ];
+    for (const [period, limit, prefix] of checks) {
+      if (limit <= 0) continue;
+      const spent = this.summarize(prefix).total.cost;
+      if (spent >= limit) return { period, spent, limit };
+    }
+    return null;
+  }
+}
+
+/**
+ * 格式化费用，如 "0.0123 USD"
+ */
+export function formatCost(cost: number, currency: string = config.USAGE_CURRENCY): string {
+  return `${cost.toFixed(4)} ${currency}`;
+}
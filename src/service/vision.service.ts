@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { exiftool, Tags } from "exiftool-vendored";
+import { fileInfoLogger } from "../logger.js";
+import { config } from "../config.js";
+import { FileInfoService } from "./file-info.service.js";
+
+const execFileAsync = promisify(execFile);
+
+// 可生成缩略图的图片扩展名
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif", ".bmp", ".tif", ".tiff", ".heic", ".heif"]);
+
+// 内嵌预览图无法缩放，超过该大小时不发送（按 max_size 的 JPEG 缩略图通常远小于此）
+const MAX_EMBEDDED_BYTES = 256 * 1024;
+
+// 有这些标签的图片已能从元数据判断内容（拍摄设备、时间、标题等），不再发送缩略图
+const USEFUL_METADATA_TAGS = ["Make", "Model", "DateTimeOriginal", "GPSLatitude", "ImageDescription", "Title", "Subject", "Keywords"];
+
+// 缩略图
+export interface Thumbnail {
+  mimeType: string;
+  data: string; // base64
+}
+
+// 缩略图选项
+export interface VisionOptions {
+  maxImagesPerRun: number; // 每次运行最多发送的图片数
+  maxSize: number; // 缩略图最长边（像素）
+  onlyWithoutMetadata: boolean; // 只为没有有用元数据的图片（截图、去除了 EXIF 的照片）生成缩略图
+}
+
+/**
+ * 元数据中是否已有能说明图片内容的标签
+ */
+export function hasUsefulMetadata(tags: Tags | null): boolean {
+  if (!tags) return false;
+  return USEFUL_METADATA_TAGS.some((name) => {
+    const value = (tags as Record<string, unknown>)[name];
+    return value !== undefined && value !== null && String(value).trim() !== "";
+  });
+}
+
+/**
+ * 读取 JPEG 的宽高（解析到第一个 SOF 段），不是有效的 JPEG 时返回 null
+ */
+export function jpegDimensions(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      // 段之间的填充字节
+      offset++;
+      continue;
+    }
+    // SOF0~SOF15（DHT、JPG、DAC 除外）记录图片尺寸
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > data.length) return null;
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+// ImageMagick 命令：7.x 为 magick，6.x 为 convert；检测一次，找不到时为 null
+let imageMagick: Promise<string | null> | null = null;
+
+function findImageMagick(): Promise<string | null> {
+  imageMagick ??= (async () => {
+    for (const command of ["magick", "convert"]) {
+      try {
+        const { stdout } = await execFileAsync(command, ["-version"], { timeout: 5000 });
+        if (/ImageMagick/i.test(stdout)) return command;
+      } catch {
+        // 尝试下一个命令
+      }
+    }
+    fileInfoLogger.info("未找到 ImageMagick，缩略图只能使用图片内嵌的预览图");
+    return null;
+  })();
+  return imageMagick;
+}
+
+/**
+ * 图片缩略图：为发送给支持图片输入的模型生成本地缩小的 JPEG
+ *
+ * 优先使用 ImageMagick 缩放（支持任意尺寸与格式），没有安装时退回 exiftool 提取图片内嵌的预览图。
+ * 每次运行最多生成 maxImagesPerRun 张，超出的文件只发送文本。
+ */
+export class VisionService {
+  private fileInfoService: FileInfoService;
+  private options: VisionOptions;
+  private used = 0;
+
+  constructor(
+    fileInfoService: FileInfoService,
+    options: VisionOptions = {
+      maxImagesPerRun: config.VISION_MAX_IMAGES_PER_RUN,
+      maxSize: config.VISION_MAX_SIZE,
+      onlyWithoutMetadata: config.VISION_ONLY_WITHOUT_METADATA,
+    }
+  ) {
+    this.fileInfoService = fileInfoService;
+    this.options = options;
+  }
+
+  /**
+   * 开始新的一次运行，重置图片计数
+   */
+  startRun(): void {
+    this.used = 0;
+  }
+
+  /**
+   * 为待分类文件生成缩略图；不是图片、已达上限、元数据已足够或生成失败时返回 undefined
+   */
+  async thumbnailFor(filePath: string): Promise<Thumbnail | undefined> {
+    if (!IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase())) return undefined;
+    if (this.used >= this.options.maxImagesPerRun) return undefined;
+    // 先占用名额，并发批次同时生成时也不会超出上限
+    this.used++;
+
+    if (this.options.onlyWithoutMetadata && hasUsefulMetadata(await this.fileInfoService.getMetadataTags(filePath))) {
+      this.used--;
+      return undefined;
+    }
+
+    const data = (await this.resize(filePath)) ?? (await this.extractEmbedded(filePath));
+    if (!data) {
+      this.used--;
+      return undefined;
+    }
+    fileInfoLogger.debug({ file: path.basename(filePath), bytes: data.length }, "已生成缩略图");
+    return { mimeType: "image/jpeg", data: data.toString("base64") };
+  }
+
+  private async resize(filePath: string): Promise<Buffer | null> {
+    const command = await findImageMagick();
+    if (!command) return null;
+    const size = this.options.maxSize;
+    try {
+      // [0]：多帧图片（GIF、TIFF）只取第一帧；">" 只缩小不放大
+      const { stdout } = await execFileAsync(
+        command,
+        [`${filePath}[0]`, "-auto-orient", "-thumbnail", `${size}x${size}>`, "-strip", "-quality", "80", "jpg:-"],
+        { encoding: "buffer", timeout: 30_000, maxBuffer: 20 * 1024 * 1024 }
+      );
+      return stdout.length > 0 ? stdout : null;
+    } catch (err) {
+      fileInfoLogger.warn({ file: path.basename(filePath), error: err instanceof Error ? err.message : String(err) }, "ImageMagick 生成缩略图失败");
+      return null;
+    }
+  }
+
+  /**
+   * 提取图片内嵌的预览图；无法缩放，尺寸超过 maxSize、超过 MAX_EMBEDDED_BYTES 或无法识别时不使用
+   */
+  private async extractEmbedded(filePath: string): Promise<Buffer | null> {
+    const tempPath = path.join(os.tmpdir(), `fao-thumb-${process.pid}-${Date.now()}-${Math.random().toString(16).slice(2, 8)}.jpg`);
+    try {
+      await exiftool.extractThumbnail(filePath, tempPath);
+      const data = fs.readFileSync(tempPath);
+      const dimensions = jpegDimensions(data);
+      if (!dimensions || Math.max(dimensions.width, dimensions.height) > this.options.maxSize || data.length > MAX_EMBEDDED_BYTES) {
+        fileInfoLogger.debug({ file: path.basename(filePath), bytes: data.length, ...dimensions }, "内嵌预览图过大或无法识别，不发送");
+        return null;
+      }
+      return data;
+    } catch {
+      // 截图等图片通常没有内嵌预览图
+      return null;
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import fs from "node:fs";
+import path from "node:path";
+import { watchLogger } from "../logger.js";
+import { config } from "../config.js";
+import { MainService } from "./main.service.js";
+
+// 待确认稳定的文件快照
+interface PendingFile {
+  size: number;
+  mtimeMs: number;
+  stableCount: number;
+}
+
+/**
+ * 监听待分类目录：事件去抖 → 等待文件大小与修改时间稳定 → 交给 MainService 处理，
+ * 并定期全量扫描，兜底遗漏的事件。所有运行串行执行，不会并发移动文件。
+ */
+export class WatchService {
+  private mainService: MainService;
+  private incomingDir: string;
+  private logger: typeof watchLogger;
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private stabilityTimer: NodeJS.Timeout | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private changedNames = new Set<string>();
+  private pending = new Map<string, PendingFile>();
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(mainService: MainService) {
+    this.mainService = mainService;
+    this.incomingDir = mainService.job.INCOMING_DIR;
+    this.logger = watchLogger.child({ job: mainService.job.NAME });
+  }
+
+  /**
+   * 开始监听，并立即执行一次全量扫描
+   */
+  start(): void {
+    this.stopped = false;
+    this.startWatcher();
+
+    if (config.WATCH_SWEEP_INTERVAL_MINUTES > 0) {
+      this.sweepTimer = setInterval(() => this.enqueueSweep(), config.WATCH_SWEEP_INTERVAL_MINUTES * 60 * 1000);
+    }
+    this.enqueueSweep();
+
+    this.logger.info(
+      {
+        incomingDir: this.incomingDir,
+        debounceMs: config.WATCH_DEBOUNCE_MS,
+        stableChecks: config.WATCH_STABLE_CHECKS,
+        sweepIntervalMinutes: config.WATCH_SWEEP_INTERVAL_MINUTES,
+      },
+      "目录监听已启动"
+    );
+  }
+
+  /**
+   * 停止监听并等待正在执行的任务完成
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.stabilityTimer) clearTimeout(this.stabilityTimer);
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    await this.queue;
+    this.logger.info("目录监听已停止");
+  }
+
+  private startWatcher(): void {
+    if (this.watcher || this.stopped) return;
+    if (!fs.existsSync(this.incomingDir)) {
+      this.logger.warn(`待分类目录不存在，将在下次全量扫描时重试监听: ${this.incomingDir}`);
+      return;
+    }
+
+    try {
+      this.watcher = fs.watch(this.incomingDir, (_event, fileName) => {
+        if (fileName) this.onChange(fileName.toString());
+      });
+      this.watcher.on("error", (err) => {
+        this.logger.error({ error: err.message }, "目录监听出错，将在下次全量扫描时重建");
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch (err) {
+      this.logger.error({ error: err instanceof Error ? err.message : String(err) }, "创建目录监听失败");
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * 文件系统事件：记录文件名并重置去抖计时
+   */
+  private onChange(fileName: string): void {
+    this.changedNames.add(fileName);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => this.flushChanges(), config.WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * 去抖结束：将变化的文件加入稳定性检查
+   */
+  private flushChanges(): void {
+    this.debounceTimer = null;
+    for (const name of this.changedNames) {
+      // 重新出现变化的文件需要重新计数
+      this.pending.delete(name);
+      this.pending.set(name, { size: -1, mtimeMs: -1, stableCount: 0 });
+    }
+    this.changedNames.clear();
+    if (this.stabilityTimer) clearTimeout(this.stabilityTimer);
+    this.checkStability();
+  }
+
+  /**
+   * 检查待确认文件：大小与修改时间连续多次不变才视为写入完成
+   */
+  private checkStability(): void {
+    this.stabilityTimer = null;
+    const ready: string[] = [];
+
+    for (const [name, snapshot] of this.pending) {
+      let stat: fs.Stats;
+      try {
+        stat = fs.statSync(path.join(this.incomingDir, name));
+      } catch {
+        // 文件已被删除或移走
+        this.pending.delete(name);
+        continue;
+      }
+      if (!stat.isFile()) {
+        this.pending.delete(name);
+        continue;
+      }
+
+      if (stat.size === snapshot.size && stat.mtimeMs === snapshot.mtimeMs) {
+        snapshot.stableCount++;
+      } else {
+        snapshot.size = stat.size;
+        snapshot.mtimeMs = stat.mtimeMs;
+        snapshot.stableCount = 0;
+      }
+
+      if (snapshot.stableCount >= config.WATCH_STABLE_CHECKS) {
+        ready.push(name);
+        this.pending.delete(name);
+      }
+    }
+
+    if (ready.length > 0) {
+      this.enqueue(`处理 ${ready.length} 个新文件`, () => this.mainService.runOnce({ onlyFiles: ready }));
+    }
+    if (this.pending.size > 0 && !this.stopped) {
+      this.stabilityTimer = setTimeout(() => this.checkStability(), config.WATCH_STABLE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * 全量扫描兜底（跳过仍在写入的文件），同时尝试恢复失效的监听
+   */
+  private enqueueSweep(): void {
+    this.startWatcher();
+    this.enqueue("定期全量扫描", () =>
+      this.mainService.runOnce({ excludeFiles: [...this.pending.keys(), ...this.changedNames] })
+    );
+  }
+
+  /**
+   * 串行执行分类任务，单次失败不影响后续任务
+   */
+  private enqueue(label: string, task: () => Promise<unknown>): void {
+    this.queue = this.queue.then(async () => {
+      if (this.stopped) return;
+      try {
+        this.logger.info(`开始${label}`);
+        await task();
+      } catch (err) {
+        this.logger.error({ error: err instanceof Error ? err.message : String(err) }, `${label}失败`);
+      }
+    });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * 文件名相似度索引基准测试：与逐个比较全部文件对比耗时与结果
+ *
+ * 用法: bun run bench [分类库文件数=50000] [查询数=200]
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { config, JobConfig } from '../../src/config.js';
+import { normalizedSimilarity, normalizeName } from '../../src/service/name-similarity.service.js';
+import { SimilarityIndexService } from '../../src/service/similarity-index.service.js';
+
+const libraryCount = Number(process.argv[2] ?? 50_000);
+const queryCount = Number(process.argv[3] ?? 200);
+
+// 固定种子的伪随机数，保证每次生成相同的数据
+let seed = 42;
+const random = () => {
+  seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+  return seed / 2 ** 32;
+};
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+const WORDS = [
+  'invoice', 'report', 'contract', 'budget', 'meeting', 'notes', 'resume', 'photo', 'trip', 'backup',
+  'setup', 'installer', 'driver', 'manual', 'receipt', 'salary', 'tax', 'project', 'design', 'draft',
+  '发票', '合同', '报告', '会议纪要', '简历', '旅行', '工资单', '说明书', '设计稿', '季度财务',
+  'alpha', 'delta', 'kyoto', 'paris', 'family', 'summer', 'winter', 'client', 'vendor', 'review',
+];
+const EXTENSIONS = ['pdf', 'docx', 'xlsx', 'jpg', 'png', 'mp4', 'zip', 'exe', 'dmg', 'mp3'];
+const DIRS = Array.from({ length: 500 }, (_, i) => `${pick(WORDS)}/${pick(WORDS)}-${i}`);
+
+function randomName(): string {
+  const words = Array.from({ length: 1 + Math.floor(random() * 3) }, () => pick(WORDS));
+  const decoration = pick(['', ` ${2015 + Math.floor(random() * 10)}-0${1 + Math.floor(random() * 9)}-1${Math.floor(random() * 10)}`, ` v${Math.floor(random() * 5)}.${Math.floor(random() * 10)}`, ' (1)', ` ${Math.floor(random() * 10000)}`]);
+  return `${words.join('-')}${decoration}.${pick(EXTENSIONS)}`;
+}
+
+const library = Array.from({ length: libraryCount }, (_, i) => `${pick(DIRS)}/${randomName().replace('.', `-${i}.`)}`);
+const queries = Array.from({ length: queryCount }, randomName);
+
+const time = <T>(fn: () => T): [T, number] => {
+  const start = performance.now();
+  const result = fn();
+  return [result, performance.now() - start];
+};
+
+const indexDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fao-similarity-bench-'));
+const job: JobConfig = { ...config.JOBS[0], NAME: 'bench' };
+
+try {
+  // 逐个比较：即使预先归一化，每个查询也要与全部文件计算一次相似度
+  const [, normalizeMs] = time(() => library.map((relPath) => normalizeName(path.basename(relPath))));
+  const normalized = library.map((relPath) => normalizeName(path.basename(relPath)));
+  const [bruteResults, bruteMs] = time(() =>
+    queries.map((query) => {
+      const q = normalizeName(query);
+      let best = 0;
+      for (const name of normalized) best = Math.max(best, normalizedSimilarity(q, name));
+      return best;
+    })
+  );
+
+  const [, coldMs] = time(() => new SimilarityIndexService(job, indexDir).update(library));
+  const index = new SimilarityIndexService(job, indexDir);
+  const [, warmMs] = time(() => index.update(library));
+  const [indexResults, indexMs] = time(() => queries.map((query) => index.findMostSimilar(query)[0]?.score ?? 0));
+
+  const agree = indexResults.filter((score, i) => Math.abs(score - bruteResults[i]) < 1e-9).length;
+  const indexSize = fs.statSync(path.join(indexDir, 'bench.json')).size;
+
+  console.log(`分类库 ${libraryCount} 个文件，查询 ${queryCount} 个`);
+  console.log(`逐个比较: 归一化 ${normalizeMs.toFixed(0)} ms，查询 ${bruteMs.toFixed(0)} ms（每个 ${(bruteMs / queryCount).toFixed(2)} ms）`);
+  console.log(`索引: 首次建立 ${coldMs.toFixed(0)} ms，读取已保存的索引 ${warmMs.toFixed(0)} ms（${(indexSize / 1024 / 1024).toFixed(1)} MB）`);
+  console.log(`索引: 查询 ${indexMs.toFixed(0)} ms（每个 ${(indexMs / queryCount).toFixed(2)} ms），加速 ${(bruteMs / indexMs).toFixed(1)} 倍`);
+  console.log(`最高相似度一致: ${agree}/${queryCount}`);
+} finally {
+  fs.rmSync(indexDir, { recursive: true, force: true });
+}
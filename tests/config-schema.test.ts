@@ -0,0 +1,85 @@
+/**
+ * 配置校验与环境变量覆盖测试
+ */
+
+import { test, describe, expect } from "bun:test";
+import { validateConfig, applyEnvOverrides, deepMerge, listEnvKeys } from '../src/config-schema.js';
+
+describe('配置结构校验', () => {
+  test('合法配置不产生错误', () => {
+    const result = validateConfig({
+      openai: { model: 'gpt-5-nano' },
+      scan: { similarity_threshold: 0.7 },
+      rules: [{ name: '种子', match: { extensions: ['.torrent'], size_min: '1MB' }, target: '种子' }]
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('应该给出精确的错误路径', () => {
+    const result = validateConfig({
+      scan: { similarity_threshold: '0.7', max_depth: 1.5 },
+      rules: [{ name: '种子', match: { extensions: '.torrent' } }],
+      duplicates: { policy: 'remove' },
+      embeddings: { similarity_threshold: 1.5 }
+    });
+    expect(result.errors).toContain('scan.similarity_threshold: 应为数字，实际为 string');
+    expect(result.errors).toContain('scan.max_depth: 应为整数，实际为 1.5');
+    expect(result.errors).toContain('rules[0].target: 缺少必填项');
+    expect(result.errors).toContain('embeddings.similarity_threshold: 不能大于 1，实际为 1.5');
+    expect(result.errors).toContain('rules[0].match.extensions: 应为数组，实际为 string');
+    expect(result.errors.some((e) => e.startsWith('duplicates.policy: 取值 "remove" 无效'))).toBe(true);
+  });
+
+  test('未知配置项只产生警告', () => {
+    const result = validateConfig({ scan: { similarity_treshold: 0.7 }, extra: true });
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([
+      'scan.similarity_treshold: 未知配置项，已忽略',
+      'extra: 未知配置项，已忽略'
+    ]);
+  });
+});
+
+describe('环境变量覆盖', () => {
+  test('应该为每个配置项生成环境变量名', () => {
+    const names = listEnvKeys().map((k) => k.env);
+    expect(names).toContain('FAO_OPENAI_API_KEY');
+    expect(names).toContain('FAO_SCAN_SIMILARITY_THRESHOLD');
+    expect(names).toContain('FAO_RULES');
+  });
+
+  test('应该按类型转换环境变量', () => {
+    const { config, errors, applied } = applyEnvOverrides(
+      { openai: { model: 'gpt-5-nano' } },
+      {
+        FAO_OPENAI_API_KEY: 'sk-test',
+        FAO_SCAN_SIMILARITY_THRESHOLD: '0.8',
+        FAO_CACHE_ENABLED: 'false',
+        FAO_JOBS: '[{"name":"a","root_dir":"/a","incoming_dir":"/b"}]'
+      }
+    );
+    expect(errors).toEqual([]);
+    expect(applied.length).toBe(4);
+    expect(config.openai).toEqual({ model: 'gpt-5-nano', api_key: 'sk-test' });
+    expect(config.scan.similarity_threshold).toBe(0.8);
+    expect(config.cache.enabled).toBe(false);
+    expect(config.jobs[0].name).toBe('a');
+  });
+
+  test('无法转换的环境变量应报错', () => {
+    const { errors } = applyEnvOverrides({}, { FAO_SCAN_MAX_DEPTH: 'deep', FAO_RULES: '[' });
+    expect(errors.length).toBe(2);
+    expect(errors[0]).toStartWith('FAO_SCAN_MAX_DEPTH');
+  });
+});
+
+describe('深度合并', () => {
+  test('对象逐层合并，数组整体替换', () => {
+    const merged = deepMerge(
+      { a: { x: 1, y: 2 }, list: [1, 2] },
+      { a: { y: 3 }, list: [9] }
+    );
+    expect(merged).toEqual({ a: { x: 1, y: 3 }, list: [9] });
+  });
+});
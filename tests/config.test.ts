@@ -0,0 +1,137 @@
+/**
+ * 多任务配置展开测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { loadConfig } from '../src/config.js';
+
+describe('任务列表', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'config');
+  const configModule = path.join(process.cwd(), 'src', 'config.ts');
+
+  // 配置在模块加载时从当前目录读取，因此在子进程中加载，返回展开后的任务列表
+  const loadJobs = (yamlText: string) => {
+    fs.writeFileSync(path.join(workDir, 'config.yaml'), yamlText);
+    const result = Bun.spawnSync(
+      [process.execPath, '-e', `const { config } = await import(${JSON.stringify(configModule)}); console.log(JSON.stringify(config.JOBS));`],
+      { cwd: workDir, env: { ...process.env } }
+    );
+    const stdout = result.stdout.toString().trim();
+    return {
+      exitCode: result.exitCode,
+      jobs: result.exitCode === 0 ? JSON.parse(stdout.split('\n').pop()!) : [],
+      stderr: result.stderr.toString(),
+    };
+  };
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.mkdirSync(workDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('未配置 jobs 时，顶层目录作为 default 任务', () => {
+    const { jobs } = loadJobs([
+      'directories:',
+      '  root_dir: /data/library',
+      '  incoming_dir: /data/incoming',
+      'cron:',
+      '  schedule: "*/5 * * * *"',
+    ].join('\n'));
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({
+      NAME: 'default',
+      ROOT_DIR: '/data/library',
+      INCOMING_DIR: '/data/incoming',
+      CRON_SCHEDULE: '*/5 * * * *',
+    });
+  });
+
+  test('任务未填写的项沿用顶层配置', () => {
+    const { jobs } = loadJobs([
+      'openai:',
+      '  model: top-model',
+      'cron:',
+      '  schedule: "0 * * * *"',
+      'ai:',
+      '  batch_size: 7',
+      'scan:',
+      '  similarity_threshold: 0.6',
+      'jobs:',
+      '  - name: 下载',
+      '    root_dir: /data/library',
+      '    incoming_dir: /data/downloads',
+      '  - name: 扫描件',
+      '    root_dir: /data/documents',
+      '    incoming_dir: /data/scans',
+      '    schedule: "30 2 * * *"',
+      '    model: job-model',
+      '    batch_size: 2',
+      '    similarity_threshold: 0.9',
+    ].join('\n'));
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        NAME: '下载',
+        CRON_SCHEDULE: '0 * * * *',
+        OPENAI_MODEL: 'top-model',
+        AI_BATCH_SIZE: 7,
+        SIMILARITY_THRESHOLD: 0.6,
+      }),
+      expect.objectContaining({
+        NAME: '扫描件',
+        ROOT_DIR: '/data/documents',
+        INCOMING_DIR: '/data/scans',
+        CRON_SCHEDULE: '30 2 * * *',
+        OPENAI_MODEL: 'job-model',
+        AI_BATCH_SIZE: 2,
+        SIMILARITY_THRESHOLD: 0.9,
+      }),
+    ]);
+  });
+
+  test('任务名称重复时拒绝加载', () => {
+    const configPath = path.join(workDir, 'config.yaml');
+    fs.writeFileSync(configPath, [
+      'jobs:',
+      '  - name: 下载',
+      '    root_dir: /data/library',
+      '    incoming_dir: /data/downloads',
+      '  - name: 下载',
+      '    root_dir: /data/documents',
+      '    incoming_dir: /data/scans',
+    ].join('\n'));
+
+    expect(() => loadConfig(configPath, { explicit: true, env: {} })).toThrow('jobs[1].name: 任务名称 "下载" 重复');
+  });
+
+  test('不同任务的目录相同或互相嵌套时拒绝加载', () => {
+    const configPath = path.join(workDir, 'config.yaml');
+    fs.writeFileSync(configPath, [
+      'jobs:',
+      '  - name: 下载',
+      '    root_dir: /data/library',
+      '    incoming_dir: /data/downloads',
+      '  - name: 扫描件',
+      '    root_dir: /data/library/扫描件',
+      '    incoming_dir: /data/scans',
+      '  - name: 照片',
+      '    root_dir: /data/photos',
+      '    incoming_dir: /data/downloads',
+    ].join('\n'));
+
+    expect(() => loadConfig(configPath, { explicit: true, env: {} })).toThrow(
+      'jobs[1]: 目录 "/data/library/扫描件" 与任务 "下载" 的目录 "/data/library" 重叠'
+    );
+    expect(() => loadConfig(configPath, { explicit: true, env: {} })).toThrow(
+      'jobs[2]: 目录 "/data/downloads" 与任务 "下载" 的目录 "/data/downloads" 重叠'
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * AI 提供方测试：JSON 输出解析与模拟提供方
+ */
+
+import { test, describe, expect } from "bun:test";
+import { extractJson, parseClassifications } from '../../src/provider/parse.js';
+import { MockProvider } from '../../src/provider/mock.provider.js';
+import { OpenAIJsonProvider } from '../../src/provider/openai-json.provider.js';
+import { OpenAIToolsProvider } from '../../src/provider/openai-tools.provider.js';
+import type OpenAI from 'openai';
+
+describe('JSON 输出解析', () => {
+  test('应该兼容代码块与前后说明文字', () => {
+    const text = '好的，分类结果如下：\n```json\n{"classifications": [{"file_name": "a.pdf", "directory_path": "文档"}]}\n```\n如有疑问请告诉我。';
+    expect(extractJson(text)).toEqual({ classifications: [{ file_name: 'a.pdf', directory_path: '文档' }] });
+  });
+
+  test('没有 JSON 对象时抛出错误', () => {
+    expect(() => extractJson('无法分类')).toThrow('响应中没有 JSON 对象');
+  });
+
+  test('应该转换为统一的分类结果', () => {
+    const items = parseClassifications({
+      classifications: [{ file_name: 'a.pdf', directory_path: '文档', reasoning: 'PDF 文档' }]
+    });
+    expect(items).toEqual([{ fileName: 'a.pdf', path: '文档', reasoning: 'PDF 文档' }]);
+  });
+
+  test('应该解析小数或百分数形式的置信度', () => {
+    const items = parseClassifications({
+      classifications: [
+        { file_name: 'a.pdf', directory_path: '文档', confidence: 0.35 },
+        { file_name: 'b.pdf', directory_path: '文档', confidence: '85' },
+        { file_name: 'c.pdf', directory_path: '文档', confidence: '很高' }
+      ]
+    });
+    expect(items.map((item) => item.confidence)).toEqual([0.35, 0.85, undefined]);
+  });
+
+  test('结构不符时抛出错误', () => {
+    expect(() => parseClassifications({ result: [] })).toThrow('响应缺少 classifications 数组');
+    expect(() => parseClassifications({ classifications: [{ file_name: 'a.pdf' }] }))
+      .toThrow('classifications[0] 缺少 file_name 或 directory_path');
+  });
+});
+
+describe('模拟提供方', () => {
+  test('优先返回预设结果，其余按扩展名归类', async () => {
+    const provider = new MockProvider({ '发票.pdf': { directory_path: '财务/发票', reasoning: '发票' } });
+    const response = await provider.classifyBatch({
+      model: 'mock',
+      systemPrompt: '',
+      userPrompt: '',
+      fileNames: ['发票.pdf', 'setup.EXE', 'README']
+    });
+    expect(response.items).toEqual([
+      { fileName: '发票.pdf', path: '财务/发票', reasoning: '发票', confidence: 1 },
+      { fileName: 'setup.EXE', path: '其他/exe', reasoning: '模拟分类：按扩展名归类', confidence: 1 },
+      { fileName: 'README', path: '其他/无扩展名', reasoning: '模拟分类：按扩展名归类', confidence: 1 }
+    ]);
+  });
+});
+
+describe('输出格式说明与工具描述', () => {
+  // 记录请求参数并返回空分类结果的客户端
+  const capturingClient = () => {
+    const calls: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming[] = [];
+    const client = {
+      chat: {
+        completions: {
+          create: async (params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming) => {
+            calls.push(params);
+            const args = '{"classifications": []}';
+            return {
+              id: 'r1',
+              model: 'm',
+              choices: [{ message: { content: args, tool_calls: [{ type: 'function', function: { name: 'classify_files_batch', arguments: args } }] } }],
+            };
+          }
+        }
+      }
+    } as unknown as OpenAI;
+    return { client, calls };
+  };
+  const request = { model: 'm', systemPrompt: 'SYSTEM', userPrompt: '', fileNames: ['a.pdf'], suggestNames: true };
+
+  test('按命名语言追加 JSON 输出格式要求，默认中文', async () => {
+    const { client, calls } = capturingClient();
+    const provider = new OpenAIJsonProvider(client);
+    await provider.classifyBatch(request);
+    await provider.classifyBatch({ ...request, language: 'en' });
+    await provider.classifyBatch({ ...request, language: 'Deutsch' });
+
+    const systemPrompts = calls.map((call) => call.messages[0].content as string);
+    expect(systemPrompts[0]).toStartWith('SYSTEM\n\n## 输出格式');
+    expect(systemPrompts[0]).toContain('每一项还需包含 suggested_name 字段');
+    expect(systemPrompts[1]).toStartWith('SYSTEM\n\n## Output format');
+    expect(systemPrompts[1]).toContain('Each item must also include suggested_name');
+    expect(systemPrompts[2]).toBe(systemPrompts[1]);
+  });
+
+  test('函数描述使用命名语言', async () => {
+    const { client, calls } = capturingClient();
+    const provider = new OpenAIToolsProvider(client);
+    await provider.classifyBatch(request);
+    await provider.classifyBatch({ ...request, language: 'en' });
+
+    const [zh, en] = calls.map((call) => call.tools![0] as OpenAI.Chat.Completions.ChatCompletionFunctionTool);
+    expect(zh.function.description).toBe('批量分类多个文件');
+    expect(en.function.description).toBe('Classify a batch of files');
+    expect(JSON.stringify(en.function.parameters)).toContain('keeping the original extension');
+  });
+});
+
+describe('无法解析的响应', () => {
+  // 只返回固定响应的客户端
+  const clientReturning = (message: Record<string, unknown>) =>
+    ({
+      chat: {
+        completions: {
+          create: async () => ({ id: 'r1', model: 'm', choices: [{ message }], usage: { prompt_tokens: 120, completion_tokens: 30 } })
+        }
+      }
+    }) as unknown as OpenAI;
+  const request = { model: 'm', systemPrompt: '', userPrompt: '', fileNames: ['a.pdf'] };
+
+  test('JSON 输出无法解析时错误中带有 token 用量', async () => {
+    const provider = new OpenAIJsonProvider(clientReturning({ content: '无法分类' }));
+    const error = await provider.classifyBatch(request).catch((err) => err);
+    expect(error.name).toBe('ResponseParseError');
+    expect(error.usage).toEqual({ promptTokens: 120, completionTokens: 30 });
+  });
+
+  test('没有工具调用时错误中带有 token 用量', async () => {
+    const provider = new OpenAIToolsProvider(clientReturning({ content: '' }));
+    const error = await provider.classifyBatch(request).catch((err) => err);
+    expect(error.name).toBe('ResponseParseError');
+    expect(error.usage).toEqual({ promptTokens: 120, completionTokens: 30 });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * RequestScheduler 测试：重试、Retry-After、熔断与并发限制
+ */
+
+import { test, describe, expect, mock } from "bun:test";
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  aiLogger: loggerStub()
+}));
+
+import {
+  CircuitOpenError,
+  getRetryAfterMs,
+  isRetryableError,
+  RequestScheduler,
+  RequestSchedulerOptions
+} from '../../src/provider/request-scheduler.js';
+import { ScheduledEmbeddingProvider, type EmbeddingProvider } from '../../src/provider/embedding.provider.js';
+import type { ClassificationRequest, ClassificationResponse, LLMProvider } from '../../src/provider/types.js';
+
+const request: ClassificationRequest = { model: 'm', systemPrompt: 's', userPrompt: 'u', fileNames: ['a.pdf'] };
+const ok: ClassificationResponse = { items: [{ fileName: 'a.pdf', path: '文档' }] };
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) });
+}
+
+/**
+ * 按顺序抛出错误或返回结果的提供方
+ */
+function flakyProvider(outcomes: Array<Error | ClassificationResponse>): LLMProvider & { calls: number } {
+  return {
+    name: 'flaky',
+    calls: 0,
+    async classifyBatch() {
+      this.calls++;
+      const outcome = outcomes.shift() ?? ok;
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    }
+  };
+}
+
+function createScheduler(provider: LLMProvider, overrides: Partial<RequestSchedulerOptions> = {}) {
+  const sleeps: number[] = [];
+  let clock = 0;
+  const scheduler = new RequestScheduler(provider, {
+    concurrency: 0,
+    maxRetries: 3,
+    retryBaseMs: 1000,
+    retryMaxMs: 60_000,
+    requestsPerMinute: 0,
+    tokensPerMinute: 0,
+    breakerThreshold: 0,
+    breakerCooldownMs: 300_000,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      clock += ms;
+    },
+    now: () => clock,
+    ...overrides
+  });
+  return { scheduler, sleeps };
+}
+
+describe('错误分类', () => {
+  test('429、5xx 与网络错误可重试，其他错误不重试', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(new Error('批量分类解析失败'))).toBe(false);
+  });
+
+  test('应该解析秒数、毫秒与日期形式的 Retry-After', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '7' }))).toBe(7000);
+    expect(getRetryAfterMs(httpError(429, { 'retry-after-ms': '250' }))).toBe(250);
+    const now = Date.parse('2024-05-01T00:00:00Z');
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': 'Wed, 01 May 2024 00:00:30 GMT' }), now)).toBe(30_000);
+    expect(getRetryAfterMs(httpError(500))).toBeNull();
+  });
+});
+
+describe('RequestScheduler', () => {
+  test('临时错误应重试，并优先按 Retry-After 等待', async () => {
+    const provider = flakyProvider([httpError(429, { 'retry-after': '5' }), httpError(502), ok]);
+    const { scheduler, sleeps } = createScheduler(provider);
+
+    expect(await scheduler.classifyBatch(request)).toEqual(ok);
+    expect(provider.calls).toBe(3);
+    expect(sleeps[0]).toBe(5000);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(1000); // 第二次退避：2000 毫秒加抖动
+    expect(sleeps[1]).toBeLessThanOrEqual(2000);
+  });
+
+  test('不可重试的错误直接抛出', async () => {
+    const provider = flakyProvider([httpError(401)]);
+    const { scheduler } = createScheduler(provider);
+    await expect(scheduler.classifyBatch(request)).rejects.toThrow('HTTP 401');
+    expect(provider.calls).toBe(1);
+  });
+
+  test('连续失败达到阈值后熔断，冷却结束后恢复', async () => {
+    const provider = flakyProvider([httpError(500), httpError(500), httpError(500)]);
+    const { scheduler } = createScheduler(provider, { maxRetries: 1, breakerThreshold: 3 });
+
+    await expect(scheduler.classifyBatch(request)).rejects.toThrow('HTTP 500');
+    await expect(scheduler.classifyBatch(request)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(provider.calls).toBe(3);
+    await expect(scheduler.classifyBatch(request)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(provider.calls).toBe(3);
+  });
+
+  test('并发请求数不超过 concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const slowProvider: LLMProvider = {
+      name: 'slow',
+      async classifyBatch() {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return ok;
+      }
+    };
+    const { scheduler } = createScheduler(slowProvider, { concurrency: 2 });
+
+    await Promise.all(Array.from({ length: 5 }, () => scheduler.classifyBatch(request)));
+    expect(maxActive).toBe(2);
+  });
+
+  test('达到每分钟请求数上限时等待窗口滑过', async () => {
+    const { scheduler, sleeps } = createScheduler(flakyProvider([]), { requestsPerMinute: 2 });
+    for (let i = 0; i < 3; i++) {
+      await scheduler.classifyBatch(request);
+    }
+    expect(sleeps).toEqual([60_000]);
+  });
+});
+
+describe('ScheduledEmbeddingProvider', () => {
+  test('向量化请求同样重试，并与分类请求共用熔断', async () => {
+    const outcomes: Error[] = [httpError(429, { 'retry-after': '3' }), httpError(500)];
+    let calls = 0;
+    const embeddings: EmbeddingProvider = {
+      name: 'flaky',
+      model: 'embed',
+      async embed(texts) {
+        calls++;
+        const outcome = outcomes.shift();
+        if (outcome) throw outcome;
+        return { vectors: texts.map(() => [1, 0]), usage: { promptTokens: 10, completionTokens: 0 } };
+      }
+    };
+    const classifier = flakyProvider([]);
+    const { scheduler, sleeps } = createScheduler(classifier, { maxRetries: 1, breakerThreshold: 2 });
+    const provider = new ScheduledEmbeddingProvider(embeddings, scheduler);
+
+    expect(provider.model).toBe('embed');
+    await expect(provider.embed(['a'])).rejects.toThrow('HTTP 500');
+    expect(sleeps).toEqual([3000]);
+    expect(calls).toBe(2);
+
+    // 连续失败达到阈值后熔断，之后的向量化与分类请求都不再发出
+    await expect(provider.embed(['a'])).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(scheduler.classifyBatch(request)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(calls).toBe(2);
+    expect(classifier.calls).toBe(0);
+  });
+});
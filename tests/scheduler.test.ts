@@ -0,0 +1,132 @@
+/**
+ * Scheduler 配置热加载测试
+ */
+
+import { test, describe, expect, beforeEach, afterEach, mock } from "bun:test";
+import { loggerStub } from './setup.js';
+
+mock.module('../src/logger.js', () => ({
+  systemLogger: loggerStub(),
+  setLogLevel: mock()
+}));
+
+// 记录创建的定时任务，不实际调度；到点时由测试直接调用 callback
+interface ScheduledTaskStub {
+  expression: string;
+  callback: () => unknown;
+  stop: ReturnType<typeof mock>;
+}
+const scheduledTasks: ScheduledTaskStub[] = [];
+mock.module('node-cron', () => ({
+  default: {
+    validate: (expression: string) => expression.trim().split(/\s+/).length === 5,
+    schedule: (expression: string, callback: () => unknown) => {
+      const task = { expression, callback, stop: mock() };
+      scheduledTasks.push(task);
+      return task;
+    },
+  },
+}));
+
+// 创建的任务：runOnce 返回的 Promise 在调用 finish 后才完成，名为 broken 的任务在创建时失败
+const services: FakeMainService[] = [];
+class FakeMainService {
+  private finishers: Array<() => void> = [];
+  readonly runOnce = mock(() => new Promise<null>((resolve) => this.finishers.push(() => resolve(null))));
+
+  constructor(readonly job: JobConfig) {
+    if (job.NAME === 'broken') throw new Error('无法创建 AI 提供方');
+    services.push(this);
+  }
+
+  finish(): void {
+    this.finishers.shift()?.();
+  }
+}
+mock.module('../src/service/main.service.js', () => ({ MainService: FakeMainService }));
+
+import { applyConfig, AppConfig, config, JobConfig } from '../src/config.js';
+import { Scheduler } from '../src/scheduler.js';
+import { MainService } from '../src/service/main.service.js';
+
+const jobNamed = (NAME: string): JobConfig => ({ ...config.JOBS[0], NAME });
+// 最近创建的同名任务
+const serviceOf = (name: string) => services.filter(({ job }) => job.NAME === name).at(-1)!;
+
+describe('Scheduler', () => {
+  let originalConfig: AppConfig;
+  let scheduler: Scheduler;
+
+  // 启动调度并取出本次创建的定时任务（与任务顺序一致）
+  const startWith = (names: string[]) => {
+    scheduler = new Scheduler(names.map((name) => new MainService(jobNamed(name))));
+    scheduler.start();
+    return scheduledTasks.splice(0);
+  };
+
+  beforeEach(() => {
+    originalConfig = { ...config };
+    scheduledTasks.length = 0;
+    services.length = 0;
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    applyConfig(originalConfig);
+  });
+
+  test('有任务运行时延后应用新配置，等待期间不再开始新的运行', async () => {
+    const [taskA, taskB] = startWith(['a', 'b']);
+    const threshold = config.SEMANTIC_SIMILARITY_THRESHOLD;
+
+    const running = taskA.callback();
+    scheduler.requestReload({ ...config, SEMANTIC_SIMILARITY_THRESHOLD: threshold / 2, JOBS: [jobNamed('a'), jobNamed('b')] });
+    expect(config.SEMANTIC_SIMILARITY_THRESHOLD).toBe(threshold);
+    expect(scheduledTasks).toEqual([]);
+
+    // 等待期间到点的任务被跳过
+    await taskB.callback();
+    await taskA.callback();
+    expect(serviceOf('b').runOnce).not.toHaveBeenCalled();
+    expect(serviceOf('a').runOnce).toHaveBeenCalledTimes(1);
+
+    serviceOf('a').finish();
+    await running;
+    expect(config.SEMANTIC_SIMILARITY_THRESHOLD).toBe(threshold / 2);
+    expect(taskA.stop).toHaveBeenCalledTimes(1);
+    expect(taskB.stop).toHaveBeenCalledTimes(1);
+
+    // 新配置生效后按新任务恢复运行
+    const [, nextB] = scheduledTasks.splice(0);
+    const next = nextB.callback();
+    expect(serviceOf('b').runOnce).toHaveBeenCalledTimes(1);
+    serviceOf('b').finish();
+    await next;
+  });
+
+  test('空闲时立即应用新配置，无效的 cron 表达式被忽略', () => {
+    const [task] = startWith(['a']);
+
+    scheduler.requestReload({ ...config, JOBS: [{ ...jobNamed('a'), CRON_SCHEDULE: '每天' }] });
+    expect(task.stop).not.toHaveBeenCalled();
+    expect(scheduledTasks).toEqual([]);
+
+    scheduler.requestReload({ ...config, JOBS: [jobNamed('a'), jobNamed('c')] });
+    expect(task.stop).toHaveBeenCalledTimes(1);
+    expect(scheduledTasks).toHaveLength(2);
+    expect(config.JOBS.map((job) => job.NAME)).toEqual(['a', 'c']);
+  });
+
+  test('按新配置创建任务失败时保留原配置与原有定时任务', () => {
+    const [task] = startWith(['a']);
+    const threshold = config.SEMANTIC_SIMILARITY_THRESHOLD;
+
+    scheduler.requestReload({ ...config, SEMANTIC_SIMILARITY_THRESHOLD: threshold / 2, JOBS: [jobNamed('broken')] });
+    expect(config.SEMANTIC_SIMILARITY_THRESHOLD).toBe(threshold);
+    expect(task.stop).not.toHaveBeenCalled();
+    expect(scheduledTasks).toEqual([]);
+
+    scheduler.stop();
+    expect(task.stop).toHaveBeenCalledTimes(1);
+  });
+});
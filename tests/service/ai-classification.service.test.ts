@@ -0,0 +1,266 @@
+/**
+ * AIClassificationService 响应核对测试
+ */
+
+import { test, describe, expect, mock } from "bun:test";
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  aiLogger: loggerStub()
+}));
+
+import {
+  AIClassificationService,
+  reconcileClassifications,
+  sanitizeSuggestedName,
+  sanitizeTargetPath
+} from '../../src/service/ai-classification.service.js';
+import { PromptBuilder, renderTemplate } from '../../src/prompt/index.js';
+import type { ClassificationItem, ClassificationRequest, LLMProvider } from '../../src/provider/types.js';
+import { ResponseParseError } from '../../src/provider/parse.js';
+import type { UsageService } from '../../src/service/usage.service.js';
+
+/**
+ * 按顺序返回预设响应（或抛出预设错误）的提供方，并记录每次请求的文件名
+ */
+function scriptedProvider(
+  responses: Array<ClassificationItem[] | Error>
+): LLMProvider & { requests: string[][]; prompts: ClassificationRequest[] } {
+  const requests: string[][] = [];
+  const prompts: ClassificationRequest[] = [];
+  return {
+    name: 'scripted',
+    requests,
+    prompts,
+    async classifyBatch(request: ClassificationRequest) {
+      requests.push(request.fileNames);
+      prompts.push(request);
+      const items = responses.shift();
+      if (!items) throw new Error('没有更多预设响应');
+      if (items instanceof Error) throw items;
+      return { items };
+    }
+  };
+}
+
+const files = (...names: string[]) => names.map((fileName) => ({ fileName, description: '' }));
+
+describe('目标路径校验', () => {
+  test('应该归一化相对路径', () => {
+    expect(sanitizeTargetPath(' 工作文档\\报告/ ')).toEqual({ path: '工作文档/报告' });
+    expect(sanitizeTargetPath('./图片//截图/.')).toEqual({ path: '图片/截图' });
+    expect(sanitizeTargetPath('')).toEqual({ path: '' });
+  });
+
+  test('应该拒绝不安全的路径', () => {
+    expect(sanitizeTargetPath('../etc')).toEqual({ error: '路径不能包含 ..' });
+    expect(sanitizeTargetPath('文档/../../x')).toEqual({ error: '路径不能包含 ..' });
+    expect(sanitizeTargetPath('/etc/cron.d')).toEqual({ error: '不允许绝对路径' });
+    expect(sanitizeTargetPath('C:\\Windows')).toEqual({ error: '不允许绝对路径' });
+    expect(sanitizeTargetPath('文档\n报告')).toEqual({ error: '路径包含控制字符' });
+  });
+});
+
+describe('响应核对', () => {
+  test('应该拒绝编造、重复与不安全的条目，并列出遗漏的文件', () => {
+    const result = reconcileClassifications(['a.pdf', 'b.zip', 'c.txt'], [
+      { fileName: 'a.pdf', path: '文档' },
+      { fileName: 'a.pdf', path: '其他' },
+      { fileName: 'made-up.doc', path: '文档' },
+      { fileName: 'b.zip', path: '../../tmp' }
+    ]);
+    expect(result.accepted).toEqual([{ fileName: 'a.pdf', path: '文档' }]);
+    expect(result.rejected.map((r) => r.reason)).toEqual(['同一文件的重复结果', '文件不在本批次中', '路径不能包含 ..']);
+    expect(result.missing).toEqual(['b.zip', 'c.txt']);
+  });
+
+  test('文件名首尾空白与 Unicode 组合形式不同时仍能匹配', () => {
+    const decomposed = 'cafe\u0301.txt';
+    const result = reconcileClassifications(['café.txt'], [{ fileName: ` ${decomposed} `, path: '文档' }]);
+    expect(result.accepted).toEqual([{ fileName: 'café.txt', path: '文档' }]);
+  });
+});
+
+describe('追加请求', () => {
+  test('遗漏的文件应单独追加请求，结果按输入顺序返回', async () => {
+    const provider = scriptedProvider([
+      [{ fileName: 'b.zip', path: '压缩包' }, { fileName: 'a.pdf', path: '/etc' }],
+      [{ fileName: 'a.pdf', path: '文档' }, { fileName: 'c.txt', path: '文本' }]
+    ]);
+    const service = new AIClassificationService('test-model', undefined, provider);
+
+    const result = await service.classifyBatch(files('a.pdf', 'b.zip', 'c.txt'), []);
+    expect(provider.requests).toEqual([['a.pdf', 'b.zip', 'c.txt'], ['a.pdf', 'c.txt']]);
+    expect(result).toEqual([
+      { fileName: 'a.pdf', path: '文档' },
+      { fileName: 'b.zip', path: '压缩包' },
+      { fileName: 'c.txt', path: '文本' }
+    ]);
+  });
+
+  test('追加请求失败时保留首轮的有效结果', async () => {
+    const provider = scriptedProvider([[{ fileName: 'a.pdf', path: '文档' }]]);
+    const service = new AIClassificationService('test-model', undefined, provider);
+
+    const result = await service.classifyBatch(files('a.pdf', 'b.zip'), []);
+    expect(result).toEqual([{ fileName: 'a.pdf', path: '文档' }]);
+  });
+
+  test('首轮请求失败时抛出错误', async () => {
+    const service = new AIClassificationService('test-model', undefined, scriptedProvider([]));
+    await expect(service.classifyBatch(files('a.pdf'), [])).rejects.toThrow('没有更多预设响应');
+  });
+});
+
+describe('提示模板与分类体系', () => {
+  test('应该替换变量并保留未知变量', () => {
+    expect(renderTemplate('{{ language }}: {{files}} {{other}}', { language: 'en', files: 'a.pdf' })).toEqual({
+      text: 'en: a.pdf {{other}}',
+      unknown: ['other']
+    });
+  });
+
+  test('封闭分类体系应拒绝列表以外的目录，并在提示中列出允许的目录', async () => {
+    const provider = scriptedProvider([
+      [{ fileName: 'a.pdf', path: '新目录' }, { fileName: 'b.zip', path: '归档/2024' }],
+      [{ fileName: 'a.pdf', path: '文档' }]
+    ]);
+    const prompts = new PromptBuilder({ language: 'en', taxonomy: { dirs: ['文档', '归档'], allowSubdirs: false } });
+    const service = new AIClassificationService('test-model', undefined, provider, prompts);
+
+    const result = await service.classifyBatch(files('a.pdf', 'b.zip'), ['其他/']);
+    expect(result).toEqual([{ fileName: 'a.pdf', path: '文档' }]);
+    expect(provider.requests).toEqual([['a.pdf', 'b.zip'], ['a.pdf', 'b.zip']]);
+    expect(provider.prompts[0].systemPrompt).toContain('never create or rename directories');
+    expect(provider.prompts[0].userPrompt).toContain('Allowed directories (choose only from these):\n  文档\n  归档');
+    expect(provider.prompts[0].userPrompt).not.toContain('其他/');
+  });
+
+  test('允许子目录时接受列表中目录的子目录', () => {
+    const taxonomy = { dirs: ['归档'], allowSubdirs: true };
+    const result = reconcileClassifications(['a.pdf', 'b.zip'], [
+      { fileName: 'a.pdf', path: '归档/2024' },
+      { fileName: 'b.zip', path: '归档2024' }
+    ], taxonomy);
+    expect(result.accepted).toEqual([{ fileName: 'a.pdf', path: '归档/2024' }]);
+    expect(result.rejected.map((r) => r.reason)).toEqual(['不在允许的目录列表中']);
+  });
+});
+
+describe('建议文件名', () => {
+  test('只取文件名部分，去掉非法字符并保留原扩展名', () => {
+    expect(sanitizeSuggestedName('2024-03-01_京都旅行.jpg', 'IMG_20240301_123456.jpg')).toBe('2024-03-01_京都旅行.jpg');
+    expect(sanitizeSuggestedName('../../etc/扫描件: 合同?', 'scan0001.PDF')).toBe('扫描件 合同.PDF');
+    expect(sanitizeSuggestedName('  . ', '下载 (3).pdf')).toBeUndefined();
+    expect(sanitizeSuggestedName('下载 (3).pdf', '下载 (3).pdf')).toBeUndefined();
+  });
+
+  test('开启后请求中要求建议文件名，系统提示包含命名约定', async () => {
+    const provider = scriptedProvider([[{ fileName: 'scan0001.pdf', path: '合同', suggestedName: '2024-03-01_租赁合同.pdf' }]]);
+    const prompts = new PromptBuilder({
+      language: 'zh',
+      taxonomy: { dirs: [], allowSubdirs: false },
+      suggestNames: true,
+      namingConvention: 'YYYY-MM-DD_描述'
+    });
+    const service = new AIClassificationService('test-model', undefined, provider, prompts);
+
+    const result = await service.classifyBatch(files('scan0001.pdf'), []);
+    expect(result).toEqual([{ fileName: 'scan0001.pdf', path: '合同', suggestedName: '2024-03-01_租赁合同.pdf' }]);
+    expect(provider.prompts[0].suggestNames).toBe(true);
+    expect(provider.prompts[0].systemPrompt).toContain('命名约定：YYYY-MM-DD_描述');
+  });
+});
+
+describe('图片输入', () => {
+  test('模型不支持图片时去掉缩略图重试，之后只发送文本', async () => {
+    const unsupported = Object.assign(new Error('400 Invalid content type. image_url is only supported by certain models.'), { status: 400 });
+    const provider = scriptedProvider([
+      unsupported,
+      [{ fileName: 'a.png', path: '截图' }],
+      [{ fileName: 'b.png', path: '截图' }]
+    ]);
+    const service = new AIClassificationService('test-model', undefined, provider, new PromptBuilder({ language: 'zh', taxonomy: { dirs: [], allowSubdirs: false } }));
+    const image = { mimeType: 'image/jpeg', data: 'AAAA' };
+
+    expect(await service.classifyBatch([{ fileName: 'a.png', description: '', image }], [])).toEqual([{ fileName: 'a.png', path: '截图' }]);
+    await service.classifyBatch([{ fileName: 'b.png', description: '', image }], []);
+    expect(provider.prompts.map((p) => p.images?.length ?? 0)).toEqual([1, 0, 0]);
+    expect(provider.prompts[0].images![0]).toEqual({ fileName: 'a.png', mimeType: 'image/jpeg', data: 'AAAA' });
+  });
+});
+
+describe('分批与拆分重试', () => {
+  test('应该按文件数量与估算的提示长度分批', () => {
+    const service = new AIClassificationService('test-model', undefined, scriptedProvider([]));
+    const longDescription = 'EXIF '.repeat(400);
+    const batchFiles = [
+      { fileName: 'a.jpg', description: longDescription },
+      { fileName: 'b.jpg', description: longDescription },
+      ...files('c.txt', 'd.txt', 'e.txt')
+    ];
+
+    expect(service.planBatches([], [], 10, 0)).toEqual([]);
+    expect(service.planBatches(batchFiles, [], 2, 0).map((batch) => batch.length)).toEqual([2, 2, 1]);
+    // 系统提示与目录列表约 250 tokens，每个长描述约 1100 tokens，短文件约 90 tokens
+    expect(service.planBatches(batchFiles, [], 10, 2000).map((batch) => batch.map((f) => f.fileName))).toEqual([
+      ['a.jpg'],
+      ['b.jpg', 'c.txt', 'd.txt', 'e.txt']
+    ]);
+  });
+
+  test('响应无法解析时对半拆分重试，只放弃仍然失败的文件', async () => {
+    const parseError = () => new ResponseParseError('响应缺少 classifications 数组');
+    const provider = scriptedProvider([
+      parseError(),
+      parseError(),
+      [{ fileName: 'a.pdf', path: '文档' }],
+      parseError(),
+      [{ fileName: 'c.txt', path: '文本' }, { fileName: 'd.jpg', path: '图片' }]
+    ]);
+    const service = new AIClassificationService('test-model', undefined, provider);
+
+    const result = await service.classifyBatch(files('a.pdf', 'b.zip', 'c.txt', 'd.jpg'), []);
+    expect(provider.requests).toEqual([['a.pdf', 'b.zip', 'c.txt', 'd.jpg'], ['a.pdf', 'b.zip'], ['a.pdf'], ['b.zip'], ['c.txt', 'd.jpg']]);
+    expect(result).toEqual([
+      { fileName: 'a.pdf', path: '文档' },
+      { fileName: 'c.txt', path: '文本' },
+      { fileName: 'd.jpg', path: '图片' }
+    ]);
+  });
+
+  test('其他错误不拆分', async () => {
+    const provider = scriptedProvider([new Error('HTTP 401')]);
+    const service = new AIClassificationService('test-model', undefined, provider);
+    await expect(service.classifyBatch(files('a.pdf', 'b.zip'), [])).rejects.toThrow('HTTP 401');
+    expect(provider.requests.length).toBe(1);
+  });
+});
+
+describe('用量记录', () => {
+  test('响应无法解析时同样记录 token 用量', async () => {
+    const usage = { promptTokens: 100, completionTokens: 20 };
+    const provider = scriptedProvider([new ResponseParseError('响应中没有 JSON 对象', usage)]);
+    const usageService = { record: mock(), checkBudget: mock(() => null) } as unknown as UsageService;
+    const service = new AIClassificationService('test-model', undefined, provider, undefined, usageService);
+
+    await expect(service.classifyBatch(files('a.pdf'), [])).rejects.toThrow('响应中没有 JSON 对象');
+    expect(usageService.record).toHaveBeenCalledWith('test-model', usage);
+  });
+
+  test('拆分重试前检查预算，用尽后不再发送请求', async () => {
+    const provider = scriptedProvider([
+      new ResponseParseError('响应缺少 classifications 数组', { promptTokens: 100, completionTokens: 20 }),
+      [{ fileName: 'a.pdf', path: '文档' }]
+    ]);
+    // 第一个拆分请求之后预算用尽
+    const checkBudget = mock((): unknown => ({ period: 'daily', spent: 1, limit: 1 }));
+    checkBudget.mockImplementationOnce(() => null);
+    const usageService = { record: mock(), checkBudget } as unknown as UsageService;
+    const service = new AIClassificationService('test-model', undefined, provider, undefined, usageService);
+
+    const result = await service.classifyBatch(files('a.pdf', 'b.zip', 'c.txt', 'd.jpg'), []);
+    expect(provider.requests).toEqual([['a.pdf', 'b.zip', 'c.txt', 'd.jpg'], ['a.pdf', 'b.zip']]);
+    expect(result.map((item) => item.fileName)).toEqual(['a.pdf']);
+  });
+});
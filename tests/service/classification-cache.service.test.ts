@@ -0,0 +1,78 @@
+/**
+ * ClassificationCacheService 分类缓存测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  mainLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { ClassificationCacheService, normalizeCacheName } from '../../src/service/classification-cache.service.js';
+
+describe('ClassificationCacheService', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'classification-cache');
+  const rootDir = path.join(workDir, 'library');
+  const cacheDir = path.join(workDir, 'cache');
+  const job: JobConfig = { ...config.JOBS[0], NAME: 'test', ROOT_DIR: rootDir };
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(rootDir, '软件', '安装包'), { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('按内容哈希命中，未记录的哈希不命中', () => {
+    const cache = new ClassificationCacheService(job, cacheDir, false);
+    cache.set('abc', 'setup.exe', '软件/安装包', '安装程序', 'test-model', 'App 安装包.exe');
+
+    expect(cache.get('abc', '改过名的文件.exe')).toMatchObject({
+      directory: '软件/安装包',
+      reasoning: '安装程序',
+      model: 'test-model',
+      newName: 'App 安装包.exe',
+      hits: 1,
+    });
+    expect(cache.get('def', 'setup.exe')).toBeNull();
+  });
+
+  test('开启文件名匹配后，内容不同的同名文件也命中但不沿用新文件名', () => {
+    const cache = new ClassificationCacheService(job, cacheDir, true);
+    cache.set('abc', 'setup.exe', '软件/安装包', undefined, undefined, 'App 安装包.exe');
+
+    const byName = cache.get('def', 'Setup (1).exe');
+    expect(byName?.directory).toBe('软件/安装包');
+    expect(byName?.newName).toBeUndefined();
+    expect(normalizeCacheName('报告 - 副本.PDF')).toBe('报告.pdf');
+    expect(normalizeCacheName('Report copy 2.pdf')).toBe('report.pdf');
+  });
+
+  test('目标目录已被删除时缓存失效', () => {
+    const cache = new ClassificationCacheService(job, cacheDir, false);
+    cache.set('abc', 'setup.exe', '软件/安装包');
+    fs.rmSync(path.join(rootDir, '软件'), { recursive: true });
+
+    expect(cache.get('abc', 'setup.exe')).toBeNull();
+    cache.flush();
+    expect(new ClassificationCacheService(job, cacheDir, false).list()).toEqual([]);
+  });
+
+  test('缓存与命中次数在重新加载后保留', () => {
+    const cache = new ClassificationCacheService(job, cacheDir, false);
+    cache.set('abc', 'setup.exe', '软件/安装包');
+    cache.get('abc', 'setup.exe');
+    cache.flush();
+
+    const reloaded = new ClassificationCacheService(job, cacheDir, false);
+    expect(reloaded.list()).toEqual([expect.objectContaining({ key: 'hash:abc', directory: '软件/安装包', hits: 1 })]);
+    expect(reloaded.clear()).toBe(1);
+    expect(new ClassificationCacheService(job, cacheDir, false).get('abc', 'setup.exe')).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * DirectoryRetrievalService 相关目录检索测试
+ */
+
+import { test, describe, expect } from "bun:test";
+import { DirectoryRetrievalService, tokenize } from '../../src/service/dir-retrieval.service.js';
+
+const library = [
+  '财务/',
+  '财务/发票/',
+  '财务/发票/2024/',
+  '财务/报销/',
+  '照片/',
+  '照片/旅行/',
+  '照片/旅行/京都/',
+  '工作/',
+  '工作/Reports/',
+  '工作/Reports/Quarterly/',
+  '软件/',
+  '软件/安装包/'
+];
+
+describe('tokenize', () => {
+  test('英文按单词（拆开驼峰），中文按相邻两字', () => {
+    expect(tokenize('QuarterlyReport_2024.pdf')).toEqual(['quarterly', 'report', '2024', 'pdf']);
+    expect(tokenize('2024年发票')).toEqual(['2024', '年发', '发票']);
+  });
+});
+
+describe('DirectoryRetrievalService', () => {
+  test('目录数不超过阈值时使用完整列表', () => {
+    const retrieval = new DirectoryRetrievalService({ maxDirs: 20, topK: 2 });
+    expect(retrieval.select(library, [{ fileName: '发票.pdf', description: '' }])).toBe(library);
+  });
+
+  test('应该只保留顶层目录、相关目录及其上级目录', () => {
+    const retrieval = new DirectoryRetrievalService({ maxDirs: 5, topK: 2 });
+    const dirs = retrieval.select(library, [
+      { fileName: '2024年3月发票.pdf', description: '' },
+      { fileName: 'IMG_0417.jpg', description: '京都旅行照片' }
+    ]);
+    expect(dirs).toEqual(['财务/', '财务/发票/', '财务/发票/2024/', '照片/', '照片/旅行/', '照片/旅行/京都/', '工作/', '软件/']);
+  });
+
+  test('没有相关目录时只列出顶层目录', () => {
+    const retrieval = new DirectoryRetrievalService({ maxDirs: 5, topK: 2 });
+    expect(retrieval.select(library, [{ fileName: 'a.bin', description: '' }])).toEqual(['财务/', '照片/', '工作/', '软件/']);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * DuplicateService 重复文件处理测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  duplicateLogger: loggerStub(),
+  fileMoveLogger: loggerStub()
+}));
+
+import { config, DuplicatePolicy, JobConfig } from '../../src/config.js';
+import { DuplicateService } from '../../src/service/duplicate.service.js';
+import { FileHashService } from '../../src/service/file-hash.service.js';
+import { FileMoveService } from '../../src/service/file-move.service.js';
+import { MoveJournalService } from '../../src/service/move-journal.service.js';
+
+describe('DuplicateService', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'duplicate');
+  const rootDir = path.join(workDir, 'library');
+  const incomingDir = path.join(workDir, 'incoming');
+  const job: JobConfig = { ...config.JOBS[0], NAME: 'test', ROOT_DIR: rootDir, INCOMING_DIR: incomingDir };
+
+  const createService = (policy: DuplicatePolicy) =>
+    new DuplicateService(job, new FileMoveService(new MoveJournalService(path.join(workDir, 'journal'))), new FileHashService(), policy);
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(rootDir, '软件'), { recursive: true });
+    fs.mkdirSync(incomingDir, { recursive: true });
+    fs.writeFileSync(path.join(rootDir, '软件', 'setup.exe'), 'installer');
+    fs.writeFileSync(path.join(incomingDir, 'setup (1).exe'), 'installer');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('只有大小与哈希都相同才视为重复', async () => {
+    fs.writeFileSync(path.join(incomingDir, 'other.exe'), 'installed'); // 大小相同，内容不同
+    const service = createService('skip');
+    const sizeIndex = service.buildSizeIndex(['软件/setup.exe', '软件/已删除.exe']);
+
+    expect(await service.findDuplicate(path.join(incomingDir, 'setup (1).exe'), sizeIndex)).toMatchObject({
+      duplicateOf: '软件/setup.exe',
+    });
+    expect(await service.findDuplicate(path.join(incomingDir, 'other.exe'), sizeIndex)).toBeNull();
+  });
+
+  test('按策略处理重复文件', async () => {
+    const filePath = path.join(incomingDir, 'setup (1).exe');
+    const duplicate = { duplicateOf: '软件/setup.exe', hash: 'abc' };
+
+    expect((await createService('skip').handle(filePath, duplicate, 'run-1')).action).toBe('skipped');
+    expect(fs.existsSync(filePath)).toBe(true);
+
+    const moved = await createService('move').handle(filePath, duplicate, 'run-1');
+    expect(moved.action).toBe('moved');
+    expect(moved.finalPath).toBe(path.join(incomingDir, config.DUPLICATE_DIR, 'setup (1).exe'));
+
+    const deleted = await createService('delete').handle(moved.finalPath!, duplicate, 'run-1');
+    expect(deleted.action).toBe('deleted');
+    expect(fs.existsSync(moved.finalPath!)).toBe(false);
+  });
+
+  test('替换为指向分类库文件的硬链接', async () => {
+    const filePath = path.join(incomingDir, 'setup (1).exe');
+    const duplicate = { duplicateOf: '软件/setup.exe', hash: 'abc' };
+    const service = createService('hardlink');
+
+    expect((await service.handle(filePath, duplicate, 'run-1')).action).toBe('hardlinked');
+    expect(fs.statSync(filePath).ino).toBe(fs.statSync(path.join(rootDir, '软件', 'setup.exe')).ino);
+    expect((await service.handle(filePath, duplicate, 'run-2')).action).toBe('already_linked');
+  });
+
+  test('替换为硬链接后，之后的运行识别为分类库文件直接跳过', async () => {
+    const filePath = path.join(incomingDir, 'setup (1).exe');
+    const service = createService('hardlink');
+    const sizeIndex = service.buildSizeIndex(['软件/setup.exe']);
+    expect(service.isLinkedToLibrary(filePath)).toBe(false);
+
+    const duplicate = await service.findDuplicate(filePath, sizeIndex);
+    expect(duplicate?.duplicateOf).toBe('软件/setup.exe');
+    const decision = await service.handle(filePath, duplicate!, 'run-1');
+    expect(decision.action).toBe('hardlinked');
+    expect(fs.existsSync(filePath)).toBe(true);
+
+    const nextRun = createService('hardlink');
+    nextRun.buildSizeIndex(['软件/setup.exe']);
+    expect(nextRun.isLinkedToLibrary(filePath)).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * EmbeddingIndexService 向量索引与语义匹配测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  aiLogger: loggerStub(),
+  fileInfoLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { MockEmbeddingProvider } from '../../src/provider/index.js';
+import { EmbeddingIndexService } from '../../src/service/embedding-index.service.js';
+import type { FileInfoService } from '../../src/service/file-info.service.js';
+import type { UsageService } from '../../src/service/usage.service.js';
+
+describe('EmbeddingIndexService', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'embeddings');
+  const rootDir = path.join(workDir, 'library');
+  const indexDir = path.join(workDir, 'index');
+  const job: JobConfig = { ...config.JOBS[0], NAME: 'test', ROOT_DIR: rootDir };
+
+  // 描述取文件内容，便于构造语义相近但文件名不同的文件
+  const getDescription = mock(async (filePath: string) => fs.readFileSync(filePath, 'utf8'));
+  const fileInfo = { getFileDescription: getDescription } as unknown as FileInfoService;
+
+  const write = (relPath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, relPath)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, relPath), content);
+  };
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    getDescription.mockClear();
+    config.EMBEDDINGS_BATCH_SIZE = 2;
+    config.EMBEDDINGS_MAX_NEW_PER_RUN = 100;
+    config.EMBEDDINGS_MAX_CHARS = 1000;
+    write('财务/季度财务报告-2024Q1.xlsx', '季度财务报告 营业收入 净利润');
+    write('照片/旅行/IMG_0001.jpg', '拍摄时间 2024-04-01 相机 Canon 京都');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('应该按文件名与描述找到语义最相似的文件', async () => {
+    const service = new EmbeddingIndexService(job, fileInfo, null, new MockEmbeddingProvider(), indexDir);
+    await service.update(['财务/季度财务报告-2024Q1.xlsx', '照片/旅行/IMG_0001.jpg']);
+
+    const [match] = await service.findMostSimilar([{ fileName: 'Q3财报.xlsx', description: '季度财务报告 营业收入' }]);
+    expect(match?.relPath).toBe('财务/季度财务报告-2024Q1.xlsx');
+    expect(match?.dir).toBe('财务');
+    expect(match!.score).toBeGreaterThan(0.5);
+  });
+
+  test('只匹配扩展名兼容的文件', async () => {
+    const service = new EmbeddingIndexService(job, fileInfo, null, new MockEmbeddingProvider(), indexDir);
+    await service.update(['财务/季度财务报告-2024Q1.xlsx', '照片/旅行/IMG_0001.jpg']);
+
+    const [asPdf, asExe] = await service.findMostSimilar([
+      { fileName: 'Q3财报.pdf', description: '季度财务报告 营业收入' },
+      { fileName: 'Q3财报.exe', description: '季度财务报告 营业收入' },
+    ]);
+    expect(asPdf?.relPath).toBe('财务/季度财务报告-2024Q1.xlsx');
+    expect(asExe).toBeNull();
+  });
+
+  test('索引持久化，只为新增或变化的文件重新计算，删除的文件移出索引', async () => {
+    const known = ['财务/季度财务报告-2024Q1.xlsx', '照片/旅行/IMG_0001.jpg'];
+    await new EmbeddingIndexService(job, fileInfo, null, new MockEmbeddingProvider(), indexDir).update(known);
+    expect(getDescription).toHaveBeenCalledTimes(2);
+
+    write('文档/说明.txt', '使用说明');
+    const reloaded = new EmbeddingIndexService(job, fileInfo, null, new MockEmbeddingProvider(), indexDir);
+    await reloaded.update(['财务/季度财务报告-2024Q1.xlsx', '文档/说明.txt']);
+    expect(getDescription).toHaveBeenCalledTimes(3);
+
+    const index = JSON.parse(fs.readFileSync(path.join(indexDir, 'test.json'), 'utf8'));
+    expect(Object.keys(index.entries).sort()).toEqual(['文档/说明.txt', '财务/季度财务报告-2024Q1.xlsx']);
+  });
+
+  test('索引为空时不请求向量化', async () => {
+    const provider = new MockEmbeddingProvider();
+    const embed = mock(provider.embed.bind(provider));
+    provider.embed = embed;
+    const service = new EmbeddingIndexService(job, fileInfo, null, provider, indexDir);
+    expect(await service.findMostSimilar([{ fileName: 'a.txt', description: '' }])).toEqual([null]);
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  test('预算用尽时停止向量化', async () => {
+    const provider = new MockEmbeddingProvider();
+    const embed = mock(provider.embed.bind(provider));
+    provider.embed = embed;
+    const usage = {
+      record: mock(),
+      checkBudget: mock(() => ({ period: 'daily', spent: 1, limit: 1 })),
+    } as unknown as UsageService;
+    const service = new EmbeddingIndexService(job, fileInfo, usage, provider, indexDir);
+
+    await expect(service.update(['财务/季度财务报告-2024Q1.xlsx'])).rejects.toThrow('预算已用尽');
+    expect(embed).not.toHaveBeenCalled();
+  });
+});
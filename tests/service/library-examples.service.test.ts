@@ -0,0 +1,61 @@
+/**
+ * LibraryExamplesService 示例选取测试
+ */
+
+import { test, describe, expect, mock } from "bun:test";
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  aiLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { ExampleBudget, LibraryExamplesService } from '../../src/service/library-examples.service.js';
+
+const job = (taxonomy: string[] = []): JobConfig => ({
+  ...config.JOBS[0],
+  TAXONOMY: { dirs: taxonomy, allowSubdirs: false }
+});
+
+const budget = (overrides: Partial<ExampleBudget> = {}): ExampleBudget => ({
+  perDir: 2,
+  maxDirs: 10,
+  maxTokens: 0,
+  include: [],
+  exclude: [],
+  ...overrides
+});
+
+const library = [
+  '财务/发票/2024/发票-001.pdf',
+  '财务/发票/2024/发票-002.pdf',
+  '财务/发票/2024/发票-003.pdf',
+  '财务/发票/2024/发票-003.xml',
+  '照片/IMG_0001.jpg',
+  '照片/.DS_Store',
+  '说明.txt'
+];
+
+describe('LibraryExamplesService', () => {
+  test('文件多的目录优先，每个目录覆盖不同扩展名', () => {
+    const examples = new LibraryExamplesService(job(), budget()).sample(library);
+    expect(examples).toEqual([
+      { dir: '财务/发票/2024', files: ['发票-002.pdf', '发票-003.xml'] },
+      { dir: '照片', files: ['IMG_0001.jpg'] }
+    ]);
+  });
+
+  test('应该遵守目录数、token 预算与包含/排除列表', () => {
+    expect(new LibraryExamplesService(job(), budget({ maxDirs: 1 })).sample(library).map((e) => e.dir)).toEqual(['财务/发票/2024']);
+    // 发票目录的示例超出预算时跳过，仍可放入更短的目录
+    expect(new LibraryExamplesService(job(), budget({ maxTokens: 15 })).sample(library).map((e) => e.dir)).toEqual(['照片']);
+    expect(new LibraryExamplesService(job(), budget({ include: ['财务'] })).sample(library).map((e) => e.dir)).toEqual(['财务/发票/2024']);
+    expect(new LibraryExamplesService(job(), budget({ exclude: ['财务/'] })).sample(library).map((e) => e.dir)).toEqual(['照片']);
+    expect(new LibraryExamplesService(job(), budget({ perDir: 0 })).sample(library)).toEqual([]);
+  });
+
+  test('封闭分类体系下只参考允许的目录', () => {
+    const examples = new LibraryExamplesService(job(['照片']), budget()).sample(library);
+    expect(examples.map((e) => e.dir)).toEqual(['照片']);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * MoveJournalService 移动日志测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  fileMoveLogger: loggerStub()
+}));
+
+import { createRunId, MoveJournalService } from '../../src/service/move-journal.service.js';
+
+describe('MoveJournalService', () => {
+  const journalDir = path.join(process.cwd(), 'tests', 'fixtures', 'journal');
+  const run = { runId: '20240301T120000-aaaaaa', job: 'test' };
+
+  beforeEach(() => {
+    fs.rmSync(journalDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(journalDir, { recursive: true, force: true });
+  });
+
+  test('运行 ID 按时间字典序排序', () => {
+    expect(createRunId()).toMatch(/^\d{8}T\d{6}-[0-9a-f]{6}$/);
+    const journal = new MoveJournalService(journalDir);
+    journal.recordMove({ runId: '20240302T000000-bbbbbb' }, '/in/b', '/lib/b', 'ai');
+    journal.recordMove(run, '/in/a', '/lib/a', 'similarity');
+    expect(journal.listRunIds()).toEqual([run.runId, '20240302T000000-bbbbbb']);
+  });
+
+  test('撤销过的移动不再出现在可撤销列表中', () => {
+    const journal = new MoveJournalService(journalDir);
+    journal.recordMove(run, '/in/a.pdf', '/lib/文档/a.pdf', 'ai');
+    journal.recordMove(run, '/in/b.pdf', '/lib/文档/b.pdf', 'ai', { renamed: true });
+    journal.recordUndo(journal.readRun(run.runId)[0]);
+
+    expect(journal.getActiveMoves(run.runId).map((move) => move.source)).toEqual([path.resolve('/in/b.pdf')]);
+    expect(journal.summarizeRuns()).toEqual([
+      { runId: run.runId, job: 'test', startedAt: expect.any(String), moved: 2, undone: 1 }
+    ]);
+  });
+
+  test('按最终路径或原始路径查找最近一次移动', () => {
+    const journal = new MoveJournalService(journalDir);
+    journal.recordMove(run, '/in/a.pdf', '/lib/旧/a.pdf', 'ai');
+    journal.recordMove({ runId: '20240302T000000-bbbbbb' }, '/lib/旧/a.pdf', '/lib/新/a.pdf', 'similarity');
+
+    expect(journal.findLatestMove('/lib/新/a.pdf')?.method).toBe('similarity');
+    expect(journal.findLatestMove('/in/a.pdf')?.target).toBe(path.resolve('/lib/旧/a.pdf'));
+    expect(journal.findLatestMove('/lib/其他.pdf')).toBeNull();
+  });
+
+  test('应该跳过中断时留下的不完整日志行', () => {
+    const journal = new MoveJournalService(journalDir);
+    journal.recordMove(run, '/in/a.pdf', '/lib/a.pdf', 'ai');
+    fs.appendFileSync(path.join(journalDir, `${run.runId}.jsonl`), '{"type":"mo');
+    expect(journal.readRun(run.runId)).toHaveLength(1);
+  });
+});
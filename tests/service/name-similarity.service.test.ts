@@ -0,0 +1,49 @@
+/**
+ * 文件名归一化与相似度测试
+ */
+
+import { test, describe, expect, mock } from "bun:test";
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  mainLogger: loggerStub()
+}));
+
+import { extensionsCompatible, nameSimilarity, normalizeName } from '../../src/service/name-similarity.service.js';
+
+describe('文件名归一化', () => {
+  test('应该去掉版本号、日期、副本后缀与架构标记', () => {
+    expect(normalizeName('App-1.2.3-x64-Setup.EXE')).toEqual({ tokens: ['app', 'setup'], ext: 'exe' });
+    expect(normalizeName('发票_2024-03-01 (1).pdf').tokens).toEqual(['发票']);
+    expect(normalizeName('合同 - 副本.docx').tokens).toEqual(['合同']);
+    expect(normalizeName('Copy of budget v2 copy 2.xlsx').tokens).toEqual(['budget']);
+    expect(normalizeName('IMG_20240301_123456.jpg').tokens).toEqual(['img']);
+  });
+});
+
+describe('文件名相似度', () => {
+  test('同一软件的不同版本与构建应该视为相同', () => {
+    expect(nameSimilarity('app-1.2.3-x64-setup.exe', 'app-2.0.0-arm64-setup.exe')).toBe(1);
+    expect(nameSimilarity('季度报告 2024-03-01.pdf', '季度报告 2023-12-31 (2).pdf')).toBe(1);
+  });
+
+  test('去掉噪声后没有共同词的短文件名不应该相似', () => {
+    expect(nameSimilarity('a.pdf', 'b.pdf')).toBe(0);
+    expect(nameSimilarity('2024-03-01.pdf', '2024-03-02.pdf')).toBe(0);
+    expect(nameSimilarity('budget.xlsx', 'holiday.xlsx')).toBe(0);
+  });
+
+  test('序号不同的文件只按共同词计算', () => {
+    const score = nameSimilarity('IMG_0001.jpg', 'IMG_0002.jpg');
+    expect(score).toBeGreaterThan(0.65);
+    expect(score).toBeLessThan(1);
+  });
+
+  test('扩展名不兼容时不匹配', () => {
+    expect(nameSimilarity('setup-guide.pdf', 'setup-guide.exe')).toBe(0);
+    expect(nameSimilarity('报告.pdf', '报告.docx')).toBe(1);
+    expect(extensionsCompatible('jpg', 'heic')).toBe(true);
+    expect(extensionsCompatible('pdf', 'exe')).toBe(false);
+    expect(extensionsCompatible('foo', 'bar')).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * PendingReviewService 待审核目录测试
+ */
+
+import { test, describe, expect, beforeAll, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  mainLogger: loggerStub(),
+  fileMoveLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { ClassificationCacheService } from '../../src/service/classification-cache.service.js';
+import { FileMoveService } from '../../src/service/file-move.service.js';
+import { MoveJournalService } from '../../src/service/move-journal.service.js';
+import { PendingReviewService } from '../../src/service/pending-review.service.js';
+
+describe('PendingReviewService', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'pending-review');
+  const rootDir = path.join(workDir, 'library');
+  const incomingDir = path.join(workDir, 'incoming');
+  const job: JobConfig = { ...config.JOBS[0], NAME: 'test', ROOT_DIR: rootDir, INCOMING_DIR: incomingDir };
+  const original = { threshold: config.REVIEW_CONFIDENCE_THRESHOLD, newTopLevel: config.REVIEW_NEW_TOP_LEVEL };
+  let service: PendingReviewService;
+
+  const incoming = (name: string) => {
+    const filePath = path.join(incomingDir, name);
+    fs.writeFileSync(filePath, name);
+    return filePath;
+  };
+
+  beforeAll(() => {
+    config.REVIEW_CONFIDENCE_THRESHOLD = 0.6;
+    config.REVIEW_NEW_TOP_LEVEL = true;
+  });
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(rootDir, '文档'), { recursive: true });
+    fs.mkdirSync(incomingDir, { recursive: true });
+    service = new PendingReviewService(job, new FileMoveService(new MoveJournalService(path.join(workDir, 'journal'))));
+  });
+
+  afterAll(() => {
+    config.REVIEW_CONFIDENCE_THRESHOLD = original.threshold;
+    config.REVIEW_NEW_TOP_LEVEL = original.newTopLevel;
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('低置信度或需要新建顶层目录时需要审核', () => {
+    expect(service.getHoldReason('文档/笔记', 0.3)).toBe('low_confidence');
+    expect(service.getHoldReason('新分类/笔记', 0.9)).toBe('new_top_level');
+    expect(service.getHoldReason('文档/笔记', 0.9)).toBeNull();
+    expect(service.getHoldReason('文档', undefined)).toBeNull();
+  });
+
+  test('移入待审核目录后批准，移动到建议目录并删除记录文件', async () => {
+    const source = incoming('季度报告.pdf');
+    const heldPath = await service.hold(source, {
+      proposedDir: '文档/报告',
+      reasoning: '季度报告',
+      confidence: 0.4,
+      reason: 'low_confidence',
+      model: 'test-model',
+      hash: 'abc',
+      runId: 'run-1',
+    });
+    expect(heldPath).toBe(path.join(incomingDir, config.REVIEW_DIR, '季度报告.pdf'));
+    expect(fs.existsSync(source)).toBe(false);
+
+    const [item] = service.list();
+    expect(item).toMatchObject({ name: '季度报告.pdf', fileName: '季度报告.pdf', source, proposedDir: '文档/报告', reason: 'low_confidence' });
+
+    const cache = new ClassificationCacheService(job, path.join(workDir, 'cache'), false);
+    const finalPath = await service.approve(item, 'run-2', undefined, cache);
+    expect(finalPath).toBe(path.join(rootDir, '文档', '报告', '季度报告.pdf'));
+    expect(fs.existsSync(item.sidecarPath)).toBe(false);
+    expect(service.list()).toEqual([]);
+    expect(cache.get('abc', '季度报告.pdf')).toMatchObject({ directory: '文档/报告', model: 'test-model' });
+  });
+
+  test('改派到其他目录，拒绝分类库之外的目录', async () => {
+    await service.hold(incoming('notes.txt'), { proposedDir: '新分类', reason: 'new_top_level', runId: 'run-1' });
+    const [item] = service.list();
+
+    await expect(service.approve(item, 'run-2', '../外部')).rejects.toThrow('目标目录无效');
+    expect(fs.existsSync(item.filePath)).toBe(true);
+
+    const finalPath = await service.approve(item, 'run-2', '文档/笔记');
+    expect(finalPath).toBe(path.join(rootDir, '文档', '笔记', 'notes.txt'));
+    expect(fs.existsSync(path.join(rootDir, '新分类'))).toBe(false);
+  });
+
+  test('启用封闭分类体系时拒绝允许列表以外的目录', async () => {
+    const taxonomyJob: JobConfig = { ...job, TAXONOMY: { dirs: ['文档'], allowSubdirs: true } };
+    const taxonomyService = new PendingReviewService(taxonomyJob, new FileMoveService(new MoveJournalService(path.join(workDir, 'journal'))));
+    await taxonomyService.hold(incoming('plan.md'), { proposedDir: '新分类', reason: 'new_top_level', runId: 'run-1' });
+    const [item] = taxonomyService.list();
+
+    await expect(taxonomyService.approve(item, 'run-2')).rejects.toThrow('目标目录 新分类 不在分类体系的允许列表中: 文档');
+    await expect(taxonomyService.approve(item, 'run-2', '项目')).rejects.toThrow('不在分类体系的允许列表中');
+    expect(fs.existsSync(item.filePath)).toBe(true);
+    expect(fs.existsSync(path.join(rootDir, '项目'))).toBe(false);
+
+    const finalPath = await taxonomyService.approve(item, 'run-2', '文档/计划');
+    expect(finalPath).toBe(path.join(rootDir, '文档', '计划', 'plan.md'));
+  });
+
+  test('文件已被手动移走的记录不再列出', async () => {
+    const heldPath = await service.hold(incoming('a.pdf'), { proposedDir: '文档', reason: 'low_confidence', runId: 'run-1' });
+    fs.unlinkSync(heldPath!);
+    expect(service.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * PlanService 执行移动计划测试
+ */
+
+import { test, describe, expect, beforeAll, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  mainLogger: loggerStub(),
+  fileMoveLogger: loggerStub(),
+  duplicateLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { ClassificationCacheService } from '../../src/service/classification-cache.service.js';
+import { MoveJournalService } from '../../src/service/move-journal.service.js';
+import { MovePlan, MovePlanEntry, PlanService } from '../../src/service/plan.service.js';
+
+describe('PlanService.apply', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'plan');
+  const rootDir = path.join(workDir, 'library');
+  const incomingDir = path.join(workDir, 'incoming');
+  const job: JobConfig = { ...config.JOBS[0], NAME: 'test', ROOT_DIR: rootDir, INCOMING_DIR: incomingDir };
+  const originalDataDir = config.DATA_DIR;
+  const planService = new PlanService(path.join(workDir, 'plans'));
+
+  const incoming = (name: string, content: string) => {
+    const filePath = path.join(incomingDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const planOf = (entries: MovePlanEntry[]): MovePlan => ({
+    version: 1,
+    runId: '20240301T120000-aaaaaa',
+    job: 'test',
+    createdAt: new Date().toISOString(),
+    rootDir,
+    incomingDir,
+    entries,
+  });
+
+  beforeAll(() => {
+    config.DATA_DIR = path.join(workDir, 'data');
+  });
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(rootDir, '软件'), { recursive: true });
+    fs.mkdirSync(incomingDir, { recursive: true });
+    fs.writeFileSync(path.join(rootDir, '软件', 'setup.exe'), 'installer');
+  });
+
+  afterAll(() => {
+    config.DATA_DIR = originalDataDir;
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('按计划移动并重命名，写入移动日志与分类缓存', async () => {
+    const entry = await planService.createEntry(incoming('scan001.pdf', '发票'), '财务/发票', 'ai', {
+      newName: '2024-03 电费发票.pdf',
+      reasoning: '电费发票',
+      model: 'test-model',
+    });
+    const report = await planService.apply(planOf([entry]), job);
+
+    expect(report.moved).toEqual([entry]);
+    expect(fs.existsSync(path.join(rootDir, '财务', '发票', '2024-03 电费发票.pdf'))).toBe(true);
+    expect(fs.existsSync(entry.source)).toBe(false);
+
+    const [move] = new MoveJournalService().getActiveMoves(report.runId);
+    expect(move).toMatchObject({ source: entry.source, method: 'ai', originalName: 'scan001.pdf' });
+    expect(new ClassificationCacheService(job).get(entry.hash, entry.fileName)).toMatchObject({
+      directory: '财务/发票',
+      model: 'test-model',
+      newName: '2024-03 电费发票.pdf',
+    });
+  });
+
+  test('生成计划后内容变化或已删除的文件应该跳过', async () => {
+    const changed = await planService.createEntry(incoming('a.txt', 'aaaa'), '文档', 'rule');
+    const missing = await planService.createEntry(incoming('b.txt', 'bbbb'), '文档', 'rule');
+    incoming('a.txt', 'cccc'); // 大小不变，只有哈希不同
+    fs.unlinkSync(missing.source);
+
+    const report = await planService.apply(planOf([changed, missing]), job);
+    expect(report.moved).toEqual([]);
+    expect(report.changed).toEqual([changed]);
+    expect(report.missing).toEqual([missing]);
+    expect(fs.readFileSync(changed.source, 'utf8')).toBe('cccc');
+    expect(fs.existsSync(path.join(rootDir, '文档'))).toBe(false);
+  });
+
+  test('重复文件按计划中的策略处理，分类库文件变化时跳过', async () => {
+    const duplicate = await planService.createEntry(incoming('setup (1).exe', 'installer'), config.DUPLICATE_DIR, 'duplicate', {
+      duplicateOf: '软件/setup.exe',
+      policy: 'move',
+    });
+    const stale = await planService.createEntry(incoming('setup (2).exe', 'installer'), config.DUPLICATE_DIR, 'duplicate', {
+      duplicateOf: '软件/setup.exe',
+      policy: 'move',
+    });
+
+    const report = await planService.apply(planOf([duplicate]), job);
+    expect(report.moved).toEqual([duplicate]);
+    expect(fs.existsSync(path.join(incomingDir, config.DUPLICATE_DIR, 'setup (1).exe'))).toBe(true);
+
+    fs.writeFileSync(path.join(rootDir, '软件', 'setup.exe'), 'installer v2');
+    const staleReport = await planService.apply(planOf([stale]), job);
+    expect(staleReport.changed).toEqual([stale]);
+    expect(fs.existsSync(stale.source)).toBe(true);
+  });
+
+  test('需要审核的条目移入待审核目录并保存审核记录', async () => {
+    const entry = await planService.createEntry(incoming('notes.md', '笔记'), '新分类/笔记', 'review', {
+      confidence: 0.3,
+      holdReason: 'low_confidence',
+    });
+    const report = await planService.apply(planOf([entry]), job);
+
+    const heldPath = path.join(incomingDir, config.REVIEW_DIR, 'notes.md');
+    expect(report.moved).toEqual([entry]);
+    expect(fs.existsSync(heldPath)).toBe(true);
+    expect(JSON.parse(fs.readFileSync(`${heldPath}.review.json`, 'utf8'))).toMatchObject({
+      proposedDir: '新分类/笔记',
+      reason: 'low_confidence',
+      confidence: 0.3,
+    });
+    expect(fs.existsSync(path.join(rootDir, '新分类'))).toBe(false);
+  });
+
+  test('计划目录与任务配置不一致时拒绝执行', async () => {
+    const entry = await planService.createEntry(incoming('a.txt', 'aaaa'), '文档', 'rule');
+    const plan = { ...planOf([entry]), rootDir: path.join(workDir, 'other') };
+
+    await expect(planService.apply(plan, job)).rejects.toThrow('不一致');
+    expect(fs.existsSync(entry.source)).toBe(true);
+  });
+
+  test('目标超出分类库、不在分类体系内或重复文件路径无效的条目记为失败', async () => {
+    const escaping = await planService.createEntry(incoming('a.txt', 'aaaa'), '../外部', 'rule');
+    const outsideTaxonomy = await planService.createEntry(incoming('b.txt', 'bbbb'), '其他', 'ai');
+    const fakeDuplicate = await planService.createEntry(incoming('c.txt', 'cccc'), config.DUPLICATE_DIR, 'duplicate', {
+      duplicateOf: '../../c.txt',
+      policy: 'delete',
+    });
+    const ruled = await planService.createEntry(incoming('d.txt', 'dddd'), '其他', 'rule');
+    const taxonomyJob: JobConfig = { ...job, TAXONOMY: { dirs: ['文档'], allowSubdirs: false } };
+
+    const report = await planService.apply(planOf([escaping, outsideTaxonomy, fakeDuplicate, ruled]), taxonomyJob);
+    expect(report.failed.map(({ entry, error }) => [entry.fileName, error])).toEqual([
+      ['a.txt', '目标目录无效: 路径不能包含 ..'],
+      ['b.txt', '目标目录不在分类体系的允许列表中'],
+      ['c.txt', '重复文件路径无效: 路径不能包含 ..'],
+    ]);
+    // 规则的目标不受分类体系限制
+    expect(report.moved).toEqual([ruled]);
+    for (const entry of [escaping, outsideTaxonomy, fakeDuplicate]) {
+      expect(fs.existsSync(entry.source)).toBe(true);
+    }
+    expect(fs.existsSync(path.join(workDir, '外部'))).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * AI 请求录制与离线回放测试
+ */
+
+import { test, describe, expect, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  aiLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { AIClassificationService } from '../../src/service/ai-classification.service.js';
+import { AIRecordingService } from '../../src/service/ai-recording.service.js';
+import { diffLines, ReplayService } from '../../src/service/replay.service.js';
+import { PromptBuilder } from '../../src/prompt/index.js';
+import type { ClassificationItem, LLMProvider } from '../../src/provider/types.js';
+
+describe('ReplayService', () => {
+  const recordDir = path.join(process.cwd(), 'tests', 'fixtures', 'recordings');
+  const job: JobConfig = { ...config.JOBS[0], NAME: 'test', TAXONOMY: { dirs: [], allowSubdirs: false } };
+
+  afterAll(() => {
+    fs.rmSync(recordDir, { recursive: true, force: true });
+  });
+
+  // 录制一次运行：首轮遗漏 notes.txt，追加请求后补齐
+  async function recordRun(): Promise<AIRecordingService> {
+    const responses: ClassificationItem[][] = [
+      [{ fileName: '发票.pdf', path: '财务/发票' }],
+      [{ fileName: 'notes.txt', path: '文档' }],
+    ];
+    fs.rmSync(recordDir, { recursive: true, force: true });
+    const provider: LLMProvider = { name: 'scripted', classifyBatch: async () => ({ items: responses.shift() ?? [] }) };
+    const recordings = new AIRecordingService(recordDir);
+    recordings.startRun('run-1');
+    const service = new AIClassificationService('model-a', 'test', provider, PromptBuilder.forJob(job), null, undefined, recordings);
+    await service.classifyBatch(
+      [{ fileName: '发票.pdf', description: '发票' }, { fileName: 'notes.txt', description: '笔记' }],
+      ['财务/', '文档/']
+    );
+    return recordings;
+  }
+
+  test('应该录制每次请求的提示、模型与解析结果', async () => {
+    const records = (await recordRun()).readRun('run-1');
+    expect(records).toHaveLength(2);
+    expect(records.map((record) => record.followUp)).toEqual([false, true]);
+    expect(records[0].model).toBe('model-a');
+    expect(records[0].job).toBe('test');
+    expect(records[0].userPrompt).toContain('发票.pdf');
+    expect(records[1].files.map((file) => file.fileName)).toEqual(['notes.txt']);
+  });
+
+  test('配置未变化时回放结果与录制一致，不发出网络请求', async () => {
+    const records = (await recordRun()).readRun('run-1');
+    const report = await new ReplayService({ ...job, OPENAI_MODEL: 'model-a' }).replay(records);
+    expect(report.unmatched).toBe(0);
+    expect(report.comparisons.every((comparison) => !comparison.systemChanged && !comparison.userChanged)).toBe(true);
+    expect(report.files).toEqual([
+      { fileName: '发票.pdf', recorded: { dir: '财务/发票' }, replayed: { dir: '财务/发票' } },
+      { fileName: 'notes.txt', recorded: { dir: '文档' }, replayed: { dir: '文档' } },
+    ]);
+  });
+
+  test('分类体系与模型变化后应该报告提示差异与结果变化', async () => {
+    const records = (await recordRun()).readRun('run-1');
+    const changed = { ...job, OPENAI_MODEL: 'model-b', TAXONOMY: { dirs: ['财务'], allowSubdirs: true } };
+    const report = await new ReplayService(changed).replay(records);
+
+    expect(report.comparisons[0].recordedModel).toBe('model-a');
+    expect(report.comparisons[0].model).toBe('model-b');
+    expect(report.comparisons[0].systemChanged).toBe(true);
+    expect(report.comparisons[0].diff.some((line) => line.startsWith('+ '))).toBe(true);
+    expect(report.files[0].replayed).toEqual({ dir: '财务/发票' });
+    expect(report.files[1]).toEqual({ fileName: 'notes.txt', recorded: { dir: '文档' }, replayed: null });
+  });
+});
+
+describe('diffLines', () => {
+  test('应该只返回变化的行', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual(['- b', '+ x']);
+    expect(diffLines('same', 'same')).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * ReviewService 交互式审核测试
+ */
+
+import { test, describe, expect } from "bun:test";
+import { PassThrough } from 'node:stream';
+
+import { normalizeReviewDir, ReviewService } from '../../src/service/review.service.js';
+import type { MovePlan, MovePlanEntry } from '../../src/service/plan.service.js';
+
+const entry = (fileName: string, targetDir: string, extra: Partial<MovePlanEntry> = {}): MovePlanEntry => ({
+  fileName,
+  source: `/incoming/${fileName}`,
+  targetDir,
+  method: 'ai',
+  hash: fileName,
+  size: 1,
+  mtimeMs: 0,
+  ...extra,
+});
+
+const plan: MovePlan = {
+  version: 1,
+  runId: '20240301T120000-aaaaaa',
+  job: 'test',
+  createdAt: '2024-03-01T12:00:00.000Z',
+  rootDir: '/library',
+  incomingDir: '/incoming',
+  entries: [
+    entry('发票.pdf', '财务/发票', { confidence: 0.9, reasoning: '电费发票' }),
+    entry('notes.txt', '文档'),
+    entry('setup (1).exe', '重复文件', { method: 'duplicate', duplicateOf: '软件/setup.exe', policy: 'move' }),
+    entry('photo.jpg', '照片'),
+  ],
+};
+
+// 以预先写入的输入行驱动审核，返回审核结果与终端输出
+async function runReview(lines: string[]) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let printed = '';
+  output.on('data', (chunk) => (printed += chunk.toString()));
+  input.write(lines.map((line) => `${line}\n`).join(''));
+  input.end();
+
+  const service = new ReviewService(input, output);
+  try {
+    const result = await service.review(plan, ['财务/', '财务/发票/', '文档/']);
+    return { ...result, printed };
+  } finally {
+    service.close();
+  }
+}
+
+describe('ReviewService', () => {
+  test('接受、修改目录与跳过', async () => {
+    const { plan: approved, summary, printed } = await runReview(['a', 'e', '../外部', '工作/笔记', 'e', 's', '']);
+
+    expect(approved.entries.map((e) => [e.fileName, e.targetDir])).toEqual([
+      ['发票.pdf', '财务/发票'],
+      ['notes.txt', '工作/笔记'],
+      ['photo.jpg', '照片'],
+    ]);
+    expect(summary).toEqual({ accepted: 2, edited: 1, skipped: 1 });
+    expect(printed).toContain('理由: 电费发票');
+    expect(printed).toContain('置信度: 90%');
+    expect(printed).toContain('目录无效');
+    // 重复文件不能修改目录
+    expect(printed).toContain('无效的选项');
+  });
+
+  test('接受剩余全部与跳过剩余全部', async () => {
+    const acceptAll = await runReview(['s', 'A']);
+    expect(acceptAll.plan.entries.map((e) => e.fileName)).toEqual(['notes.txt', 'setup (1).exe', 'photo.jpg']);
+    expect(acceptAll.summary).toEqual({ accepted: 3, edited: 0, skipped: 1 });
+
+    const quit = await runReview(['a', 'q']);
+    expect(quit.plan.entries.map((e) => e.fileName)).toEqual(['发票.pdf']);
+    expect(quit.summary).toEqual({ accepted: 1, edited: 0, skipped: 3 });
+  });
+
+  test('输入结束时跳过剩余全部，并拒绝执行', async () => {
+    const { plan: approved, summary } = await runReview(['a']);
+    expect(approved.entries).toHaveLength(1);
+    expect(summary.skipped).toBe(3);
+
+    const input = new PassThrough();
+    const service = new ReviewService(input, new PassThrough());
+    input.end();
+    expect(await service.confirm(1)).toBe(false);
+    service.close();
+  });
+
+  test('确认执行', async () => {
+    const input = new PassThrough();
+    const service = new ReviewService(input, new PassThrough());
+    input.write('Y\n');
+    expect(await service.confirm(3)).toBe(true);
+    service.close();
+  });
+});
+
+describe('normalizeReviewDir', () => {
+  test('只接受分类库内的相对路径', () => {
+    expect(normalizeReviewDir(' 财务/发票/ ')).toBe('财务/发票');
+    expect(normalizeReviewDir('财务\\发票')).toBe('财务/发票');
+    expect(normalizeReviewDir('/etc')).toBeNull();
+    expect(normalizeReviewDir('财务/../..')).toBeNull();
+    expect(normalizeReviewDir('./财务')).toBeNull();
+    expect(normalizeReviewDir('   ')).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * RuleEngineService 单元测试
+ */
+
+import { test, describe, expect, beforeAll, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('exiftool-vendored', () => ({
+  exiftool: {
+    read: mock(() => Promise.resolve({ MIMEType: 'image/jpeg', Make: 'Canon', Model: 'Canon EOS R6' })),
+    end: mock(() => Promise.resolve())
+  }
+}));
+
+mock.module('../../src/logger.js', () => ({
+  ruleLogger: loggerStub(),
+  fileInfoLogger: loggerStub()
+}));
+
+import { RuleEngineService, parseSize, globToRegExp } from '../../src/service/rule-engine.service.js';
+import { FileInfoService } from '../../src/service/file-info.service.js';
+
+describe('RuleEngineService 规则匹配测试', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'rule-engine');
+
+  beforeAll(() => {
+    fs.mkdirSync(workDir, { recursive: true });
+    fs.writeFileSync(path.join(workDir, 'ubuntu-24.04.iso'), 'x'.repeat(2048));
+    fs.writeFileSync(path.join(workDir, 'movie.torrent'), 'd8:announce');
+    fs.writeFileSync(path.join(workDir, 'IMG_0001.jpg'), 'jpeg');
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('应该解析带单位的大小', () => {
+    expect(parseSize(100)).toBe(100);
+    expect(parseSize('1KB')).toBe(1024);
+    expect(parseSize('1.5 mb')).toBe(1.5 * 1024 * 1024);
+    expect(() => parseSize('abc')).toThrow();
+  });
+
+  test('应该将通配符转换为正则', () => {
+    expect(globToRegExp('*.torrent').test('Movie.TORRENT')).toBe(true);
+    expect(globToRegExp('*.{iso,img}').test('disk.img')).toBe(true);
+    expect(globToRegExp('scan?.pdf').test('scan10.pdf')).toBe(false);
+  });
+
+  test('应该按扩展名匹配并渲染模板', async () => {
+    const engine = new RuleEngineService([
+      { name: '镜像', match: { extensions: ['iso'] }, target: '镜像/{ext}' }
+    ]);
+    const result = await engine.match(path.join(workDir, 'ubuntu-24.04.iso'));
+    expect(result?.rule.name).toBe('镜像');
+    expect(result?.targetDir).toBe('镜像/iso');
+  });
+
+  test('应该按优先级选择规则，相同优先级按声明顺序', async () => {
+    const engine = new RuleEngineService([
+      { name: '通用', match: { glob: '*' }, target: '其他' },
+      { name: '种子', priority: 10, match: { glob: '*.torrent' }, target: '种子' },
+      { name: '种子-备用', priority: 10, match: { extensions: ['.torrent'] }, target: '种子备用' }
+    ]);
+    const result = await engine.match(path.join(workDir, 'movie.torrent'));
+    expect(result?.rule.name).toBe('种子');
+  });
+
+  test('所有条件需同时满足', async () => {
+    const engine = new RuleEngineService([
+      { name: '大镜像', match: { extensions: ['.iso'], size_min: '1MB' }, target: '大镜像' }
+    ]);
+    expect(await engine.match(path.join(workDir, 'ubuntu-24.04.iso'))).toBeNull();
+  });
+
+  test('应该按 MIME 与 EXIF 匹配', async () => {
+    const engine = new RuleEngineService(
+      [
+        {
+          name: '佳能照片',
+          match: { mime: 'image/*', exif: { Make: 'canon', Model: '/EOS/' } },
+          target: '照片/{exif.Make}/{mime_type}'
+        }
+      ],
+      new FileInfoService()
+    );
+    const result = await engine.match(path.join(workDir, 'IMG_0001.jpg'));
+    expect(result?.targetDir).toBe('照片/Canon/image');
+  });
+
+  test('目标目录渲染到分类库之外时跳过该规则', async () => {
+    const engine = new RuleEngineService([
+      { name: '越界', priority: 10, match: { extensions: ['iso'] }, target: '../外部/{ext}' },
+      { name: '绝对路径', priority: 5, match: { extensions: ['iso'] }, target: '/tmp/{ext}' },
+      { name: '镜像', match: { extensions: ['iso'] }, target: './镜像//{ext}' }
+    ]);
+    const result = await engine.match(path.join(workDir, 'ubuntu-24.04.iso'));
+    expect(result?.rule.name).toBe('镜像');
+    expect(result?.targetDir).toBe('镜像/iso');
+  });
+});
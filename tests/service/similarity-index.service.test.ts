@@ -0,0 +1,75 @@
+/**
+ * SimilarityIndexService 文件名相似度索引测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  mainLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { nameSimilarity } from '../../src/service/name-similarity.service.js';
+import { SimilarityIndexService } from '../../src/service/similarity-index.service.js';
+
+describe('SimilarityIndexService', () => {
+  const indexDir = path.join(process.cwd(), 'tests', 'fixtures', 'similarity');
+  const job: JobConfig = { ...config.JOBS[0], NAME: 'test' };
+  const library = [
+    '软件/安装包/app-1.2.3-x64-setup.exe',
+    '财务/发票/发票-2024-03-01.pdf',
+    '财务/报告/季度财务报告-2024Q1.xlsx',
+    '文档/invoices-april.pdf',
+    '照片/旅行/IMG_0001.jpg',
+  ];
+
+  beforeEach(() => {
+    fs.rmSync(indexDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(indexDir, { recursive: true, force: true });
+  });
+
+  test('应该与逐个比较全部文件的结果一致', () => {
+    const index = new SimilarityIndexService(job, indexDir);
+    index.update(library);
+
+    for (const query of ['app-2.0.0-arm64-setup.exe', '发票 2023-12-05 (1).pdf', 'invoice-march.pdf', 'IMG_0042.jpg', '季度财务报告-2024Q3.xlsx']) {
+      const scores = library.map((relPath) => nameSimilarity(query, path.basename(relPath)));
+      const best = Math.max(...scores);
+      const [match] = index.findMostSimilar(query);
+      expect(match.score).toBeCloseTo(best, 9);
+      expect(match.relPath).toBe(library[scores.indexOf(best)]);
+    }
+  });
+
+  test('没有共同词或扩展名不兼容时没有结果', () => {
+    const index = new SimilarityIndexService(job, indexDir);
+    index.update(library);
+    expect(index.findMostSimilar('setup.pdf')).toEqual([]);
+    expect(index.findMostSimilar('a.pdf')).toEqual([]);
+  });
+
+  test('应该按相似度返回前 k 个文件', () => {
+    const index = new SimilarityIndexService(job, indexDir);
+    index.update(library);
+    const matches = index.findMostSimilar('发票-invoice.pdf', 2);
+    expect(matches.map((match) => match.dir)).toEqual(['文档', '财务/发票']);
+    expect(matches[0].score).toBeGreaterThanOrEqual(matches[1].score);
+  });
+
+  test('索引持久化，删除的文件移出索引', () => {
+    new SimilarityIndexService(job, indexDir).update(library);
+    const reloaded = new SimilarityIndexService(job, indexDir);
+    reloaded.update([...library.slice(1), '文档/新文件.txt']);
+
+    const saved = JSON.parse(fs.readFileSync(path.join(indexDir, 'test.json'), 'utf8'));
+    expect(Object.keys(saved.entries)).toHaveLength(library.length);
+    expect(saved.entries['文档/新文件.txt']).toEqual({ tokens: ['新文', '文件'], ext: 'txt' });
+    expect(reloaded.findMostSimilar('app-2.0.0-setup.exe')).toEqual([]);
+  });
+});
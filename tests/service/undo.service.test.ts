@@ -0,0 +1,91 @@
+/**
+ * UndoService 撤销移动测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  fileMoveLogger: loggerStub()
+}));
+
+import { FileMoveService } from '../../src/service/file-move.service.js';
+import { MoveJournalService } from '../../src/service/move-journal.service.js';
+import { UndoService } from '../../src/service/undo.service.js';
+
+describe('UndoService', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'undo');
+  const incomingDir = path.join(workDir, 'incoming');
+  const rootDir = path.join(workDir, 'library');
+  const run = { runId: '20240301T120000-aaaaaa', job: 'test' };
+  let journal: MoveJournalService;
+  let fileMoveService: FileMoveService;
+
+  const incoming = (name: string, content = name) => {
+    const filePath = path.join(incomingDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fs.mkdirSync(incomingDir, { recursive: true });
+    journal = new MoveJournalService(path.join(workDir, 'journal'));
+    fileMoveService = new FileMoveService(journal);
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('撤销整次运行时按移动的逆序还原', async () => {
+    // 同一文件在一次运行中被移动两次：只有逆序才能逐步还原
+    const source = incoming('报告.pdf');
+    const first = await fileMoveService.moveFile(source, path.join(rootDir, '文档'), { ...run, method: 'ai' });
+    const second = await fileMoveService.moveFile(first!, path.join(rootDir, '归档'), { ...run, method: 'similarity' });
+    const other = await fileMoveService.moveFile(incoming('notes.txt'), path.join(rootDir, '笔记'), { ...run, method: 'ai' });
+    expect(second).toBe(path.join(rootDir, '归档', '报告.pdf'));
+
+    const report = await new UndoService(journal).undoRun(run.runId);
+    expect(report.restored.map((entry) => entry.target)).toEqual([other!, second!, first!]);
+    expect(report.conflicts).toEqual([]);
+    expect(fs.readFileSync(source, 'utf8')).toBe('报告.pdf');
+    expect(fs.existsSync(path.join(incomingDir, 'notes.txt'))).toBe(true);
+    expect(journal.getActiveMoves(run.runId)).toEqual([]);
+  });
+
+  test('按移动后的路径或移动前的路径撤销单个文件', async () => {
+    const first = await fileMoveService.moveFile(incoming('a.pdf'), path.join(rootDir, '文档'), { ...run, method: 'ai' });
+    await fileMoveService.moveFile(incoming('b.pdf'), path.join(rootDir, '文档'), { ...run, method: 'ai' });
+    const undo = new UndoService(journal);
+
+    const byTarget = await undo.undoFile(first!);
+    expect(byTarget.restored.map((entry) => entry.target)).toEqual([first!]);
+    expect(fs.existsSync(path.join(incomingDir, 'a.pdf'))).toBe(true);
+
+    const bySource = await undo.undoFile(path.join(incomingDir, 'b.pdf'));
+    expect(bySource.restored.map((entry) => path.basename(entry.source))).toEqual(['b.pdf']);
+    expect(fs.existsSync(path.join(incomingDir, 'b.pdf'))).toBe(true);
+
+    // 已撤销的文件不会再次撤销
+    expect((await undo.undoFile(first!)).restored).toEqual([]);
+  });
+
+  test('原位置已被占用或文件已不在移动后的位置时跳过', async () => {
+    const conflict = await fileMoveService.moveFile(incoming('a.pdf'), path.join(rootDir, '文档'), { ...run, method: 'ai' });
+    const missing = await fileMoveService.moveFile(incoming('b.pdf'), path.join(rootDir, '文档'), { ...run, method: 'ai' });
+    incoming('a.pdf', '新下载的同名文件');
+    fs.unlinkSync(missing!);
+
+    const report = await new UndoService(journal).undoRun(run.runId);
+    expect(report.restored).toEqual([]);
+    expect(report.conflicts.map((entry) => entry.target)).toEqual([conflict!]);
+    expect(report.missing.map((entry) => entry.target)).toEqual([missing!]);
+    expect(fs.readFileSync(path.join(incomingDir, 'a.pdf'), 'utf8')).toBe('新下载的同名文件');
+    expect(fs.existsSync(conflict!)).toBe(true);
+    // 跳过的移动仍可在处理冲突后再次撤销
+    expect(journal.getActiveMoves(run.runId)).toHaveLength(2);
+  });
+});
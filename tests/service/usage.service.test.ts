@@ -0,0 +1,76 @@
+/**
+ * UsageService 用量统计与预算测试
+ */
+
+import { test, describe, expect, beforeEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  aiLogger: loggerStub()
+}));
+
+import { config } from '../../src/config.js';
+import { findPrice, UsageService } from '../../src/service/usage.service.js';
+
+describe('UsageService', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'usage');
+  const usagePath = path.join(workDir, 'usage.json');
+  const may1 = new Date(2024, 4, 1, 12);
+  const may2 = new Date(2024, 4, 2, 12);
+
+  beforeEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    config.USAGE_PRICES = { 'gpt-5-nano': { input: 0.05, output: 0.4 } };
+    config.USAGE_DAILY_BUDGET = 0;
+    config.USAGE_MONTHLY_BUDGET = 0;
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('价格按精确匹配或最长前缀查找', () => {
+    const prices = { 'gpt-5': { input: 1, output: 1 }, 'gpt-5-nano': { input: 2, output: 2 } };
+    expect(findPrice('gpt-5-nano-2025-08-07', prices)).toEqual({ input: 2, output: 2 });
+    expect(findPrice('gpt-5', prices)).toEqual({ input: 1, output: 1 });
+    expect(findPrice('qwen2.5', prices)).toBeNull();
+  });
+
+  test('应该累计本次运行并按日期与模型持久化', () => {
+    const service = new UsageService(usagePath);
+    service.record('gpt-5-nano', { promptTokens: 1_000_000, completionTokens: 500_000 }, may1);
+    service.record('local-model', { promptTokens: 100, completionTokens: 10 }, may2);
+    service.record('local-model', undefined, may2);
+
+    expect(service.getRunTotals()).toEqual({ requests: 3, promptTokens: 1_000_100, completionTokens: 500_010, cost: 0.25 });
+
+    // 新实例从磁盘读取
+    const reloaded = new UsageService(usagePath);
+    expect(reloaded.summarize('2024-05-01').total.cost).toBeCloseTo(0.25);
+    expect(reloaded.summarize('2024-05').models['local-model']).toEqual({
+      requests: 2,
+      promptTokens: 100,
+      completionTokens: 10,
+      cost: 0
+    });
+    expect(reloaded.getRunTotals().requests).toBe(0);
+  });
+
+  test('超出每日或每月预算时返回对应的预算', () => {
+    const service = new UsageService(usagePath);
+    service.record('gpt-5-nano', { promptTokens: 2_000_000, completionTokens: 0 }, may1);
+    service.record('gpt-5-nano', { promptTokens: 2_000_000, completionTokens: 0 }, may2);
+
+    config.USAGE_DAILY_BUDGET = 0.2;
+    config.USAGE_MONTHLY_BUDGET = 0.5;
+    expect(service.checkBudget(may2)).toBeNull();
+
+    config.USAGE_MONTHLY_BUDGET = 0.2;
+    expect(service.checkBudget(may2)).toEqual({ period: 'monthly', spent: 0.2, limit: 0.2 });
+
+    config.USAGE_DAILY_BUDGET = 0.1;
+    expect(service.checkBudget(may2)).toEqual({ period: 'daily', spent: 0.1, limit: 0.1 });
+  });
+});
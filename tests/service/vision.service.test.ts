@@ -0,0 +1,76 @@
+/**
+ * VisionService 缩略图测试（未安装 ImageMagick 时使用内嵌预览图）
+ */
+
+import { test, describe, expect, beforeAll, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+// 最小的 JPEG 头：SOI + APP0 + SOF0（只包含尺寸，足以识别宽高）
+function jpegHeader(width: number, height: number, padding = 0): Buffer {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+  const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03]);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0, Buffer.alloc(padding)]);
+}
+
+// 按文件名决定内嵌预览图的尺寸
+const previews: Record<string, Buffer> = {
+  'small.jpg': jpegHeader(160, 120),
+  'large.jpg': jpegHeader(4000, 3000),
+  'heavy.jpg': jpegHeader(300, 200, 512 * 1024),
+};
+
+mock.module('exiftool-vendored', () => ({
+  exiftool: {
+    read: mock(() => Promise.resolve({})),
+    extractThumbnail: mock(async (filePath: string, tempPath: string) => {
+      fs.writeFileSync(tempPath, previews[path.basename(filePath)]);
+    }),
+    end: mock(() => Promise.resolve())
+  }
+}));
+
+mock.module('../../src/logger.js', () => ({
+  fileInfoLogger: loggerStub()
+}));
+
+import { jpegDimensions, VisionService } from '../../src/service/vision.service.js';
+import type { FileInfoService } from '../../src/service/file-info.service.js';
+
+describe('jpegDimensions', () => {
+  test('应该读取 SOF 段中的宽高', () => {
+    expect(jpegDimensions(jpegHeader(640, 480))).toEqual({ width: 640, height: 480 });
+    expect(jpegDimensions(Buffer.from('not a jpeg'))).toBeNull();
+    expect(jpegDimensions(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]))).toBeNull();
+  });
+});
+
+describe('VisionService 内嵌预览图', () => {
+  const workDir = path.join(process.cwd(), 'tests', 'fixtures', 'vision');
+  const fileInfoService = { getMetadataTags: mock(async () => null) } as unknown as FileInfoService;
+  // 让 ImageMagick 检测失败，只使用内嵌预览图
+  const originalPath = process.env.PATH;
+
+  beforeAll(() => {
+    process.env.PATH = '';
+    fs.mkdirSync(workDir, { recursive: true });
+    for (const name of Object.keys(previews)) fs.writeFileSync(path.join(workDir, name), 'image');
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('尺寸或大小超出上限的预览图不发送，也不占用名额', async () => {
+    const vision = new VisionService(fileInfoService, { maxImagesPerRun: 1, maxSize: 512, onlyWithoutMetadata: true });
+
+    expect(await vision.thumbnailFor(path.join(workDir, 'large.jpg'))).toBeUndefined();
+    expect(await vision.thumbnailFor(path.join(workDir, 'heavy.jpg'))).toBeUndefined();
+
+    const thumbnail = await vision.thumbnailFor(path.join(workDir, 'small.jpg'));
+    expect(thumbnail?.mimeType).toBe('image/jpeg');
+    expect(Buffer.from(thumbnail!.data, 'base64').equals(previews['small.jpg'])).toBe(true);
+  });
+});
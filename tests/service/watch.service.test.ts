@@ -0,0 +1,114 @@
+/**
+ * WatchService 目录监听测试
+ */
+
+import { test, describe, expect, beforeAll, beforeEach, afterEach, afterAll, mock } from "bun:test";
+import fs from 'node:fs';
+import path from 'node:path';
+import { loggerStub } from '../setup.js';
+
+mock.module('../../src/logger.js', () => ({
+  watchLogger: loggerStub()
+}));
+
+import { config, JobConfig } from '../../src/config.js';
+import { WatchService } from '../../src/service/watch.service.js';
+import type { MainService, RunOptions } from '../../src/service/main.service.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('等待超时');
+    await sleep(10);
+  }
+}
+
+describe('WatchService', () => {
+  const incomingDir = path.join(process.cwd(), 'tests', 'fixtures', 'watch');
+  const original = {
+    debounce: config.WATCH_DEBOUNCE_MS,
+    checks: config.WATCH_STABLE_CHECKS,
+    interval: config.WATCH_STABLE_INTERVAL_MS,
+    sweep: config.WATCH_SWEEP_INTERVAL_MINUTES,
+  };
+  let runs: RunOptions[];
+  let service: WatchService;
+
+  const onlyFileRuns = () => runs.filter((options) => options.onlyFiles);
+
+  beforeAll(() => {
+    config.WATCH_DEBOUNCE_MS = 50;
+    config.WATCH_STABLE_CHECKS = 2;
+    config.WATCH_STABLE_INTERVAL_MS = 50;
+    config.WATCH_SWEEP_INTERVAL_MINUTES = 0;
+  });
+
+  beforeEach(async () => {
+    fs.rmSync(incomingDir, { recursive: true, force: true });
+    fs.mkdirSync(incomingDir, { recursive: true });
+    runs = [];
+    const job = { ...config.JOBS[0], NAME: 'test', INCOMING_DIR: incomingDir } as JobConfig;
+    const mainService = {
+      job,
+      runOnce: mock(async (options: RunOptions = {}) => {
+        runs.push(options);
+        return null;
+      }),
+    } as unknown as MainService;
+    service = new WatchService(mainService);
+    service.start();
+    // 启动时先执行一次全量扫描
+    await waitFor(() => runs.length === 1);
+  });
+
+  afterEach(async () => {
+    await service.stop();
+  });
+
+  afterAll(() => {
+    config.WATCH_DEBOUNCE_MS = original.debounce;
+    config.WATCH_STABLE_CHECKS = original.checks;
+    config.WATCH_STABLE_INTERVAL_MS = original.interval;
+    config.WATCH_SWEEP_INTERVAL_MINUTES = original.sweep;
+    fs.rmSync(incomingDir, { recursive: true, force: true });
+  });
+
+  test('启动时全量扫描，连续的事件合并为一次处理', async () => {
+    expect(runs[0]).toEqual({ excludeFiles: [] });
+
+    for (const name of ['a.pdf', 'b.pdf', 'a.pdf']) {
+      fs.writeFileSync(path.join(incomingDir, name), name);
+      await sleep(5);
+    }
+    await waitFor(() => onlyFileRuns().length > 0);
+    await sleep(200);
+
+    expect(onlyFileRuns()).toHaveLength(1);
+    expect([...onlyFileRuns()[0].onlyFiles!].sort()).toEqual(['a.pdf', 'b.pdf']);
+  });
+
+  test('仍在写入的文件等大小与修改时间稳定后才处理', async () => {
+    const filePath = path.join(incomingDir, 'download.iso');
+    fs.writeFileSync(filePath, 'x');
+    // 持续写入的时间超过去抖与多次稳定性检查
+    for (let i = 0; i < 12; i++) {
+      await sleep(30);
+      fs.appendFileSync(filePath, 'x');
+    }
+    expect(onlyFileRuns()).toEqual([]);
+
+    await waitFor(() => onlyFileRuns().length > 0);
+    expect(onlyFileRuns()[0].onlyFiles).toEqual(['download.iso']);
+  });
+
+  test('处理前被删除的文件不再处理', async () => {
+    const filePath = path.join(incomingDir, 'tmp.part');
+    fs.writeFileSync(filePath, 'partial');
+    await sleep(80);
+    fs.unlinkSync(filePath);
+    await sleep(300);
+    expect(onlyFileRuns()).toEqual([]);
+  });
+});
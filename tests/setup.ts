@@ -3,7 +3,7 @@
  * 在所有测试运行前执行的配置
  */
 
-import { beforeAll, afterAll } from "bun:test";
+import { beforeAll, afterAll, mock } from "bun:test";
 
 // 全局测试设置
 beforeAll(async () => {
@@ -32,3 +32,15 @@ export function removeTestFile(path: string): Promise<void> {
   });
 }
 
+// 替代 pino 日志实例的桩对象，用于 mock.module('.../src/logger.js')
+export interface LoggerStub {
+  info: ReturnType<typeof mock>;
+  warn: ReturnType<typeof mock>;
+  error: ReturnType<typeof mock>;
+  debug: ReturnType<typeof mock>;
+  child: ReturnType<typeof mock>;
+}
+
+export function loggerStub(): LoggerStub {
+  return { info: mock(), warn: mock(), error: mock(), debug: mock(), child: mock(() => loggerStub()) };
+}